@@ -0,0 +1,60 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import { AxiosAdapter, AxiosRequestConfig } from 'axios'
+import { RequestOptions } from './common-types'
+
+/**
+ * Creates the error aborted calls reject with. It has no request config attached,
+ * so the retry logic of the http client does not retry aborted requests.
+ * @private
+ */
+export function createAbortError() {
+  const error = new Error('The request was aborted')
+  error.name = 'AbortError'
+  return error
+}
+
+/**
+ * @private
+ */
+export function isAbortError(error: unknown) {
+  return !!error && (error as Error).name === 'AbortError'
+}
+
+/**
+ * Rejects as soon as the signal is aborted, the given promise is not cancelled.
+ * Used for promises which are shared by callers with different signals.
+ * @private
+ */
+export function withAbortSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise
+  }
+  if (signal.aborted) {
+    return Promise.reject(createAbortError())
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError())
+    signal.addEventListener('abort', onAbort)
+    promise.then(resolve, reject).then(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+/**
+ * Rejects as soon as the signal of the request config is aborted, even when
+ * the given adapter is not able to cancel the request itself.
+ * @private
+ */
+export function createAbortableAdapter(adapter: AxiosAdapter): AxiosAdapter {
+  return function abortableAdapter(config: AxiosRequestConfig & RequestOptions) {
+    const { signal } = config
+    if (signal && signal.aborted) {
+      return Promise.reject(createAbortError())
+    }
+    return withAbortSignal(adapter(config), signal)
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import { AxiosAdapter, AxiosRequestConfig } from 'axios'
+
+/**
+ * Returns the access token to use for the next request, e.g. by exchanging
+ * an app installation key or refreshing an OAuth token
+ */
+export type AccessTokenProvider = () => string | Promise<string>
+
+/**
+ * Wraps the given adapter so every request is sent with the token the provider
+ * returns. The token is cached until a request fails with 401 Unauthorized, which
+ * refreshes it once and sends the request again.
+ * @private
+ */
+export function createAccessTokenAdapter(
+  provider: AccessTokenProvider,
+  adapter: AxiosAdapter
+): AxiosAdapter {
+  let currentToken: Promise<string> | null = null
+
+  function getToken() {
+    if (!currentToken) {
+      const token = Promise.resolve().then(provider)
+      currentToken = token
+      // a failed provider call must not stick, so the next request asks again
+      token.catch(() => {
+        if (currentToken === token) {
+          currentToken = null
+        }
+      })
+    }
+    return currentToken
+  }
+
+  function send(config: AxiosRequestConfig, token: string) {
+    return adapter({
+      ...config,
+      headers: { ...config.headers, Authorization: `Bearer ${token}` },
+    })
+  }
+
+  return function accessTokenAdapter(config: AxiosRequestConfig) {
+    const usedToken = getToken()
+    return usedToken.then((token) =>
+      send(config, token).catch((error) => {
+        if (!error || !error.response || error.response.status !== 401) {
+          throw error
+        }
+        // concurrent requests failing with the same token share one refresh
+        if (currentToken === usedToken) {
+          currentToken = null
+        }
+        return getToken().then((refreshedToken) => send(config, refreshedToken))
+      })
+    )
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios'
+import { createAbortError } from '../abort'
+import { RequestOptions } from '../common-types'
+
+/**
+ * Creates an error with the same shape axios uses for failed requests,
+ * so the retry logic and the errorHandler can treat both adapters alike.
+ * @private
+ */
+export function createAdapterError(
+  message: string,
+  config: AxiosRequestConfig,
+  code?: string | null,
+  request?: unknown,
+  response?: AxiosResponse
+): AxiosError {
+  const error = new Error(message) as AxiosError
+  error.config = config
+  if (code) {
+    error.code = code
+  }
+  error.request = request
+  error.response = response
+  error.isAxiosError = true
+  error.toJSON = function () {
+    return {
+      message: this.message,
+      name: this.name,
+      stack: this.stack,
+      config: this.config,
+      code: this.code,
+    }
+  }
+  return error
+}
+
+function isAbsoluteURL(url: string) {
+  return /^([a-z][a-z\d+\-.]*:)?\/\//i.test(url)
+}
+
+/**
+ * Combines base url, url and serialized params the same way axios does
+ * @private
+ */
+export function buildFullURL(config: AxiosRequestConfig) {
+  const { baseURL, url = '', params, paramsSerializer } = config
+  let fullURL = url
+  if (baseURL && !isAbsoluteURL(url)) {
+    fullURL = url ? baseURL.replace(/\/+$/, '') + '/' + url.replace(/^\/+/, '') : baseURL
+  }
+
+  if (!params) {
+    return fullURL
+  }
+
+  const serializedParams = paramsSerializer
+    ? paramsSerializer(params)
+    : new URLSearchParams(params).toString()
+
+  if (!serializedParams) {
+    return fullURL
+  }
+
+  const hashIndex = fullURL.indexOf('#')
+  if (hashIndex !== -1) {
+    fullURL = fullURL.slice(0, hashIndex)
+  }
+  return fullURL + (fullURL.indexOf('?') === -1 ? '?' : '&') + serializedParams
+}
+
+function buildHeaders(config: AxiosRequestConfig) {
+  const headers: Record<string, string> = {}
+  Object.keys(config.headers || {}).forEach((name) => {
+    const value = config.headers[name]
+    if (value === undefined || value === null) {
+      return
+    }
+    // let fetch set the content type when there is no body
+    if (config.data === undefined && name.toLowerCase() === 'content-type') {
+      return
+    }
+    headers[name] = String(value)
+  })
+  return headers
+}
+
+function parseHeaders(headers: Headers) {
+  const parsed: Record<string, string> = {}
+  headers.forEach((value, name) => {
+    parsed[name.toLowerCase()] = value
+  })
+  return parsed
+}
+
+/**
+ * Axios adapter which performs requests with the global `fetch` function.
+ * Can be used in runtimes without XMLHttpRequest or the Node.js http module,
+ * like edge runtimes or service workers.
+ * @private
+ */
+export default function fetchAdapter(
+  config: AxiosRequestConfig & RequestOptions
+): Promise<AxiosResponse> {
+  if (typeof fetch === 'undefined') {
+    return Promise.reject(
+      new TypeError('Expected fetch to be available in the global scope for the fetch adapter')
+    )
+  }
+
+  const url = buildFullURL(config)
+  const method = (config.method || 'get').toUpperCase()
+  const request = { url, method }
+  const controller = typeof AbortController !== 'undefined' ? new AbortController() : null
+  let timedOut = false
+  const timeoutId =
+    config.timeout && controller
+      ? setTimeout(() => {
+          timedOut = true
+          controller.abort()
+        }, config.timeout)
+      : undefined
+  const { signal } = config
+  const onAbort = () => controller && controller.abort()
+  if (signal && controller) {
+    signal.addEventListener('abort', onAbort, { once: true })
+  }
+  // runs once the body has been read, so the timeout also covers a slow body
+  const cleanup = () => {
+    if (timeoutId) {
+      clearTimeout(timeoutId)
+    }
+    if (signal && controller) {
+      signal.removeEventListener('abort', onAbort)
+    }
+  }
+
+  return fetch(url, {
+    method,
+    headers: buildHeaders(config),
+    body: config.data,
+    signal: controller ? controller.signal : undefined,
+  })
+    .then((fetchResponse) => {
+      const body: Promise<string | ArrayBuffer> =
+        config.responseType === 'arraybuffer' ? fetchResponse.arrayBuffer() : fetchResponse.text()
+      return body.then((data) => {
+        const response: AxiosResponse = {
+          data,
+          status: fetchResponse.status,
+          statusText: fetchResponse.statusText,
+          headers: parseHeaders(fetchResponse.headers),
+          config,
+          request,
+        }
+        const { validateStatus } = config
+        if (!validateStatus || validateStatus(response.status)) {
+          return response
+        }
+        throw createAdapterError(
+          `Request failed with status code ${response.status}`,
+          config,
+          null,
+          request,
+          response
+        )
+      })
+    })
+    .catch((error) => {
+      if (error && error.isAxiosError) {
+        throw error
+      }
+      if (signal && signal.aborted) {
+        throw createAbortError()
+      }
+      if (timedOut) {
+        throw createAdapterError(
+          `timeout of ${config.timeout}ms exceeded`,
+          config,
+          'ECONNABORTED',
+          request
+        )
+      }
+      throw createAdapterError('Network Error', config, null, request)
+    })
+    .then(
+      (response) => {
+        cleanup()
+        return response
+      },
+      (error) => {
+        cleanup()
+        throw error
+      }
+    )
+}
@@ -0,0 +1,62 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import axios, { AxiosAdapter, AxiosRequestConfig } from 'axios'
+import fetchAdapter from './fetch-adapter'
+import { RequestOptions } from '../common-types'
+
+/**
+ * A function which performs a single request. It receives the fully merged
+ * axios request config and has to resolve with an axios response object, or
+ * reject with an error carrying `config` and, if the server answered, `response`.
+ */
+export type CustomTransport = AxiosAdapter
+
+export type AdapterOption = 'axios' | 'fetch' | CustomTransport
+
+/**
+ * Uses the default adapter axios picks for the current platform. An abort
+ * signal of the request config is turned into an axios cancel token.
+ * @private
+ */
+function axiosAdapter(config: AxiosRequestConfig & RequestOptions) {
+  const adapter = axios.defaults.adapter as AxiosAdapter
+  const { signal } = config
+  if (!signal || config.cancelToken) {
+    return adapter(config)
+  }
+  const source = axios.CancelToken.source()
+  const onAbort = () => source.cancel()
+  signal.addEventListener('abort', onAbort, { once: true })
+  // the signal can outlive the request, so the listener is removed once it settles
+  const removeListener = () => signal.removeEventListener('abort', onAbort)
+  return adapter({ ...config, cancelToken: source.token }).then(
+    (response) => {
+      removeListener()
+      return response
+    },
+    (error) => {
+      removeListener()
+      throw error
+    }
+  )
+}
+
+/**
+ * Resolves the adapter option of the client params to an axios adapter
+ * @private
+ */
+export function resolveAdapter(adapter?: AdapterOption): CustomTransport {
+  if (adapter === undefined || adapter === 'axios') {
+    return axiosAdapter
+  }
+  if (adapter === 'fetch') {
+    return fetchAdapter
+  }
+  if (typeof adapter === 'function') {
+    return adapter
+  }
+  throw new TypeError(`Unknown adapter ${adapter}, expected 'axios', 'fetch' or a function`)
+}
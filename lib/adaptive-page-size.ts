@@ -0,0 +1,139 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import { CollectionProp } from './common-types'
+import { ContentfulApiError } from './errors'
+
+type PageQuery = { skip?: number; limit?: number }
+
+export type AdaptiveFetch = <T, Q extends PageQuery>(
+  fetchPage: (query: Q) => Promise<CollectionProp<T>>,
+  query: Q
+) => Promise<CollectionProp<T>>
+
+/** Linked entities of a page, e.g. `includes.Entry` and `includes.Asset` of entries */
+type Includes = Record<string, Array<{ sys: { id: string } }>>
+
+type PageSize = {
+  limit: number
+  /** Successful requests since the limit was last changed */
+  successes: number
+  /** Last limit the API refused, the limit only grows up to below it */
+  failedLimit?: number
+}
+
+/** Limit the API uses when the query has none */
+const DEFAULT_LIMIT = 100
+
+/** Number of successful requests in a row after which the limit is doubled */
+const GROWTH_INTERVAL = 3
+
+/**
+ * Whether the API refused to send a page because its response would exceed the size limit,
+ * which happens for pages of deeply nested entries
+ * @private
+ */
+export function isResponseSizeTooBig(error: unknown) {
+  return (
+    error instanceof ContentfulApiError &&
+    error.status === 400 &&
+    /response size too big/i.test(error.message)
+  )
+}
+
+function getShapeKey(query: PageQuery) {
+  const shape: PageQuery = { ...query }
+  delete shape.skip
+  delete shape.limit
+  return JSON.stringify(shape)
+}
+
+/**
+ * Adds the included entities of a part of a page which earlier parts did not include
+ */
+function mergeIncludes(target: Includes, includes: Includes = {}) {
+  Object.keys(includes).forEach((type) => {
+    const merged = target[type] || (target[type] = [])
+    includes[type].forEach((entity) => {
+      if (!merged.some((candidate) => candidate.sys.id === entity.sys.id)) {
+        merged.push(entity)
+      }
+    })
+  })
+}
+
+/**
+ * Creates a fetch for pages which halves the limit when a response is too big and
+ * requests the rest of the page from where the last smaller page ended. The limit
+ * doubles again after a few successful requests in a row, up to below the last limit
+ * which failed. The resolved page always has the requested `skip` and `limit`, and the
+ * `includes` of all parts.
+ *
+ * The reduced limit is remembered per query without `skip` and `limit`, so the next
+ * pages of an iteration start with it instead of failing again, and keep growing it
+ * from there.
+ * @private
+ */
+export function createAdaptiveFetch(): AdaptiveFetch {
+  const sizes = new Map<string, PageSize>()
+
+  return function fetchAdaptively<T, Q extends PageQuery>(
+    fetchPage: (query: Q) => Promise<CollectionProp<T>>,
+    query: Q
+  ) {
+    const key = getShapeKey(query)
+    const skip = query.skip || 0
+    const requestedLimit = query.limit || DEFAULT_LIMIT
+    const items: T[] = []
+    let includes: Includes | undefined
+    const size = sizes.get(key) || { limit: requestedLimit, successes: 0 }
+
+    function fetchFrom(offset: number): Promise<CollectionProp<T>> {
+      const pageLimit = Math.min(size.limit, requestedLimit - items.length)
+      // the first request is sent as it is unless a smaller limit is known
+      const pageQuery =
+        offset === skip && pageLimit === requestedLimit
+          ? query
+          : { ...query, skip: offset, limit: pageLimit }
+
+      return fetchPage(pageQuery).then(
+        (page) => {
+          if (pageQuery === query) {
+            return page
+          }
+          items.push(...page.items)
+          const pageIncludes = (page as CollectionProp<T> & { includes?: Includes }).includes
+          if (pageIncludes) {
+            includes = includes || {}
+            mergeIncludes(includes, pageIncludes)
+          }
+          size.successes++
+          if (size.successes >= GROWTH_INTERVAL) {
+            size.limit = Math.min(size.limit * 2, (size.failedLimit || Infinity) - 1)
+            size.successes = 0
+          }
+          const nextOffset = offset + page.items.length
+          const isLastPage = page.items.length < pageLimit || nextOffset >= page.total
+          if (items.length >= requestedLimit || isLastPage) {
+            return { ...page, skip, limit: requestedLimit, items, ...(includes && { includes }) }
+          }
+          return fetchFrom(nextOffset)
+        },
+        (error) => {
+          if (!isResponseSizeTooBig(error) || pageLimit <= 1) {
+            throw error
+          }
+          size.limit = Math.max(1, Math.floor(pageLimit / 2))
+          size.successes = 0
+          size.failedLimit = pageLimit
+          sizes.set(key, size)
+          return fetchFrom(offset)
+        }
+      )
+    }
+
+    return fetchFrom(skip)
+  }
+}
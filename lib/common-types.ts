@@ -56,6 +56,23 @@ export interface Collection<T, TPlain>
   extends CollectionProp<T>,
     DefaultElements<CollectionProp<TPlain>> {}
 
+/**
+ * Page of a collection paginated with cursors instead of `skip`, `pages` links the
+ * previous and next page
+ */
+export interface CursorCollectionProp<TObj> {
+  sys: {
+    type: 'Array'
+  }
+  pages: BasicCursorPaginationOptions
+  limit: number
+  items: TObj[]
+}
+
+export interface CursorCollection<T, TPlain>
+  extends CursorCollectionProp<T>,
+    DefaultElements<CursorCollectionProp<TPlain>> {}
+
 /* eslint-disable @typescript-eslint/no-explicit-any */
 export interface QueryOptions extends BasicQueryOptions {
   content_type?: string
@@ -74,3 +91,14 @@ export interface BasicCursorPaginationOptions {
   prev?: string
   next?: string
 }
+
+/**
+ * Options which can be passed as the last argument of every API method
+ */
+export interface RequestOptions {
+  /**
+   * Signal of an AbortController. Aborting it cancels the request, stops retries and
+   * polling, and rejects the call with an error named `AbortError`.
+   */
+  signal?: AbortSignal
+}
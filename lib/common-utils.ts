@@ -1,9 +1,17 @@
 /* eslint-disable @typescript-eslint/ban-ts-ignore */
 
 import cloneDeep from 'lodash/cloneDeep'
-import { AxiosInstance } from 'axios'
+import cloneDeepWith from 'lodash/cloneDeepWith'
+import { AxiosInstance, AxiosRequestConfig } from 'axios'
 import { toPlainObject } from 'contentful-sdk-core'
-import { CollectionProp, Collection } from './common-types'
+import {
+  CollectionProp,
+  Collection,
+  CursorCollectionProp,
+  CursorCollection,
+  QueryOptions,
+  RequestOptions,
+} from './common-types'
 
 export const wrapCollection = <R, T>(fn: (http: AxiosInstance, entity: T) => R) => (
   http: AxiosInstance,
@@ -16,8 +24,73 @@ export const wrapCollection = <R, T>(fn: (http: AxiosInstance, entity: T) => R)
   return collectionData
 }
 
+export const wrapCursorCollection = <R, T>(fn: (http: AxiosInstance, entity: T) => R) => (
+  http: AxiosInstance,
+  data: CursorCollectionProp<T>
+): CursorCollection<R, T> => {
+  const collectionData = toPlainObject(cloneDeep(data))
+  // @ts-ignore
+  collectionData.items = collectionData.items.map((entity) => fn(http, entity))
+  // @ts-ignore
+  return collectionData
+}
+
 export const VersionHeader = (version?: number) => ({
   headers: {
     'X-Contentful-Version': Number.isInteger(version) ? version : 0,
   },
 })
+
+/**
+ * Adds the request options passed to an API method to the axios request config
+ * @private
+ */
+export const withRequestOptions = (
+  options: RequestOptions = {},
+  config: AxiosRequestConfig = {}
+): AxiosRequestConfig & RequestOptions =>
+  options.signal ? { ...config, signal: options.signal } : config
+
+/**
+ * The sdk relies heavily on sys metadata, so the sys property can't be omitted with `select`
+ * @private
+ */
+export function normalizeSelect(query: QueryOptions) {
+  if (query.select && !/sys/i.test(query.select)) {
+    query.select += ',sys'
+  }
+}
+
+function isWrappedEntity(
+  value: unknown
+): value is { sys: { type: 'Entry' | 'Asset'; id: string } } {
+  const entity = value as { sys?: { type?: string }; toPlainObject?: unknown } | null
+  return (
+    !!entity &&
+    typeof entity.toPlainObject === 'function' &&
+    !!entity.sys &&
+    (entity.sys.type === 'Entry' || entity.sys.type === 'Asset')
+  )
+}
+
+/**
+ * Like `toPlainObject` of contentful-sdk-core, but wrapped entries and assets nested in
+ * the data, which link resolution puts in place of links, are turned back into links
+ * @private
+ */
+export function toPlainObjectWithLinks<T extends Record<string, unknown>>(
+  data: T
+): T & { toPlainObject(): T } {
+  return Object.defineProperty(data, 'toPlainObject', {
+    enumerable: false,
+    configurable: false,
+    writable: false,
+    value: function () {
+      return cloneDeepWith(this, (value: unknown, key: unknown) =>
+        key !== undefined && isWrappedEntity(value)
+          ? { sys: { type: 'Link', linkType: value.sys.type, id: value.sys.id } }
+          : undefined
+      )
+    },
+  })
+}
@@ -0,0 +1,200 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import cloneDeep from 'lodash/cloneDeep'
+import isEqual from 'lodash/isEqual'
+import { VersionMismatchError } from './errors'
+import { PatchUpdateOptions } from './json-patch'
+
+/**
+ * A field value which was changed both locally and on the server since the common base
+ */
+export type FieldConflict = {
+  fieldId: string
+  locale: string
+  /** Value of the common ancestor, undefined when it is not known */
+  base: unknown
+  /** Value of the object `update` was called on */
+  local: unknown
+  /** Value on the server */
+  remote: unknown
+}
+
+/**
+ * Returns the value to save for a conflicting field value, `undefined` removes the value
+ */
+export type ConflictResolver = (conflict: FieldConflict) => unknown | Promise<unknown>
+
+/**
+ * - `retry` sends the local object again with the current version, overwriting changes on the server
+ * - `merge` keeps the changes on the server to other field values, local changes win conflicts
+ * - a resolver function merges like `merge` and decides each conflict
+ */
+export type ConflictStrategy = 'retry' | 'merge' | ConflictResolver
+
+export interface UpdateOptions extends PatchUpdateOptions {
+  /**
+   * What to do when the entity was changed on the server since it was fetched.
+   * With `patch`, `retry` sends the local changes again with the current version,
+   * keeping the changes on the server to other values. Merged entities are sent as a whole.
+   */
+  onConflict?: ConflictStrategy
+  /**
+   * Number of update requests to send before the version mismatch error is thrown
+   * @default 5
+   */
+  maxAttempts?: number
+}
+
+type LocalizedEntity = {
+  sys: { version: number }
+  fields?: Record<string, Record<string, unknown>>
+  metadata?: unknown
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5
+
+function keysOf(...objects: Array<Record<string, unknown> | undefined>) {
+  return objects.reduce<string[]>(
+    (keys, object) =>
+      keys.concat(Object.keys(object || {}).filter((key) => keys.indexOf(key) === -1)),
+    []
+  )
+}
+
+/**
+ * Merges one value, `resolveConflict` is only called when both sides changed it differently
+ */
+function mergeValue<V>(
+  base: V,
+  local: V,
+  remote: V,
+  resolveConflict: () => unknown | Promise<unknown>
+): Promise<unknown> {
+  if (isEqual(local, remote) || isEqual(base, remote)) {
+    return Promise.resolve(local)
+  }
+  if (isEqual(base, local)) {
+    return Promise.resolve(remote)
+  }
+  return Promise.resolve(resolveConflict())
+}
+
+/**
+ * Three-way merges the fields per field and locale, and the metadata as a whole
+ * @private
+ */
+export function mergeEntities<T extends LocalizedEntity>(
+  base: T | undefined,
+  local: T,
+  remote: T,
+  resolver: ConflictResolver
+): Promise<T> {
+  const baseFields = (base && base.fields) || {}
+  const localFields = local.fields || {}
+  const remoteFields = remote.fields || {}
+  const fields: Record<string, Record<string, unknown>> = {}
+
+  const merges = keysOf(baseFields, localFields, remoteFields).reduce<Promise<unknown>[]>(
+    (promises, fieldId) => {
+      const locales = keysOf(baseFields[fieldId], localFields[fieldId], remoteFields[fieldId])
+      return promises.concat(
+        locales.map((locale) => {
+          const conflict = {
+            fieldId,
+            locale,
+            base: (baseFields[fieldId] || {})[locale],
+            local: (localFields[fieldId] || {})[locale],
+            remote: (remoteFields[fieldId] || {})[locale],
+          }
+          return mergeValue(conflict.base, conflict.local, conflict.remote, () =>
+            resolver(conflict)
+          ).then((value) => {
+            if (value !== undefined) {
+              fields[fieldId] = { ...fields[fieldId], [locale]: value }
+            }
+          })
+        })
+      )
+    },
+    []
+  )
+
+  return Promise.all(merges).then(() =>
+    mergeValue(base && base.metadata, local.metadata, remote.metadata, () => local.metadata).then(
+      (metadata) => {
+        const merged = { ...cloneDeep(local), fields, sys: cloneDeep(remote.sys) }
+        if (metadata !== undefined) {
+          merged.metadata = cloneDeep(metadata)
+        }
+        return merged
+      }
+    )
+  )
+}
+
+/**
+ * Finds the common ancestor of the local object and the server in the snapshots,
+ * which is the newest snapshot not newer than the local object
+ * @private
+ */
+export function findBase<T extends LocalizedEntity>(snapshots: T[], local: T) {
+  return snapshots
+    .filter((snapshot) => snapshot.sys.version <= local.sys.version)
+    .reduce<T | undefined>(
+      (newest, snapshot) =>
+        !newest || snapshot.sys.version > newest.sys.version ? snapshot : newest,
+      undefined
+    )
+}
+
+/**
+ * Sends an update and resolves version conflicts with the strategy of the options.
+ * The base of the first conflict is the original the local object was fetched as,
+ * the snapshots are only searched when no original is known. On further conflicts
+ * the previously merged server state is the base.
+ * @private
+ */
+export function updateWithConflictResolution<T extends LocalizedEntity, R>(
+  local: T,
+  options: UpdateOptions,
+  {
+    original,
+    update,
+    getRemote,
+    getSnapshots,
+  }: {
+    original?: T
+    update: (data: T) => Promise<R>
+    getRemote: () => Promise<T>
+    getSnapshots: () => Promise<T[]>
+  }
+): Promise<R> {
+  const { onConflict, maxAttempts = DEFAULT_MAX_ATTEMPTS } = options
+  const resolver: ConflictResolver =
+    typeof onConflict === 'function' ? onConflict : (conflict) => conflict.local
+
+  function attempt(data: T, base: T | undefined, attempts: number): Promise<R> {
+    return update(data).catch((error) => {
+      if (!onConflict || !(error instanceof VersionMismatchError) || attempts >= maxAttempts) {
+        throw error
+      }
+      return getRemote().then((remote) => {
+        if (onConflict === 'retry') {
+          return attempt({ ...data, sys: remote.sys }, remote, attempts + 1)
+        }
+        const loadBase =
+          attempts > 1
+            ? base
+            : original || getSnapshots().then((snapshots) => findBase(snapshots, local))
+        return Promise.resolve(loadBase)
+          .then((resolvedBase) => mergeEntities(resolvedBase, data, remote, resolver))
+          .then((merged) => attempt(merged, remote, attempts + 1))
+      })
+    })
+  }
+
+  return attempt(local, undefined, 1)
+}
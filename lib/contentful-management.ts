@@ -6,6 +6,62 @@
 
 import createContentfulApi, { ClientAPI } from './create-contentful-api'
 import { createCMAHttpClient, ClientParams } from './create-cma-http-client'
+import createPlainClientApi, { PlainClientAPI, DefaultParams } from './create-plain-client-api'
+
+export {
+  ContentfulApiError,
+  NotFoundError,
+  VersionMismatchError,
+  UnprocessableEntityError,
+  ValidationFailedError,
+  RateLimitExceededError,
+  AccessDeniedError,
+  ServerError,
+} from './errors'
+export type { ContentfulApiErrorData, ContentfulErrorRequest } from './errors'
+export { formatValidationErrors } from './validation-errors'
+export { createQuery } from './query-builder'
+export { createPatch } from './json-patch'
+export { traverseReferences } from './references'
+export { diffEntries, renderEntryDiff } from './entry-diff'
+export type {
+  ConflictResolver,
+  ConflictStrategy,
+  FieldConflict,
+  UpdateOptions,
+} from './conflict-resolution'
+export type { RedactionOptions } from './redaction'
+export type { PatchOperation, PatchUpdateOptions } from './json-patch'
+export type { FieldValueOptions, SetFieldValueOptions } from './localization'
+export type { EntityLink } from './links'
+export type { ValidateEntryOptions } from './entry-validation'
+export type { RestoreSnapshotOptions, RestoreSnapshotResult } from './entities/snapshot'
+export type {
+  DiffableEntry,
+  EntryFieldChange,
+  RenderEntryDiffOptions,
+  RichTextNode,
+  RichTextNodeChange,
+} from './entry-diff'
+export type {
+  EntryReferenceQueryOptions,
+  ReferenceNode,
+  ReferenceTree,
+  ReferenceVisitor,
+  TraverseReferencesOptions,
+} from './references'
+export type { GetEntriesOptions, ResolvedEntryCollection, UnresolvedLink } from './link-resolution'
+export type {
+  FieldType,
+  FieldTypeMap,
+  OperatorOf,
+  OrderDirection,
+  QueryBuilder,
+  SysField,
+  ValueOf,
+} from './query-builder'
+export type { CursorPaginatedCollection, PaginatedCollection, PaginationOptions } from './paginate'
+export type { ValidationErrorRecord } from './validation-errors'
 
 /**
  * Create a client instance
@@ -24,3 +80,31 @@ export function createClient(params: ClientParams): ClientAPI {
   })
   return api
 }
+
+/**
+ * Create a plain client instance. Its methods take all ids as parameters and
+ * return plain objects, so no space or environment has to be fetched first.
+ * @param params - Client initialization parameters
+ * @param defaults - Default ids used when they are omitted from a call
+ *
+ * ```javascript
+ * const plainClient = contentfulManagement.createPlainClient(
+ *   {
+ *     accessToken: 'myAccessToken'
+ *   },
+ *   {
+ *     spaceId: '<space_id>',
+ *     environmentId: 'master'
+ *   }
+ * )
+ *
+ * const entry = await plainClient.entry.get({ entryId: '<entry_id>' })
+ * ```
+ */
+export function createPlainClient(params: ClientParams, defaults?: DefaultParams): PlainClientAPI {
+  const http = createCMAHttpClient(params)
+  return createPlainClientApi({
+    http,
+    defaults,
+  })
+}
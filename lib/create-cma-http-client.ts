@@ -3,18 +3,34 @@
  * @hidden
  */
 
-import axios, { AxiosRequestConfig, AxiosProxyConfig, AxiosResponse } from 'axios'
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosProxyConfig, AxiosResponse } from 'axios'
 import { createHttpClient, getUserAgentHeader } from 'contentful-sdk-core'
 import cloneDeep from 'lodash/cloneDeep'
+import { AdapterOption, resolveAdapter } from './adapters'
+import { composeMiddleware, Middleware } from './middleware'
+import { createCachingAdapter, CacheOptions } from './response-cache'
+import { createDeduplicatingAdapter } from './request-deduplication'
+import { createAbortableAdapter } from './abort'
+import { AccessTokenProvider, createAccessTokenAdapter } from './access-token'
+import { createRecordingAdapter, RecorderOptions } from './recorder'
+import { createRedactionAdapter, createRedactor, RedactionOptions } from './redaction'
+import {
+  createRequestQueue,
+  createQueuedAdapter,
+  RequestQueue,
+  RequestQueueOptions,
+} from './request-queue'
 
 import { Agent as httpAgent } from 'http'
 import { Agent as httpsAgent } from 'https'
 
 export type ClientParams = {
   /**
-   * Contentful CMA Access Token
+   * Contentful CMA Access Token, or a function returning it for tokens which expire,
+   * like OAuth and app access tokens. The function is called for the first request and
+   * again whenever a request fails with 401 Unauthorized, which is then retried once.
    */
-  accessToken: string
+  accessToken: string | AccessTokenProvider
   /**
    * Requests will be made over http instead of the default https
    * @default false
@@ -50,6 +66,13 @@ export type ClientParams = {
    * @see <a href="https://github.com/mzabriskie/axios#request-config"> axios docs </a>
    */
   proxy?: AxiosProxyConfig
+  /**
+   * Transport used to perform the requests. Either `'axios'`, `'fetch'` for runtimes
+   * which only provide the global fetch function, or a custom transport function
+   * with the signature of an axios adapter.
+   * @default axios
+   */
+  adapter?: AdapterOption
   /**
    * Optional additional headers
    */
@@ -68,6 +91,27 @@ export type ClientParams = {
    * Gets called on every response
    */
   responseLogger?: (response: AxiosResponse) => void
+  /**
+   * Ordered list of middleware every request passes through. Each middleware receives
+   * the request config and a `next()` function which continues the pipeline, and
+   * resolves with the response. Space, environment and organization objects use the
+   * same pipeline.
+   */
+  middleware?: Middleware[]
+  /**
+   * Opt-in cache for GET responses with an ETag or Last-Modified header. Cached
+   * responses are revalidated with conditional requests and served again when the
+   * server answers with 304 Not Modified. Any other request to a path invalidates
+   * the cached responses for it.
+   * @default false
+   */
+  cache?: boolean | CacheOptions
+  /**
+   * Identical GET requests which are in flight at the same time share one request.
+   * Set to false to always send every request.
+   * @default true
+   */
+  dedupe?: boolean
   /**
    * Application name and version e.g myApp/version
    */
@@ -91,6 +135,26 @@ export type ClientParams = {
    * @default 1073741824 i.e 1GB
    */
   maxContentLength?: number
+  /**
+   * Optional limits for requests sent by this client and all space, environment and
+   * organization objects created from it. The queue also pauses when the
+   * `X-Contentful-RateLimit-Second-Remaining` header reports no requests are left.
+   * @default { concurrency: Infinity, requestsPerSecond: Infinity }
+   */
+  requestQueue?: RequestQueueOptions
+  /**
+   * Records requests with their responses to a cassette file, or replays them from it
+   * without network access. Tokens, volatile headers and timestamps are removed from
+   * the recordings. Only available in Node.js.
+   */
+  recorder?: RecorderOptions
+  /**
+   * Secret values to remove from error payloads, from the config and response passed to
+   * `requestLogger` and `responseLogger`, and from `logHandler` messages. Webhook passwords
+   * and secret headers, API key access tokens and personal access tokens are redacted
+   * by default, the `Authorization` header is shortened to the last characters.
+   */
+  redaction?: RedactionOptions
 
   feature?: string
 }
@@ -98,7 +162,14 @@ export type ClientParams = {
 /**
  * @private
  */
-export function createCMAHttpClient(params: ClientParams) {
+export type CMAHttpClient = AxiosInstance & {
+  requestQueue: RequestQueue
+}
+
+/**
+ * @private
+ */
+export function createCMAHttpClient(params: ClientParams): CMAHttpClient {
   const defaultParameters = {
     defaultHostname: 'api.contentful.com',
     defaultHostnameUpload: 'upload.contentful.com',
@@ -117,6 +188,9 @@ export function createCMAHttpClient(params: ClientParams) {
     'X-Contentful-User-Agent': userAgentHeader,
   }
 
+  // these are used as they are passed, e.g. a cache store can hold state or a connection
+  const { adapter: adapterOption, cache, middleware, recorder } = params
+
   params = {
     ...defaultParameters,
     ...cloneDeep(params),
@@ -131,5 +205,57 @@ export function createCMAHttpClient(params: ClientParams) {
     ...requiredHeaders,
   }
 
-  return createHttpClient(axios, params)
+  if (typeof params.accessToken === 'function') {
+    // the real token is only added right before the request is sent
+    params.headers.Authorization = 'Bearer'
+  }
+
+  const redactor = createRedactor(
+    params.redaction,
+    typeof params.accessToken === 'string' ? [params.accessToken] : []
+  )
+  const { logHandler, requestLogger, responseLogger } = params
+  if (logHandler) {
+    params.logHandler = (level, data) => {
+      if (typeof data === 'string') {
+        logHandler(level, redactor.redactText(data))
+        return
+      }
+      if (data instanceof Error) {
+        data.message = redactor.redactText(data.message)
+      }
+      logHandler(level, data)
+    }
+  }
+  if (requestLogger) {
+    params.requestLogger = (config) => requestLogger(redactor.redactConfig(config))
+  }
+  if (responseLogger) {
+    params.responseLogger = (response) => responseLogger(redactor.redactResponse(response))
+  }
+
+  // the adapter is passed on to every scoped client, so they all share one queue and pipeline
+  const requestQueue = createRequestQueue(params.requestQueue)
+  let transport = resolveAdapter(adapterOption)
+  if (recorder) {
+    transport = createRecordingAdapter(recorder, transport)
+  }
+  transport = createRedactionAdapter(redactor, transport)
+  let adapter = createQueuedAdapter(requestQueue, createAbortableAdapter(transport))
+  if (cache) {
+    adapter = createCachingAdapter(cache === true ? {} : cache, adapter)
+  }
+  if (params.dedupe !== false) {
+    adapter = createDeduplicatingAdapter(adapter)
+  }
+  if (typeof params.accessToken === 'function') {
+    adapter = createAccessTokenAdapter(params.accessToken, adapter)
+  }
+
+  const http = createHttpClient(axios, {
+    ...params,
+    adapter: composeMiddleware(middleware || [], adapter),
+  })
+
+  return Object.assign(http, { requestQueue })
 }
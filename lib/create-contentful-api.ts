@@ -2,11 +2,14 @@ import { AxiosInstance, AxiosRequestConfig } from 'axios'
 import { createRequestConfig } from 'contentful-sdk-core'
 import errorHandler from './error-handler'
 import entities from './entities'
-import { CollectionProp, Collection, QueryOptions } from './common-types'
+import { CollectionProp, Collection, QueryOptions, RequestOptions } from './common-types'
+import { withRequestOptions } from './common-utils'
 import { OrganizationProp, Organization } from './entities/organization'
 import { SpaceProps, Space } from './entities/space'
 import { CreatePersonalAccessTokenProps } from './entities/personal-access-token'
 import { UsageQuery, UsageProps } from './entities/usage'
+import { CMAHttpClient } from './create-cma-http-client'
+import { RequestQueueStats } from './request-queue'
 
 export type ClientAPI = ReturnType<typeof createClientApi>
 
@@ -37,10 +40,11 @@ export default function createClientApi({ http }: { http: AxiosInstance }) {
      * ```
      */
     getSpaces: function getSpaces(
-      query: QueryOptions = {}
+      query: QueryOptions = {},
+      options?: RequestOptions
     ): Promise<Collection<Space, SpaceProps>> {
       return http
-        .get('', createRequestConfig({ query: query }))
+        .get('', withRequestOptions(options, createRequestConfig({ query: query })))
         .then((response) => wrapSpaceCollection(http, response.data), errorHandler)
     },
     /**
@@ -59,8 +63,10 @@ export default function createClientApi({ http }: { http: AxiosInstance }) {
      * .catch(console.error)
      * ```
      */
-    getSpace: function getSpace(id: string): Promise<Space> {
-      return http.get(id).then((response) => wrapSpace(http, response.data), errorHandler)
+    getSpace: function getSpace(id: string, options?: RequestOptions): Promise<Space> {
+      return http
+        .get(id, withRequestOptions(options))
+        .then((response) => wrapSpace(http, response.data), errorHandler)
     },
     /**
      * Creates a space
@@ -83,12 +89,17 @@ export default function createClientApi({ http }: { http: AxiosInstance }) {
      */
     createSpace: function createSpace(
       data: Omit<SpaceProps, 'sys'>,
-      organizationId: string
+      organizationId: string,
+      options?: RequestOptions
     ): Promise<Space> {
       return http
-        .post('', data, {
-          headers: organizationId ? { 'X-Contentful-Organization': organizationId } : {},
-        })
+        .post(
+          '',
+          data,
+          withRequestOptions(options, {
+            headers: organizationId ? { 'X-Contentful-Organization': organizationId } : {},
+          })
+        )
         .then((response) => wrapSpace(http, response.data), errorHandler)
     },
     /**
@@ -107,10 +118,13 @@ export default function createClientApi({ http }: { http: AxiosInstance }) {
      * .catch(console.error)
      * ```
      */
-    getOrganization: function getOrganization(id: string): Promise<Organization> {
+    getOrganization: function getOrganization(
+      id: string,
+      options?: RequestOptions
+    ): Promise<Organization> {
       const baseURL = http.defaults?.baseURL?.replace('/spaces/', '/organizations/')
       return http
-        .get<CollectionProp<OrganizationProp>>('', { baseURL })
+        .get<CollectionProp<OrganizationProp>>('', withRequestOptions(options, { baseURL }))
         .then((response) => {
           const org = response.data.items.find((org) => org.sys.id === id)
           if (!org) {
@@ -143,12 +157,12 @@ export default function createClientApi({ http }: { http: AxiosInstance }) {
      * .catch(console.error)
      * ```
      */
-    getOrganizations: function getOrganizations(): Promise<
-      Collection<Organization, OrganizationProp>
-    > {
+    getOrganizations: function getOrganizations(
+      options?: RequestOptions
+    ): Promise<Collection<Organization, OrganizationProp>> {
       const baseURL = http.defaults?.baseURL?.replace('/spaces/', '/organizations/')
       return http
-        .get('', { baseURL })
+        .get('', withRequestOptions(options, { baseURL }))
         .then((response) => wrapOrganizationCollection(http, response.data), errorHandler)
     },
     /**
@@ -166,12 +180,15 @@ export default function createClientApi({ http }: { http: AxiosInstance }) {
      * .catch(console.error)
      * ```
      */
-    getCurrentUser: function getCurrentUser() {
+    getCurrentUser: function getCurrentUser(options?: RequestOptions) {
       const baseURL = http.defaults?.baseURL?.replace('/spaces/', '/users/me/')
       return http
-        .get('', {
-          baseURL,
-        })
+        .get(
+          '',
+          withRequestOptions(options, {
+            baseURL,
+          })
+        )
         .then((response) => wrapUser(http, response.data), errorHandler)
     },
     /**
@@ -198,13 +215,18 @@ export default function createClientApi({ http }: { http: AxiosInstance }) {
      * ```
      */
     createPersonalAccessToken: function createPersonalAccessToken(
-      data: CreatePersonalAccessTokenProps
+      data: CreatePersonalAccessTokenProps,
+      options?: RequestOptions
     ) {
       const baseURL = http.defaults?.baseURL?.replace('/spaces/', '/users/me/access_tokens')
       return http
-        .post('', data, {
-          baseURL,
-        })
+        .post(
+          '',
+          data,
+          withRequestOptions(options, {
+            baseURL,
+          })
+        )
         .then((response) => wrapPersonalAccessToken(http, response.data), errorHandler)
     },
     /**
@@ -223,12 +245,18 @@ export default function createClientApi({ http }: { http: AxiosInstance }) {
      * .catch(console.error)
      * ```
      */
-    getPersonalAccessToken: function getPersonalAccessToken(tokenId: string) {
+    getPersonalAccessToken: function getPersonalAccessToken(
+      tokenId: string,
+      options?: RequestOptions
+    ) {
       const baseURL = http.defaults?.baseURL?.replace('/spaces/', '/users/me/access_tokens')
       return http
-        .get(tokenId, {
-          baseURL,
-        })
+        .get(
+          tokenId,
+          withRequestOptions(options, {
+            baseURL,
+          })
+        )
         .then((response) => wrapPersonalAccessToken(http, response.data), errorHandler)
     },
     /**
@@ -246,12 +274,15 @@ export default function createClientApi({ http }: { http: AxiosInstance }) {
      * .catch(console.error)
      * ```
      */
-    getPersonalAccessTokens: function getPersonalAccessTokens() {
+    getPersonalAccessTokens: function getPersonalAccessTokens(options?: RequestOptions) {
       const baseURL = http.defaults?.baseURL?.replace('/spaces/', '/users/me/access_tokens')
       return http
-        .get('', {
-          baseURL,
-        })
+        .get(
+          '',
+          withRequestOptions(options, {
+            baseURL,
+          })
+        )
         .then((response) => wrapPersonalAccessTokenCollection(http, response.data), errorHandler)
     },
     /**
@@ -280,14 +311,15 @@ export default function createClientApi({ http }: { http: AxiosInstance }) {
      */
     getOrganizationUsage: function getOrganizationUsage(
       organizationId: string,
-      query: QueryOptions = {}
+      query: QueryOptions = {},
+      options?: RequestOptions
     ) {
       const baseURL = http.defaults?.baseURL?.replace(
         '/spaces/',
         `/organizations/${organizationId}/organization_periodic_usages`
       )
       return http
-        .get('', { baseURL, params: query })
+        .get('', withRequestOptions(options, { baseURL, params: query }))
         .then((response) => wrapUsageCollection(http, response.data), errorHandler)
     },
     /**
@@ -315,15 +347,41 @@ export default function createClientApi({ http }: { http: AxiosInstance }) {
      * .catch(console.error)
      * ```
      */
-    getSpaceUsage: function getSpaceUsage(organizationId: string, query: UsageQuery = {}) {
+    getSpaceUsage: function getSpaceUsage(
+      organizationId: string,
+      query: UsageQuery = {},
+      options?: RequestOptions
+    ) {
       const baseURL = http.defaults?.baseURL?.replace(
         '/spaces/',
         `/organizations/${organizationId}/space_periodic_usages`
       )
       return http
-        .get<CollectionProp<UsageProps>>('', { baseURL, params: query })
+        .get<CollectionProp<UsageProps>>(
+          '',
+          withRequestOptions(options, { baseURL, params: query })
+        )
         .then((response) => wrapUsageCollection(http, response.data), errorHandler)
     },
+    /**
+     * Gets statistics of the request queue, which is shared by this client and all
+     * spaces, environments and organizations retrieved through it
+     * @return Number of queued and active requests and how long requests waited
+     * ```javascript
+     * const contentful = require('contentful-management')
+     *
+     * const client = contentful.createClient({
+     *   accessToken: '<content_management_api_key>',
+     *   requestQueue: { concurrency: 5, requestsPerSecond: 7 }
+     * })
+     *
+     * const stats = client.getRequestQueueStats()
+     * console.log(`${stats.queued} requests waiting, ${stats.averageWaitTime} ms on average`)
+     * ```
+     */
+    getRequestQueueStats: function getRequestQueueStats(): RequestQueueStats {
+      return (http as CMAHttpClient).requestQueue.getStats()
+    },
     /**
      * Make a custom request to the Contentful management API's /spaces endpoint
      * @param opts - axios request options (https://github.com/mzabriskie/axios)
@@ -343,8 +401,8 @@ export default function createClientApi({ http }: { http: AxiosInstance }) {
      * .catch(console.error)
      * ```
      */
-    rawRequest: function rawRequest(opts: AxiosRequestConfig) {
-      return http(opts).then((response) => response.data, errorHandler)
+    rawRequest: function rawRequest(opts: AxiosRequestConfig, options?: RequestOptions) {
+      return http(withRequestOptions(options, opts)).then((response) => response.data, errorHandler)
     },
   }
 }
@@ -2,12 +2,18 @@ import { AxiosInstance } from 'axios'
 import { createRequestConfig } from 'contentful-sdk-core'
 import cloneDeep from 'lodash/cloneDeep'
 import { Stream } from 'stream'
-import { BasicQueryOptions, QueryOptions } from './common-types'
+import { BasicQueryOptions, QueryOptions, RequestOptions } from './common-types'
+import { normalizeSelect, withRequestOptions } from './common-utils'
+import { paginate, PaginationOptions } from './paginate'
+import { PatchOperation } from './json-patch'
+import { cacheContentType, cacheLocales, clearContentType, clearLocales } from './localization'
+import { createAdaptiveFetch } from './adaptive-page-size'
+import { EntryCollectionResult, GetEntriesOptions, resolveEntryCollection } from './link-resolution'
 import entities from './entities'
 import { AppInstallationProps } from './entities/app-installation'
 import { AssetFileProp, AssetProps } from './entities/asset'
 
-import { ContentType, CreateContentTypeProps } from './entities/content-type'
+import { ContentType, ContentTypeProps, CreateContentTypeProps } from './entities/content-type'
 import { Entry, EntryProp } from './entities/entry'
 import { CreateLocaleProps } from './entities/locale'
 import { wrapTag, wrapTagCollection } from './entities/tag'
@@ -36,39 +42,101 @@ export default function createEnvironmentApi({
   const { wrapUpload } = entities.upload
   const { wrapUiExtension, wrapUiExtensionCollection } = entities.uiExtension
   const { wrapAppInstallation, wrapAppInstallationCollection } = entities.appInstallation
+  const fetchAdaptively = createAdaptiveFetch()
 
-  function createAsset(data: Omit<AssetProps, 'sys'>) {
+  function createAsset(data: Omit<AssetProps, 'sys'>, options?: RequestOptions) {
     return http
-      .post('assets', data)
+      .post('assets', data, withRequestOptions(options))
       .then((response) => wrapAsset(http, response.data), errorHandler)
   }
 
-  function createUpload(data: { file: string | ArrayBuffer | Stream }) {
+  function createUpload(data: { file: string | ArrayBuffer | Stream }, options?: RequestOptions) {
     const { file } = data
     if (!file) {
       return Promise.reject(new Error('Unable to locate a file to upload.'))
     }
     return httpUpload
-      .post('uploads', file, {
-        headers: {
-          'Content-Type': 'application/octet-stream',
-        },
-      })
+      .post(
+        'uploads',
+        file,
+        withRequestOptions(options, {
+          headers: {
+            'Content-Type': 'application/octet-stream',
+          },
+        })
+      )
       .then((uploadResponse) => {
         return wrapUpload(httpUpload, uploadResponse.data)
       })
       .catch(errorHandler)
   }
 
-  /**
-   * @private
-   * sdk relies heavily on sys metadata
-   * so we cannot omit the sys property on sdk level
-   */
-  function normalizeSelect(query: QueryOptions) {
-    if (query.select && !/sys/i.test(query.select)) {
-      query.select += ',sys'
-    }
+  function patchEntity(
+    path: string,
+    operations: PatchOperation[],
+    version: number,
+    options?: RequestOptions
+  ) {
+    return http.patch(
+      path,
+      operations,
+      withRequestOptions(options, {
+        headers: {
+          'X-Contentful-Version': version,
+          'Content-Type': 'application/json-patch+json',
+        },
+      })
+    )
+  }
+
+  function getContentTypes(query: QueryOptions = {}, options?: RequestOptions) {
+    return fetchAdaptively<ContentTypeProps, QueryOptions>(
+      (pageQuery) =>
+        http
+          .get(
+            'content_types',
+            withRequestOptions(options, createRequestConfig({ query: pageQuery }))
+          )
+          .then((response) => response.data, errorHandler),
+      query
+    ).then((data) => wrapContentTypeCollection(http, data))
+  }
+
+  function getEntries<O extends GetEntriesOptions = GetEntriesOptions>(
+    query: QueryOptions = {},
+    options?: O
+  ): Promise<EntryCollectionResult<O>> {
+    normalizeSelect(query)
+    return fetchAdaptively<EntryProp, QueryOptions>(
+      (pageQuery) =>
+        http
+          .get('entries', withRequestOptions(options, createRequestConfig({ query: pageQuery })))
+          .then((response) => response.data, errorHandler),
+      query
+    ).then((data) => {
+      const collection =
+        options && options.resolveLinks
+          ? resolveEntryCollection(http, data)
+          : wrapEntryCollection(http, data)
+      return collection as EntryCollectionResult<O>
+    })
+  }
+
+  function getAssets(query: QueryOptions = {}, options?: RequestOptions) {
+    normalizeSelect(query)
+    return fetchAdaptively<AssetProps, QueryOptions>(
+      (pageQuery) =>
+        http
+          .get('assets', withRequestOptions(options, createRequestConfig({ query: pageQuery })))
+          .then((response) => response.data, errorHandler),
+      query
+    ).then((data) => wrapAssetCollection(http, data))
+  }
+
+  function getTags(query: BasicQueryOptions = {}, options?: RequestOptions) {
+    return http
+      .get('tags', withRequestOptions(options, createRequestConfig({ query })))
+      .then((response) => wrapTagCollection(http, response.data), errorHandler)
   }
 
   return {
@@ -89,8 +157,8 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    delete: function deleteEnvironment() {
-      return http.delete('').then(() => {
+    delete: function deleteEnvironment(options?: RequestOptions) {
+      return http.delete('', withRequestOptions(options)).then(() => {
         // noop
       }, errorHandler)
     },
@@ -114,16 +182,20 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    update: function updateEnvironment() {
+    update: function updateEnvironment(options?: RequestOptions) {
       const raw = this.toPlainObject()
       const data = cloneDeep(raw)
       delete data.sys
       return http
-        .put('', data, {
-          headers: {
-            'X-Contentful-Version': raw.sys.version,
-          },
-        })
+        .put(
+          '',
+          data,
+          withRequestOptions(options, {
+            headers: {
+              'X-Contentful-Version': raw.sys.version,
+            },
+          })
+        )
         .then((response) => wrapEnvironment(http, response.data), errorHandler)
     },
 
@@ -212,10 +284,12 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    getContentType(id: string) {
-      return http
-        .get('content_types/' + id)
-        .then((response) => wrapContentType(http, response.data), errorHandler)
+    getContentType(id: string, options?: RequestOptions) {
+      return http.get('content_types/' + id, withRequestOptions(options)).then((response) => {
+        const contentType = wrapContentType(http, response.data)
+        cacheContentType(http, cloneDeep(contentType))
+        return contentType
+      }, errorHandler)
     },
 
     /**
@@ -236,10 +310,19 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    getContentTypes(query: QueryOptions = {}) {
-      return http
-        .get('content_types', createRequestConfig({ query: query }))
-        .then((response) => wrapContentTypeCollection(http, response.data), errorHandler)
+    getContentTypes: getContentTypes,
+
+    /**
+     * Gets all Content Types page by page, see `getContentTypes` for the query
+     * @param query - Object with search parameters, `skip` is the first item to get
+     * @param options - Page size and number of pages requested at the same time
+     * @return Async iterable of all Content Types, `collectAll()` resolves with all of them
+     * @example ```javascript
+     * const contentTypes = await environment.getContentTypesAll().collectAll()
+     * ```
+     */
+    getContentTypesAll(query: QueryOptions = {}, options?: PaginationOptions) {
+      return paginate((pageQuery) => getContentTypes(pageQuery, options), query, options)
     },
     /**
      * Creates a Content Type
@@ -270,9 +353,9 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    createContentType(data: CreateContentTypeProps) {
+    createContentType(data: CreateContentTypeProps, options?: RequestOptions) {
       return http
-        .post('content_types', data)
+        .post('content_types', data, withRequestOptions(options))
         .then((response) => wrapContentType(http, response.data), errorHandler)
     },
     /**
@@ -305,10 +388,11 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    createContentTypeWithId(id: string, data: CreateContentTypeProps) {
-      return http
-        .put('content_types/' + id, data)
-        .then((response) => wrapContentType(http, response.data), errorHandler)
+    createContentTypeWithId(id: string, data: CreateContentTypeProps, options?: RequestOptions) {
+      return http.put('content_types/' + id, data, withRequestOptions(options)).then((response) => {
+        clearContentType(http, id)
+        return wrapContentType(http, response.data)
+      }, errorHandler)
     },
 
     /**
@@ -329,9 +413,9 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    getEditorInterfaceForContentType(contentTypeId: string) {
+    getEditorInterfaceForContentType(contentTypeId: string, options?: RequestOptions) {
       return http
-        .get('content_types/' + contentTypeId + '/editor_interface')
+        .get('content_types/' + contentTypeId + '/editor_interface', withRequestOptions(options))
         .then((response) => wrapEditorInterface(http, response.data), errorHandler)
     },
 
@@ -356,10 +440,10 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    getEntry(id: string, query: QueryOptions = {}) {
+    getEntry(id: string, query: QueryOptions = {}, options?: RequestOptions) {
       normalizeSelect(query)
       return http
-        .get('entries/' + id, createRequestConfig({ query: query }))
+        .get('entries/' + id, withRequestOptions(options, createRequestConfig({ query: query })))
         .then((response) => wrapEntry(http, response.data), errorHandler)
     },
 
@@ -367,7 +451,11 @@ export default function createEnvironmentApi({
      * Gets a collection of Entries
      * Warning: if you are using the select operator, when saving, any field that was not selected will be removed
      * from your entry in the backend
+     * When the response would exceed the size limit of the API, the page is requested in smaller parts.
      * @param query - Object with search parameters. Check the <a href="https://www.contentful.com/developers/docs/javascript/tutorials/using-js-cda-sdk/#retrieving-entries-with-search-parameters">JS SDK tutorial</a> and the <a href="https://www.contentful.com/developers/docs/references/content-delivery-api/#/reference/search-parameters">REST API reference</a> for more details.
+     * @param options - Request options and `resolveLinks`. With `resolveLinks`, the links in
+     * the fields are replaced with the linked entries and assets of the response, links which
+     * are not part of it are listed in `unresolvedLinks`.
      * @return Promise for a collection of Entries
      * @example ```javascript
      * const contentful = require('contentful-management')
@@ -381,13 +469,27 @@ export default function createEnvironmentApi({
      * .then((environment) => environment.getEntries({'content_type': 'foo'})) // you can add more queries as 'key': 'value'
      * .then((response) => console.log(response.items))
      * .catch(console.error)
+     *
+     * // with the linked entries and assets in place of the links
+     * environment.getEntries({ content_type: 'blogPost', include: 2 }, { resolveLinks: true })
+     * .then((response) => console.log(response.items[0].fields.author['en-US'].fields.name))
      * ```
      */
-    getEntries(query: QueryOptions = {}) {
-      normalizeSelect(query)
-      return http
-        .get('entries', createRequestConfig({ query: query }))
-        .then((response) => wrapEntryCollection(http, response.data), errorHandler)
+    getEntries: getEntries,
+
+    /**
+     * Gets all Entries page by page, see `getEntries` for the query
+     * @param query - Object with search parameters, `skip` is the first item to get
+     * @param options - Page size and number of pages requested at the same time
+     * @return Async iterable of all Entries, `collectAll()` resolves with all of them
+     * @example ```javascript
+     * for await (const entry of environment.getEntriesAll({ content_type: 'blogPost' }, { pageSize: 500 })) {
+     *   console.log(entry.sys.id)
+     * }
+     * ```
+     */
+    getEntriesAll(query: QueryOptions = {}, options?: PaginationOptions) {
+      return paginate((pageQuery) => getEntries(pageQuery, options), query, options)
     },
 
     /**
@@ -415,13 +517,17 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    createEntry(contentTypeId: string, data: Omit<EntryProp, 'sys'>) {
+    createEntry(contentTypeId: string, data: Omit<EntryProp, 'sys'>, options?: RequestOptions) {
       return http
-        .post('entries', data, {
-          headers: {
-            'X-Contentful-Content-Type': contentTypeId,
-          },
-        })
+        .post(
+          'entries',
+          data,
+          withRequestOptions(options, {
+            headers: {
+              'X-Contentful-Content-Type': contentTypeId,
+            },
+          })
+        )
         .then((response) => wrapEntry(http, response.data), errorHandler)
     },
 
@@ -452,16 +558,59 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    createEntryWithId(contentTypeId: string, id: string, data: Omit<EntryProp, 'sys'>) {
+    createEntryWithId(
+      contentTypeId: string,
+      id: string,
+      data: Omit<EntryProp, 'sys'>,
+      options?: RequestOptions
+    ) {
       return http
-        .put('entries/' + id, data, {
-          headers: {
-            'X-Contentful-Content-Type': contentTypeId,
-          },
-        })
+        .put(
+          'entries/' + id,
+          data,
+          withRequestOptions(options, {
+            headers: {
+              'X-Contentful-Content-Type': contentTypeId,
+            },
+          })
+        )
         .then((response) => wrapEntry(http, response.data), errorHandler)
     },
 
+    /**
+     * Applies JSON Patch (RFC 6902) operations to an entry without fetching it first
+     * @param id - Entry ID
+     * @param operations - Operations with paths like `/fields/title/en-US`, `createPatch` computes them
+     * @param version - Current `sys.version` of the entry, the patch fails with a `VersionMismatchError` when it is outdated
+     * @return Promise for the patched Entry
+     * @example ```javascript
+     * const contentful = require('contentful-management')
+     *
+     * const client = contentful.createClient({
+     *   accessToken: '<content_management_api_key>'
+     * })
+     *
+     * client.getSpace('<space_id>')
+     * .then((space) => space.getEnvironment('<environment-id>'))
+     * .then((environment) => environment.patchEntry('<entry_id>', [
+     *   { op: 'add', path: '/fields/title/de-DE', value: 'Titel' }
+     * ], 3))
+     * .then((entry) => console.log(entry))
+     * .catch(console.error)
+     * ```
+     */
+    patchEntry(
+      id: string,
+      operations: PatchOperation[],
+      version: number,
+      options?: RequestOptions
+    ) {
+      return patchEntity('entries/' + id, operations, version, options).then(
+        (response) => wrapEntry(http, response.data),
+        errorHandler
+      )
+    },
+
     /**
      * Gets an Asset
      * Warning: if you are using the select operator, when saving, any field that was not selected will be removed
@@ -483,10 +632,10 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    getAsset(id: string, query: QueryOptions = {}) {
+    getAsset(id: string, query: QueryOptions = {}, options?: RequestOptions) {
       normalizeSelect(query)
       return http
-        .get('assets/' + id, createRequestConfig({ query: query }))
+        .get('assets/' + id, withRequestOptions(options, createRequestConfig({ query: query })))
         .then((response) => wrapAsset(http, response.data), errorHandler)
     },
 
@@ -510,11 +659,21 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    getAssets(query: QueryOptions = {}) {
-      normalizeSelect(query)
-      return http
-        .get('assets', createRequestConfig({ query: query }))
-        .then((response) => wrapAssetCollection(http, response.data), errorHandler)
+    getAssets: getAssets,
+
+    /**
+     * Gets all Assets page by page, see `getAssets` for the query
+     * @param query - Object with search parameters, `skip` is the first item to get
+     * @param options - Page size and number of pages requested at the same time
+     * @return Async iterable of all Assets, `collectAll()` resolves with all of them
+     * @example ```javascript
+     * for await (const asset of environment.getAssetsAll({}, { concurrency: 3 })) {
+     *   console.log(asset.fields.title)
+     * }
+     * ```
+     */
+    getAssetsAll(query: QueryOptions = {}, options?: PaginationOptions) {
+      return paginate((pageQuery) => getAssets(pageQuery, options), query, options)
     },
     /**
      * Creates a Asset. After creation, call asset.processForLocale or asset.processForAllLocales to start asset processing.
@@ -578,11 +737,36 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    createAssetWithId(id: string, data: Omit<AssetProps, 'sys'>) {
+    createAssetWithId(id: string, data: Omit<AssetProps, 'sys'>, options?: RequestOptions) {
       return http
-        .put('assets/' + id, data)
+        .put('assets/' + id, data, withRequestOptions(options))
         .then((response) => wrapAsset(http, response.data), errorHandler)
     },
+    /**
+     * Applies JSON Patch (RFC 6902) operations to an asset without fetching it first
+     * @param id - Asset ID
+     * @param operations - Operations with paths like `/fields/title/en-US`, `createPatch` computes them
+     * @param version - Current `sys.version` of the asset, the patch fails with a `VersionMismatchError` when it is outdated
+     * @return Promise for the patched Asset
+     * @example ```javascript
+     * environment.patchAsset('<asset_id>', [
+     *   { op: 'replace', path: '/fields/description/en-US', value: 'A toy car' }
+     * ], 3)
+     * .then((asset) => console.log(asset))
+     * .catch(console.error)
+     * ```
+     */
+    patchAsset(
+      id: string,
+      operations: PatchOperation[],
+      version: number,
+      options?: RequestOptions
+    ) {
+      return patchEntity('assets/' + id, operations, version, options).then(
+        (response) => wrapAsset(http, response.data),
+        errorHandler
+      )
+    },
     /**
      * Creates a Asset based on files. After creation, call asset.processForLocale or asset.processForAllLocales to start asset processing.
      * @param data - Object representation of the Asset to be created. Note that the field object should have an uploadFrom property on asset creation, which will be removed and replaced with an url property when processing is finished.
@@ -615,12 +799,12 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    createAssetFromFiles(data: Omit<AssetFileProp, 'sys'>) {
+    createAssetFromFiles(data: Omit<AssetFileProp, 'sys'>, options?: RequestOptions) {
       const { file } = data.fields
       return Promise.all(
         Object.keys(file).map((locale) => {
           const { contentType, fileName } = file[locale]
-          return createUpload(file[locale]).then((upload) => {
+          return createUpload(file[locale], options).then((upload) => {
             return {
               [locale]: {
                 contentType,
@@ -646,7 +830,7 @@ export default function createEnvironmentApi({
               file,
             },
           }
-          return createAsset(asset)
+          return createAsset(asset, options)
         })
         .catch(errorHandler)
     },
@@ -666,9 +850,9 @@ export default function createEnvironmentApi({
      * .then((upload) => console.log(upload))
      * .catch(console.error)
      */
-    getUpload(id: string) {
+    getUpload(id: string, options?: RequestOptions) {
       return httpUpload
-        .get('uploads/' + id)
+        .get('uploads/' + id, withRequestOptions(options))
         .then((response) => wrapUpload(http, response.data))
         .catch(errorHandler)
     },
@@ -710,9 +894,9 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    getLocale(id: string) {
+    getLocale(id: string, options?: RequestOptions) {
       return http
-        .get('locales/' + id)
+        .get('locales/' + id, withRequestOptions(options))
         .then((response) => wrapLocale(http, response.data), errorHandler)
     },
 
@@ -733,10 +917,13 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    getLocales() {
-      return http
-        .get('locales')
-        .then((response) => wrapLocaleCollection(http, response.data), errorHandler)
+    getLocales(options?: RequestOptions) {
+      return http.get('locales', withRequestOptions(options)).then((response) => {
+        const locales = wrapLocaleCollection(http, response.data)
+        // entries use the locales for their locale fallbacks
+        cacheLocales(http, cloneDeep(locales.items))
+        return locales
+      }, errorHandler)
     },
     /**
      * Creates a Locale
@@ -762,10 +949,11 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    createLocale(data: CreateLocaleProps) {
-      return http
-        .post('locales', data)
-        .then((response) => wrapLocale(http, response.data), errorHandler)
+    createLocale(data: CreateLocaleProps, options?: RequestOptions) {
+      return http.post('locales', data, withRequestOptions(options)).then((response) => {
+        clearLocales(http)
+        return wrapLocale(http, response.data)
+      }, errorHandler)
     },
     /**
      * Gets an UI Extension
@@ -785,9 +973,9 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    getUiExtension(id: string) {
+    getUiExtension(id: string, options?: RequestOptions) {
       return http
-        .get('extensions/' + id)
+        .get('extensions/' + id, withRequestOptions(options))
         .then((response) => wrapUiExtension(http, response.data), errorHandler)
     },
     /**
@@ -807,9 +995,9 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    getUiExtensions() {
+    getUiExtensions(options?: RequestOptions) {
       return http
-        .get('extensions')
+        .get('extensions', withRequestOptions(options))
         .then((response) => wrapUiExtensionCollection(http, response.data), errorHandler)
     },
     /**
@@ -844,9 +1032,9 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    createUiExtension(data: Omit<UIExtensionProps, 'sys'>) {
+    createUiExtension(data: Omit<UIExtensionProps, 'sys'>, options?: RequestOptions) {
       return http
-        .post('extensions', data)
+        .post('extensions', data, withRequestOptions(options))
         .then((response) => wrapUiExtension(http, response.data), errorHandler)
     },
     /**
@@ -882,9 +1070,13 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    createUiExtensionWithId(id: string, data: Omit<UIExtensionProps, 'sys'>) {
+    createUiExtensionWithId(
+      id: string,
+      data: Omit<UIExtensionProps, 'sys'>,
+      options?: RequestOptions
+    ) {
       return http
-        .put('extensions/' + id, data)
+        .put('extensions/' + id, data, withRequestOptions(options))
         .then((response) => wrapUiExtension(http, response.data), errorHandler)
     },
 
@@ -911,9 +1103,13 @@ export default function createEnvironmentApi({
      *  .catch(console.error)
      *  ```
      */
-    createAppInstallation(appDefinitionId: string, data: Omit<AppInstallationProps, 'sys'>) {
+    createAppInstallation(
+      appDefinitionId: string,
+      data: Omit<AppInstallationProps, 'sys'>,
+      options?: RequestOptions
+    ) {
       return http
-        .put('app_installations/' + appDefinitionId, data)
+        .put('app_installations/' + appDefinitionId, data, withRequestOptions(options))
         .then((response) => wrapAppInstallation(http, response.data), errorHandler)
     },
     /**
@@ -934,9 +1130,9 @@ export default function createEnvironmentApi({
      *  .catch(console.error)
      *  ```
      */
-    getAppInstallation(id: string) {
+    getAppInstallation(id: string, options?: RequestOptions) {
       return http
-        .get('app_installations/' + id)
+        .get('app_installations/' + id, withRequestOptions(options))
         .then((response) => wrapAppInstallation(http, response.data), errorHandler)
     },
     /**
@@ -956,9 +1152,9 @@ export default function createEnvironmentApi({
      *  .catch(console.error)
      *  ```
      */
-    getAppInstallations() {
+    getAppInstallations(options?: RequestOptions) {
       return http
-        .get('app_installations')
+        .get('app_installations', withRequestOptions(options))
         .then((response) => wrapAppInstallationCollection(http, response.data), errorHandler)
     },
     /**
@@ -981,9 +1177,12 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    getEntrySnapshots(entryId: string, query: QueryOptions = {}) {
+    getEntrySnapshots(entryId: string, query: QueryOptions = {}, options?: RequestOptions) {
       return http
-        .get(`entries/${entryId}/snapshots`, createRequestConfig({ query: query }))
+        .get(
+          `entries/${entryId}/snapshots`,
+          withRequestOptions(options, createRequestConfig({ query: query }))
+        )
         .then((response) => wrapSnapshotCollection<Entry>(http, response.data), errorHandler)
     },
     /**
@@ -1006,30 +1205,52 @@ export default function createEnvironmentApi({
      * .catch(console.error)
      * ```
      */
-    getContentTypeSnapshots(contentTypeId: string, query: QueryOptions = {}) {
+    getContentTypeSnapshots(
+      contentTypeId: string,
+      query: QueryOptions = {},
+      options?: RequestOptions
+    ) {
       return http
-        .get(`content_types/${contentTypeId}/snapshots`, createRequestConfig({ query: query }))
+        .get(
+          `content_types/${contentTypeId}/snapshots`,
+          withRequestOptions(options, createRequestConfig({ query: query }))
+        )
         .then((response) => wrapSnapshotCollection<ContentType>(http, response.data), errorHandler)
     },
 
-    createTag(id: string, name: string) {
+    createTag(id: string, name: string, options?: RequestOptions) {
       return http
-        .put(`tags/${id}`, {
-          name,
-          sys: {
-            type: 'Tag',
-            id,
+        .put(
+          `tags/${id}`,
+          {
+            name,
+            sys: {
+              type: 'Tag',
+              id,
+            },
           },
-        })
+          withRequestOptions(options)
+        )
         .then((response) => wrapTag(http, response.data), errorHandler)
     },
-    getTags(query: BasicQueryOptions = {}) {
-      return http
-        .get('tags', createRequestConfig({ query }))
-        .then((response) => wrapTagCollection(http, response.data), errorHandler)
+    getTags: getTags,
+
+    /**
+     * Gets all Tags page by page, see `getTags` for the query
+     * @param query - Object with search parameters, `skip` is the first item to get
+     * @param options - Page size and number of pages requested at the same time
+     * @return Async iterable of all Tags, `collectAll()` resolves with all of them
+     * @example ```javascript
+     * const tags = await environment.getTagsAll().collectAll()
+     * ```
+     */
+    getTagsAll(query: BasicQueryOptions = {}, options?: PaginationOptions) {
+      return paginate((pageQuery) => getTags(pageQuery, options), query, options)
     },
-    getTag(id: string) {
-      return http.get('tags/' + id).then((response) => wrapTag(http, response.data), errorHandler)
+    getTag(id: string, options?: RequestOptions) {
+      return http
+        .get('tags/' + id, withRequestOptions(options))
+        .then((response) => wrapTag(http, response.data), errorHandler)
     },
   }
 }
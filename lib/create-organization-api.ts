@@ -6,7 +6,9 @@ import entities from './entities'
 import { TeamMembershipProps } from './entities/team-membership'
 import { TeamProps } from './entities/team'
 import { OrganizationInvitationProps } from './entities/organization-invitation'
-import { QueryOptions } from './common-types'
+import { QueryOptions, RequestOptions } from './common-types'
+import { withRequestOptions } from './common-utils'
+import { paginate, PaginationOptions } from './paginate'
 import { AppDefinitionProps } from './entities/app-definition'
 
 export type ContentfulOrganizationAPI = ReturnType<typeof createOrganizationApi>
@@ -32,6 +34,18 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
 
   const headers = { 'x-contentful-enable-alpha-feature': 'organization-user-management-api' }
 
+  function getUsers(query: QueryOptions = {}, options?: RequestOptions) {
+    return http
+      .get('users', withRequestOptions(options, createRequestConfig({ query })))
+      .then((response) => wrapUserCollection(http, response.data), errorHandler)
+  }
+
+  function getTeams(query: QueryOptions = {}, options?: RequestOptions) {
+    return http
+      .get('teams', withRequestOptions(options, createRequestConfig({ query })))
+      .then((response) => wrapTeamCollection(http, response.data), errorHandler)
+  }
+
   return {
     /**
      * Gets a User
@@ -48,8 +62,10 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)
      * ```
      */
-    getUser(id: string) {
-      return http.get('users/' + id).then((response) => wrapUser(http, response.data), errorHandler)
+    getUser(id: string, options?: RequestOptions) {
+      return http
+        .get('users/' + id, withRequestOptions(options))
+        .then((response) => wrapUser(http, response.data), errorHandler)
     },
     /**
      * Gets a collection of Users in organization
@@ -67,10 +83,21 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)
      * ```
      */
-    getUsers(query: QueryOptions = {}) {
-      return http
-        .get('users', createRequestConfig({ query }))
-        .then((response) => wrapUserCollection(http, response.data), errorHandler)
+    getUsers: getUsers,
+
+    /**
+     * Gets all Users page by page, see `getUsers` for the query
+     * @param query - Object with search parameters, `skip` is the first item to get
+     * @param options - Page size and number of pages requested at the same time
+     * @return Async iterable of all Users, `collectAll()` resolves with all of them
+     * @example ```javascript
+     * for await (const user of organization.getUsersAll()) {
+     *   console.log(user.email)
+     * }
+     * ```
+     */
+    getUsersAll(query: QueryOptions = {}, options?: PaginationOptions) {
+      return paginate((pageQuery) => getUsers(pageQuery, options), query, options)
     },
     /**
      * Gets an Organization Membership
@@ -88,9 +115,9 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)
      * ```
      */
-    getOrganizationMembership(id: string) {
+    getOrganizationMembership(id: string, options?: RequestOptions) {
       return http
-        .get('organization_memberships/' + id)
+        .get('organization_memberships/' + id, withRequestOptions(options))
         .then((response) => wrapOrganizationMembership(http, response.data), errorHandler)
     },
     /**
@@ -109,9 +136,12 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)
      * ```
      */
-    getOrganizationMemberships(query: QueryOptions = {}) {
+    getOrganizationMemberships(query: QueryOptions = {}, options?: RequestOptions) {
       return http
-        .get('organization_memberships', createRequestConfig({ query }))
+        .get(
+          'organization_memberships',
+          withRequestOptions(options, createRequestConfig({ query }))
+        )
         .then((response) => wrapOrganizationMembershipCollection(http, response.data), errorHandler)
     },
     /**
@@ -132,9 +162,9 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)
      * ```
      */
-    createTeam(data: Omit<TeamProps, 'sys'>) {
+    createTeam(data: Omit<TeamProps, 'sys'>, options?: RequestOptions) {
       return http
-        .post('teams', data)
+        .post('teams', data, withRequestOptions(options))
         .then((response) => wrapTeam(http, response.data), errorHandler)
     },
     /**
@@ -151,9 +181,9 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)
      * ```
      */
-    getTeam(teamId: string) {
+    getTeam(teamId: string, options?: RequestOptions) {
       return http
-        .get('teams/' + teamId)
+        .get('teams/' + teamId, withRequestOptions(options))
         .then((response) => wrapTeam(http, response.data), errorHandler)
     },
     /**
@@ -170,10 +200,19 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)
      * ```
      */
-    getTeams(query: QueryOptions = {}) {
-      return http
-        .get('teams', createRequestConfig({ query }))
-        .then((response) => wrapTeamCollection(http, response.data), errorHandler)
+    getTeams: getTeams,
+
+    /**
+     * Gets all Teams page by page, see `getTeams` for the query
+     * @param query - Object with search parameters, `skip` is the first item to get
+     * @param options - Page size and number of pages requested at the same time
+     * @return Async iterable of all Teams, `collectAll()` resolves with all of them
+     * @example ```javascript
+     * const teams = await organization.getTeamsAll({}, { pageSize: 1000 }).collectAll()
+     * ```
+     */
+    getTeamsAll(query: QueryOptions = {}, options?: PaginationOptions) {
+      return paginate((pageQuery) => getTeams(pageQuery, options), query, options)
     },
     /**
      * Creates a Team membership
@@ -194,9 +233,13 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)
      * ```
      */
-    createTeamMembership(teamId: string, data: Omit<TeamMembershipProps, 'sys'>) {
+    createTeamMembership(
+      teamId: string,
+      data: Omit<TeamMembershipProps, 'sys'>,
+      options?: RequestOptions
+    ) {
       return http
-        .post('teams/' + teamId + '/team_memberships', data)
+        .post('teams/' + teamId + '/team_memberships', data, withRequestOptions(options))
         .then((response) => wrapTeamMembership(http, response.data), errorHandler)
     },
     /**
@@ -214,9 +257,12 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)
      * ```
      */
-    getTeamMembership(teamId: string, teamMembershipId: string) {
+    getTeamMembership(teamId: string, teamMembershipId: string, options?: RequestOptions) {
       return http
-        .get('teams/' + teamId + '/team_memberships/' + teamMembershipId)
+        .get(
+          'teams/' + teamId + '/team_memberships/' + teamMembershipId,
+          withRequestOptions(options)
+        )
         .then((response) => wrapTeamMembership(http, response.data), errorHandler)
     },
     /**
@@ -234,15 +280,21 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)
      * ```
      */
-    getTeamMemberships(opts: { teamId?: string; query?: QueryOptions } = {}) {
+    getTeamMemberships(
+      opts: { teamId?: string; query?: QueryOptions } = {},
+      options?: RequestOptions
+    ) {
       const query = get(opts, 'query', {})
       if (opts.teamId) {
         return http
-          .get('teams/' + opts.teamId + '/team_memberships', createRequestConfig({ query }))
+          .get(
+            'teams/' + opts.teamId + '/team_memberships',
+            withRequestOptions(options, createRequestConfig({ query }))
+          )
           .then((response) => wrapTeamMembershipCollection(http, response.data), errorHandler)
       }
       return http
-        .get('team_memberships', createRequestConfig({ query }))
+        .get('team_memberships', withRequestOptions(options, createRequestConfig({ query })))
         .then((response) => wrapTeamMembershipCollection(http, response.data), errorHandler)
     },
     /**
@@ -260,7 +312,10 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)
      * ```
      */
-    getTeamSpaceMemberships(opts: { teamId?: string; query?: QueryOptions } = {}) {
+    getTeamSpaceMemberships(
+      opts: { teamId?: string; query?: QueryOptions } = {},
+      options?: RequestOptions
+    ) {
       const query = get(opts, 'query', {})
       if (opts.teamId) {
         // eslint-disable-next-line @typescript-eslint/ban-ts-ignore
@@ -268,7 +323,7 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
         query['sys.team.sys.id'] = opts.teamId
       }
       return http
-        .get('team_space_memberships', createRequestConfig({ query }))
+        .get('team_space_memberships', withRequestOptions(options, createRequestConfig({ query })))
         .then((response) => wrapTeamSpaceMembershipCollection(http, response.data), errorHandler)
     },
     /**
@@ -286,9 +341,9 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)]
      * ```
      */
-    getTeamSpaceMembership(teamSpaceMembershipId: string) {
+    getTeamSpaceMembership(teamSpaceMembershipId: string, options?: RequestOptions) {
       return http
-        .get('team_space_memberships/' + teamSpaceMembershipId)
+        .get('team_space_memberships/' + teamSpaceMembershipId, withRequestOptions(options))
         .then((response) => wrapTeamSpaceMembership(http, response.data), errorHandler)
     },
     /**
@@ -307,9 +362,9 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)
      * ```
      */
-    getOrganizationSpaceMembership(id: string) {
+    getOrganizationSpaceMembership(id: string, options?: RequestOptions) {
       return http
-        .get('space_memberships/' + id)
+        .get('space_memberships/' + id, withRequestOptions(options))
         .then((response) => wrapSpaceMembership(http, response.data), errorHandler)
     },
     /**
@@ -328,9 +383,9 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)
      * ```
      */
-    getOrganizationSpaceMemberships(query: QueryOptions = {}) {
+    getOrganizationSpaceMemberships(query: QueryOptions = {}, options?: RequestOptions) {
       return http
-        .get('space_memberships', createRequestConfig({ query }))
+        .get('space_memberships', withRequestOptions(options, createRequestConfig({ query })))
         .then((response) => wrapSpaceMembershipCollection(http, response.data), errorHandler)
     },
     /**
@@ -348,11 +403,14 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)
      * ```
      */
-    getOrganizationInvitation(invitationId: string) {
+    getOrganizationInvitation(invitationId: string, options?: RequestOptions) {
       return http
-        .get('invitations/' + invitationId, {
-          headers,
-        })
+        .get(
+          'invitations/' + invitationId,
+          withRequestOptions(options, {
+            headers,
+          })
+        )
         .then((response) => wrapOrganizationInvitation(http, response.data), errorHandler)
     },
     /**
@@ -374,13 +432,16 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)
      * ```
      */
-    createOrganizationInvitation(data: Omit<OrganizationInvitationProps, 'sys'>) {
+    createOrganizationInvitation(
+      data: Omit<OrganizationInvitationProps, 'sys'>,
+      options?: RequestOptions
+    ) {
       const invitationAlphaHeaders = {
         'x-contentful-enable-alpha-feature': 'pending-org-membership',
       }
 
       return http
-        .post('invitations', data, { headers: invitationAlphaHeaders })
+        .post('invitations', data, withRequestOptions(options, { headers: invitationAlphaHeaders }))
         .then((response) => wrapOrganizationInvitation(http, response.data), errorHandler)
     },
     /**
@@ -403,9 +464,9 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)
      * ```
      */
-    createAppDefinition(data: Omit<AppDefinitionProps, 'sys'>) {
+    createAppDefinition(data: Omit<AppDefinitionProps, 'sys'>, options?: RequestOptions) {
       return http
-        .post('app_definitions', data)
+        .post('app_definitions', data, withRequestOptions(options))
         .then((response) => wrapAppDefinition(http, response.data), errorHandler)
     },
     /**
@@ -423,9 +484,9 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)
      * ```
      */
-    getAppDefinitions(query: QueryOptions = {}) {
+    getAppDefinitions(query: QueryOptions = {}, options?: RequestOptions) {
       return http
-        .get('app_definitions', createRequestConfig({ query }))
+        .get('app_definitions', withRequestOptions(options, createRequestConfig({ query })))
         .then((response) => wrapAppDefinitionCollection(http, response.data), errorHandler)
     },
 
@@ -444,9 +505,9 @@ export default function createOrganizationApi({ http }: { http: AxiosInstance })
      * .catch(console.error)
      * ```
      */
-    getAppDefinition(id: string) {
+    getAppDefinition(id: string, options?: RequestOptions) {
       return http
-        .get('app_definitions/' + id)
+        .get('app_definitions/' + id, withRequestOptions(options))
         .then((response) => wrapAppDefinition(http, response.data), errorHandler)
     },
   }
@@ -0,0 +1,435 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import { AxiosInstance, AxiosRequestConfig } from 'axios'
+import { createRequestConfig } from 'contentful-sdk-core'
+import cloneDeep from 'lodash/cloneDeep'
+import errorHandler from './error-handler'
+import { CollectionProp, QueryOptions, RequestOptions } from './common-types'
+import { normalizeSelect, withRequestOptions } from './common-utils'
+import { SpaceProps } from './entities/space'
+import { EnvironmentProps } from './entities/environment'
+import { ContentTypeProps, CreateContentTypeProps } from './entities/content-type'
+import { EntryProp } from './entities/entry'
+import { AssetProps } from './entities/asset'
+import { LocaleProps } from './entities/locale'
+
+/**
+ * Parameters which can be omitted from every call of a plain client
+ * if they are given once as defaults when creating it
+ */
+export type DefaultParams = {
+  spaceId?: string
+  environmentId?: string
+}
+
+export type GetSpaceParams = { spaceId: string }
+export type GetSpaceEnvironmentParams = { spaceId: string; environmentId: string }
+export type GetContentTypeParams = GetSpaceEnvironmentParams & { contentTypeId: string }
+export type GetEntryParams = GetSpaceEnvironmentParams & { entryId: string }
+export type GetAssetParams = GetSpaceEnvironmentParams & { assetId: string }
+export type GetLocaleParams = GetSpaceEnvironmentParams & { localeId: string }
+export type QueryParams = { query?: QueryOptions }
+
+/**
+ * Makes the parameters covered by {@link DefaultParams} optional
+ */
+type OptionalDefaults<T> = Omit<T, keyof DefaultParams> & DefaultParams
+
+type EntityWithSys = { sys: { version?: number } }
+
+export type PlainClientAPI = ReturnType<typeof createPlainClientApi>
+
+/**
+ * Creates API object with stateless methods which take and return plain objects.
+ * Every method receives all ids it needs as parameters, so no intermediate
+ * space or environment objects have to be fetched.
+ */
+export default function createPlainClientApi({
+  http,
+  defaults = {},
+}: {
+  http: AxiosInstance
+  defaults?: DefaultParams
+}) {
+  function withDefaults<T extends DefaultParams>(
+    params: OptionalDefaults<T>,
+    requiredKeys: Array<keyof T>
+  ): T {
+    const merged = ({ ...defaults, ...params } as unknown) as T
+    requiredKeys.forEach((key) => {
+      if (!merged[key]) {
+        throw new TypeError(`Expected parameter ${key}`)
+      }
+    })
+    return merged
+  }
+
+  function spaceUrl(params: OptionalDefaults<GetSpaceParams>) {
+    const { spaceId } = withDefaults<GetSpaceParams>(params, ['spaceId'])
+    return spaceId
+  }
+
+  function environmentUrl(params: OptionalDefaults<GetSpaceEnvironmentParams>) {
+    const { spaceId, environmentId } = withDefaults<GetSpaceEnvironmentParams>(params, [
+      'spaceId',
+      'environmentId',
+    ])
+    return `${spaceId}/environments/${environmentId}`
+  }
+
+  function get<T>(url: string, query?: QueryOptions, options?: RequestOptions): Promise<T> {
+    return http
+      .get<T>(url, withRequestOptions(options, query ? createRequestConfig({ query }) : undefined))
+      .then((response) => response.data, errorHandler)
+  }
+
+  function post<T>(
+    url: string,
+    payload: unknown,
+    config?: AxiosRequestConfig,
+    options?: RequestOptions
+  ): Promise<T> {
+    return http
+      .post<T>(url, payload, withRequestOptions(options, config))
+      .then((response) => response.data, errorHandler)
+  }
+
+  function put<T>(
+    url: string,
+    payload: unknown,
+    config?: AxiosRequestConfig,
+    options?: RequestOptions
+  ): Promise<T> {
+    return http
+      .put<T>(url, payload, withRequestOptions(options, config))
+      .then((response) => response.data, errorHandler)
+  }
+
+  function del<T>(url: string, config?: AxiosRequestConfig, options?: RequestOptions): Promise<T> {
+    return http
+      .delete<T>(url, withRequestOptions(options, config))
+      .then((response) => response.data, errorHandler)
+  }
+
+  function update<T extends EntityWithSys>(
+    url: string,
+    rawData: T,
+    headers?: object,
+    options?: RequestOptions
+  ) {
+    const data = cloneDeep(rawData)
+    delete data.sys
+    return put<T>(
+      url,
+      data,
+      {
+        headers: {
+          'X-Contentful-Version': rawData.sys.version || 0,
+          ...headers,
+        },
+      },
+      options
+    )
+  }
+
+  function publish<T extends EntityWithSys>(url: string, rawData: T, options?: RequestOptions) {
+    return put<T>(
+      url + '/published',
+      null,
+      {
+        headers: {
+          'X-Contentful-Version': rawData.sys.version,
+        },
+      },
+      options
+    )
+  }
+
+  function entryUrl(params: OptionalDefaults<GetEntryParams>) {
+    const { entryId } = withDefaults<GetEntryParams>(params, [
+      'spaceId',
+      'environmentId',
+      'entryId',
+    ])
+    return `${environmentUrl(params)}/entries/${entryId}`
+  }
+
+  function assetUrl(params: OptionalDefaults<GetAssetParams>) {
+    const { assetId } = withDefaults<GetAssetParams>(params, [
+      'spaceId',
+      'environmentId',
+      'assetId',
+    ])
+    return `${environmentUrl(params)}/assets/${assetId}`
+  }
+
+  function contentTypeUrl(params: OptionalDefaults<GetContentTypeParams>) {
+    const { contentTypeId } = withDefaults<GetContentTypeParams>(params, [
+      'spaceId',
+      'environmentId',
+      'contentTypeId',
+    ])
+    return `${environmentUrl(params)}/content_types/${contentTypeId}`
+  }
+
+  function localeUrl(params: OptionalDefaults<GetLocaleParams>) {
+    const { localeId } = withDefaults<GetLocaleParams>(params, [
+      'spaceId',
+      'environmentId',
+      'localeId',
+    ])
+    return `${environmentUrl(params)}/locales/${localeId}`
+  }
+
+  return {
+    space: {
+      /**
+       * Gets a space
+       * @example ```javascript
+       * const space = await plainClient.space.get({ spaceId: '<space_id>' })
+       * ```
+       */
+      get(params: OptionalDefaults<GetSpaceParams>, options?: RequestOptions) {
+        return get<SpaceProps>(spaceUrl(params), undefined, options)
+      },
+    },
+    environment: {
+      /**
+       * Gets an environment
+       * @example ```javascript
+       * const environment = await plainClient.environment.get({
+       *   spaceId: '<space_id>',
+       *   environmentId: '<environment_id>'
+       * })
+       * ```
+       */
+      get(params: OptionalDefaults<GetSpaceEnvironmentParams>, options?: RequestOptions) {
+        return get<EnvironmentProps>(environmentUrl(params), undefined, options)
+      },
+      /**
+       * Gets all environments of a space
+       */
+      getMany(params: OptionalDefaults<GetSpaceParams>, options?: RequestOptions) {
+        return get<CollectionProp<EnvironmentProps>>(
+          `${spaceUrl(params)}/environments`,
+          undefined,
+          options
+        )
+      },
+    },
+    contentType: {
+      get(params: OptionalDefaults<GetContentTypeParams>, options?: RequestOptions) {
+        return get<ContentTypeProps>(contentTypeUrl(params), undefined, options)
+      },
+      getMany(
+        params: OptionalDefaults<GetSpaceEnvironmentParams & QueryParams>,
+        options?: RequestOptions
+      ) {
+        return get<CollectionProp<ContentTypeProps>>(
+          `${environmentUrl(params)}/content_types`,
+          params.query || {},
+          options
+        )
+      },
+      create(
+        params: OptionalDefaults<GetSpaceEnvironmentParams>,
+        rawData: CreateContentTypeProps,
+        options?: RequestOptions
+      ) {
+        return post<ContentTypeProps>(
+          `${environmentUrl(params)}/content_types`,
+          rawData,
+          undefined,
+          options
+        )
+      },
+      update(
+        params: OptionalDefaults<GetContentTypeParams>,
+        rawData: ContentTypeProps,
+        options?: RequestOptions
+      ) {
+        return update(contentTypeUrl(params), rawData, undefined, options)
+      },
+      delete(params: OptionalDefaults<GetContentTypeParams>, options?: RequestOptions) {
+        return del<void>(contentTypeUrl(params), undefined, options).then(() => {
+          // do nothing
+        })
+      },
+      publish(
+        params: OptionalDefaults<GetContentTypeParams>,
+        rawData: ContentTypeProps,
+        options?: RequestOptions
+      ) {
+        return publish(contentTypeUrl(params), rawData, options)
+      },
+      unpublish(params: OptionalDefaults<GetContentTypeParams>, options?: RequestOptions) {
+        return del<ContentTypeProps>(contentTypeUrl(params) + '/published', undefined, options)
+      },
+    },
+    entry: {
+      /**
+       * Gets an entry
+       * @example ```javascript
+       * const entry = await plainClient.entry.get({
+       *   spaceId: '<space_id>',
+       *   environmentId: '<environment_id>',
+       *   entryId: '<entry_id>'
+       * })
+       * ```
+       */
+      get(params: OptionalDefaults<GetEntryParams & QueryParams>, options?: RequestOptions) {
+        const query = params.query || {}
+        normalizeSelect(query)
+        return get<EntryProp>(entryUrl(params), query, options)
+      },
+      getMany(
+        params: OptionalDefaults<GetSpaceEnvironmentParams & QueryParams>,
+        options?: RequestOptions
+      ) {
+        const query = params.query || {}
+        normalizeSelect(query)
+        return get<CollectionProp<EntryProp>>(`${environmentUrl(params)}/entries`, query, options)
+      },
+      create(
+        params: OptionalDefaults<GetSpaceEnvironmentParams & { contentTypeId: string }>,
+        rawData: Omit<EntryProp, 'sys'>,
+        options?: RequestOptions
+      ) {
+        const { contentTypeId } = withDefaults<GetContentTypeParams>(params, [
+          'spaceId',
+          'environmentId',
+          'contentTypeId',
+        ])
+        return post<EntryProp>(
+          `${environmentUrl(params)}/entries`,
+          rawData,
+          {
+            headers: {
+              'X-Contentful-Content-Type': contentTypeId,
+            },
+          },
+          options
+        )
+      },
+      /**
+       * Sends the given entry data to the server, using its `sys.version`
+       * for the version header
+       * @example ```javascript
+       * const entry = await plainClient.entry.get({ entryId: '<entry_id>' })
+       * entry.fields.title['en-US'] = 'New entry title'
+       * const updatedEntry = await plainClient.entry.update({ entryId: '<entry_id>' }, entry)
+       * ```
+       */
+      update(
+        params: OptionalDefaults<GetEntryParams>,
+        rawData: EntryProp,
+        options?: RequestOptions
+      ) {
+        return update(entryUrl(params), rawData, undefined, options)
+      },
+      delete(params: OptionalDefaults<GetEntryParams>, options?: RequestOptions) {
+        return del<void>(entryUrl(params), undefined, options).then(() => {
+          // do nothing
+        })
+      },
+      publish(
+        params: OptionalDefaults<GetEntryParams>,
+        rawData: EntryProp,
+        options?: RequestOptions
+      ) {
+        return publish(entryUrl(params), rawData, options)
+      },
+      unpublish(params: OptionalDefaults<GetEntryParams>, options?: RequestOptions) {
+        return del<EntryProp>(entryUrl(params) + '/published', undefined, options)
+      },
+      archive(params: OptionalDefaults<GetEntryParams>, options?: RequestOptions) {
+        return put<EntryProp>(entryUrl(params) + '/archived', null, undefined, options)
+      },
+      unarchive(params: OptionalDefaults<GetEntryParams>, options?: RequestOptions) {
+        return del<EntryProp>(entryUrl(params) + '/archived', undefined, options)
+      },
+    },
+    asset: {
+      get(params: OptionalDefaults<GetAssetParams & QueryParams>, options?: RequestOptions) {
+        const query = params.query || {}
+        normalizeSelect(query)
+        return get<AssetProps>(assetUrl(params), query, options)
+      },
+      getMany(
+        params: OptionalDefaults<GetSpaceEnvironmentParams & QueryParams>,
+        options?: RequestOptions
+      ) {
+        const query = params.query || {}
+        normalizeSelect(query)
+        return get<CollectionProp<AssetProps>>(`${environmentUrl(params)}/assets`, query, options)
+      },
+      create(
+        params: OptionalDefaults<GetSpaceEnvironmentParams>,
+        rawData: Omit<AssetProps, 'sys'>,
+        options?: RequestOptions
+      ) {
+        return post<AssetProps>(`${environmentUrl(params)}/assets`, rawData, undefined, options)
+      },
+      update(
+        params: OptionalDefaults<GetAssetParams>,
+        rawData: AssetProps,
+        options?: RequestOptions
+      ) {
+        return update(assetUrl(params), rawData, undefined, options)
+      },
+      delete(params: OptionalDefaults<GetAssetParams>, options?: RequestOptions) {
+        return del<void>(assetUrl(params), undefined, options).then(() => {
+          // do nothing
+        })
+      },
+      publish(
+        params: OptionalDefaults<GetAssetParams>,
+        rawData: AssetProps,
+        options?: RequestOptions
+      ) {
+        return publish(assetUrl(params), rawData, options)
+      },
+      unpublish(params: OptionalDefaults<GetAssetParams>, options?: RequestOptions) {
+        return del<AssetProps>(assetUrl(params) + '/published', undefined, options)
+      },
+      archive(params: OptionalDefaults<GetAssetParams>, options?: RequestOptions) {
+        return put<AssetProps>(assetUrl(params) + '/archived', null, undefined, options)
+      },
+      unarchive(params: OptionalDefaults<GetAssetParams>, options?: RequestOptions) {
+        return del<AssetProps>(assetUrl(params) + '/archived', undefined, options)
+      },
+      processForLocale(
+        params: OptionalDefaults<GetAssetParams>,
+        rawData: AssetProps,
+        locale: string,
+        options?: RequestOptions
+      ) {
+        return put<void>(
+          `${assetUrl(params)}/files/${locale}/process`,
+          null,
+          {
+            headers: {
+              'X-Contentful-Version': rawData.sys.version,
+            },
+          },
+          options
+        )
+      },
+    },
+    locale: {
+      get(params: OptionalDefaults<GetLocaleParams>, options?: RequestOptions) {
+        return get<LocaleProps>(localeUrl(params), undefined, options)
+      },
+      getMany(params: OptionalDefaults<GetSpaceEnvironmentParams>, options?: RequestOptions) {
+        return get<CollectionProp<LocaleProps>>(
+          `${environmentUrl(params)}/locales`,
+          undefined,
+          options
+        )
+      },
+    },
+  }
+}
@@ -18,7 +18,9 @@ import { SpaceMembershipProps } from './entities/space-membership'
 import { RoleProps } from './entities/role'
 import { CreateLocaleProps } from './entities/locale'
 import { WebhookProps } from './entities/webhook'
-import { QueryOptions } from './common-types'
+import { QueryOptions, RequestOptions } from './common-types'
+import { normalizeSelect, withRequestOptions } from './common-utils'
+import { paginate, paginateCursor, PaginationOptions } from './paginate'
 import { UIExtensionProps } from './entities/ui-extension'
 import { CreateApiKeyProps } from './entities/api-key'
 import { ScheduledActionQueryOptions, ScheduledActionProps } from './entities/scheduled-action'
@@ -82,40 +84,45 @@ export default function createSpaceApi({
   const { wrapUiExtension, wrapUiExtensionCollection } = entities.uiExtension
   const { wrapUpload } = entities.upload
 
-  function createAsset(data: Omit<AssetProps, 'sys'>) {
+  function createAsset(data: Omit<AssetProps, 'sys'>, options?: RequestOptions) {
     return http
-      .post('assets', data)
+      .post('assets', data, withRequestOptions(options))
       .then((response) => wrapAsset(http, response.data), errorHandler)
   }
 
-  function createUpload(data: { file: string | ArrayBuffer | Stream }) {
+  function createUpload(data: { file: string | ArrayBuffer | Stream }, options?: RequestOptions) {
     raiseDeprecationWarning('createUpload')
     const { file } = data
     if (!file) {
       return Promise.reject(new Error('Unable to locate a file to upload.'))
     }
     return httpUpload
-      .post('uploads', file, {
-        headers: {
-          'Content-Type': 'application/octet-stream',
-        },
-      })
+      .post(
+        'uploads',
+        file,
+        withRequestOptions(options, {
+          headers: {
+            'Content-Type': 'application/octet-stream',
+          },
+        })
+      )
       .then((uploadResponse) => {
         return wrapUpload(httpUpload, uploadResponse.data)
       })
       .catch(errorHandler)
   }
 
-  /*
-   * @private
-   * sdk relies heavily on sys metadata
-   * so we cannot omit the sys property on sdk level
-   *
-   */
-  function normalizeSelect(query: QueryOptions) {
-    if (query.select && !/sys/i.test(query.select)) {
-      query.select += ',sys'
-    }
+  function getScheduledActions(query: ScheduledActionQueryOptions, options?: RequestOptions) {
+    return http
+      .get('scheduled_actions', withRequestOptions(options, createRequestConfig({ query: query })))
+      .then((response) => wrapScheduledActionCollection(http, response.data), errorHandler)
+  }
+
+  function getSpaceMemberships(query: QueryOptions = {}, options?: RequestOptions) {
+    spaceMembershipDeprecationWarning()
+    return http
+      .get('space_memberships', withRequestOptions(options, createRequestConfig({ query: query })))
+      .then((response) => wrapSpaceMembershipCollection(http, response.data), errorHandler)
   }
 
   return {
@@ -135,8 +142,8 @@ export default function createSpaceApi({
      *   .catch(console.error)
      * ```
      */
-    delete: function deleteSpace() {
-      return http.delete('').then(() => {
+    delete: function deleteSpace(options?: RequestOptions) {
+      return http.delete('', withRequestOptions(options)).then(() => {
         // do nothing
       }, errorHandler)
     },
@@ -159,16 +166,20 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    update: function updateSpace() {
+    update: function updateSpace(options?: RequestOptions) {
       const raw = this.toPlainObject()
       const data = cloneDeep(raw)
       delete data.sys
       return http
-        .put('', data, {
-          headers: {
-            'X-Contentful-Version': raw.sys.version,
-          },
-        })
+        .put(
+          '',
+          data,
+          withRequestOptions(options, {
+            headers: {
+              'X-Contentful-Version': raw.sys.version,
+            },
+          })
+        )
         .then((response) => wrapSpace(http, response.data), errorHandler)
     },
     /**
@@ -188,9 +199,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getEnvironment(id: string) {
+    getEnvironment(id: string, options?: RequestOptions) {
       return http
-        .get('environments/' + id)
+        .get('environments/' + id, withRequestOptions(options))
         .then((response) => wrapEnvironment(http, response.data), errorHandler)
     },
 
@@ -210,9 +221,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getEnvironments() {
+    getEnvironments(options?: RequestOptions) {
       return http
-        .get('environments')
+        .get('environments', withRequestOptions(options))
         .then((response) => wrapEnvironmentCollection(http, response.data), errorHandler)
     },
 
@@ -233,9 +244,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createEnvironment(data = {}) {
+    createEnvironment(data = {}, options?: RequestOptions) {
       return http
-        .post('environments', data)
+        .post('environments', data, withRequestOptions(options))
         .then((response) => wrapEnvironment(http, response.data), errorHandler)
     },
 
@@ -261,14 +272,19 @@ export default function createSpaceApi({
     createEnvironmentWithId(
       id: string,
       data: Omit<EnvironmentProps, 'sys'>,
-      sourceEnvironmentId?: string
+      sourceEnvironmentId?: string,
+      options?: RequestOptions
     ) {
       return http
-        .put('environments/' + id, data, {
-          headers: sourceEnvironmentId
-            ? { 'X-Contentful-Source-Environment': sourceEnvironmentId }
-            : {},
-        })
+        .put(
+          'environments/' + id,
+          data,
+          withRequestOptions(options, {
+            headers: sourceEnvironmentId
+              ? { 'X-Contentful-Source-Environment': sourceEnvironmentId }
+              : {},
+          })
+        )
         .then((response) => wrapEnvironment(http, response.data), errorHandler)
     },
     /**
@@ -289,10 +305,10 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getContentType(id: string) {
+    getContentType(id: string, options?: RequestOptions) {
       raiseDeprecationWarning('getContentType')
       return http
-        .get('content_types/' + id)
+        .get('content_types/' + id, withRequestOptions(options))
         .then((response) => wrapContentType(http, response.data), errorHandler)
     },
     /**
@@ -313,10 +329,10 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getContentTypes(query: QueryOptions = {}) {
+    getContentTypes(query: QueryOptions = {}, options?: RequestOptions) {
       raiseDeprecationWarning('getContentTypes')
       return http
-        .get('content_types', createRequestConfig({ query: query }))
+        .get('content_types', withRequestOptions(options, createRequestConfig({ query: query })))
         .then((response) => wrapContentTypeCollection(http, response.data), errorHandler)
     },
 
@@ -349,10 +365,10 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createContentType(data: CreateContentTypeProps) {
+    createContentType(data: CreateContentTypeProps, options?: RequestOptions) {
       raiseDeprecationWarning('createContentType')
       return http
-        .post('content_types', data)
+        .post('content_types', data, withRequestOptions(options))
         .then((response) => wrapContentType(http, response.data), errorHandler)
     },
     /**
@@ -385,10 +401,10 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createContentTypeWithId(id: string, data: CreateContentTypeProps) {
+    createContentTypeWithId(id: string, data: CreateContentTypeProps, options?: RequestOptions) {
       raiseDeprecationWarning('createContentTypeWithId')
       return http
-        .put('content_types/' + id, data)
+        .put('content_types/' + id, data, withRequestOptions(options))
         .then((response) => wrapContentType(http, response.data), errorHandler)
     },
 
@@ -410,10 +426,10 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getEditorInterfaceForContentType(contentTypeId: string) {
+    getEditorInterfaceForContentType(contentTypeId: string, options?: RequestOptions) {
       raiseDeprecationWarning('getEditorInterfaceForContentType')
       return http
-        .get('content_types/' + contentTypeId + '/editor_interface')
+        .get('content_types/' + contentTypeId + '/editor_interface', withRequestOptions(options))
         .then((response) => wrapEditorInterface(http, response.data), errorHandler)
     },
     /**
@@ -437,11 +453,11 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getEntry(id: string, query: QueryOptions = {}) {
+    getEntry(id: string, query: QueryOptions = {}, options?: RequestOptions) {
       raiseDeprecationWarning('getEntry')
       normalizeSelect(query)
       return http
-        .get('entries/' + id, createRequestConfig({ query: query }))
+        .get('entries/' + id, withRequestOptions(options, createRequestConfig({ query: query })))
         .then((response) => wrapEntry(http, response.data), errorHandler)
     },
     /**
@@ -464,11 +480,11 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getEntries(query: QueryOptions = {}) {
+    getEntries(query: QueryOptions = {}, options?: RequestOptions) {
       raiseDeprecationWarning('getEntries')
       normalizeSelect(query)
       return http
-        .get('entries', createRequestConfig({ query: query }))
+        .get('entries', withRequestOptions(options, createRequestConfig({ query: query })))
         .then((response) => wrapEntryCollection(http, response.data), errorHandler)
     },
     /**
@@ -496,14 +512,18 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createEntry(contentTypeId: string, data: Omit<EntryProp, 'sys'>) {
+    createEntry(contentTypeId: string, data: Omit<EntryProp, 'sys'>, options?: RequestOptions) {
       raiseDeprecationWarning('createEntry')
       return http
-        .post('entries', data, {
-          headers: {
-            'X-Contentful-Content-Type': contentTypeId,
-          },
-        })
+        .post(
+          'entries',
+          data,
+          withRequestOptions(options, {
+            headers: {
+              'X-Contentful-Content-Type': contentTypeId,
+            },
+          })
+        )
         .then((response) => wrapEntry(http, response.data), errorHandler)
     },
     /**
@@ -533,14 +553,23 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createEntryWithId(contentTypeId: string, id: string, data: Omit<EntryProp, 'sys'>) {
+    createEntryWithId(
+      contentTypeId: string,
+      id: string,
+      data: Omit<EntryProp, 'sys'>,
+      options?: RequestOptions
+    ) {
       raiseDeprecationWarning('createEntryWithId')
       return http
-        .put('entries/' + id, data, {
-          headers: {
-            'X-Contentful-Content-Type': contentTypeId,
-          },
-        })
+        .put(
+          'entries/' + id,
+          data,
+          withRequestOptions(options, {
+            headers: {
+              'X-Contentful-Content-Type': contentTypeId,
+            },
+          })
+        )
         .then((response) => wrapEntry(http, response.data), errorHandler)
     },
     /**
@@ -614,11 +643,11 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getAsset(id: string, query: QueryOptions = {}) {
+    getAsset(id: string, query: QueryOptions = {}, options?: RequestOptions) {
       raiseDeprecationWarning('getAsset')
       normalizeSelect(query)
       return http
-        .get('assets/' + id, createRequestConfig({ query: query }))
+        .get('assets/' + id, withRequestOptions(options, createRequestConfig({ query: query })))
         .then((response) => wrapAsset(http, response.data), errorHandler)
     },
     /**
@@ -641,11 +670,11 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getAssets(query: QueryOptions = {}) {
+    getAssets(query: QueryOptions = {}, options?: RequestOptions) {
       raiseDeprecationWarning('getAssets')
       normalizeSelect(query)
       return http
-        .get('assets', createRequestConfig({ query: query }))
+        .get('assets', withRequestOptions(options, createRequestConfig({ query: query })))
         .then((response) => wrapAssetCollection(http, response.data), errorHandler)
     },
     /**
@@ -678,10 +707,10 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createAssetWithId(id: string, data: Omit<AssetProps, 'sys'>) {
+    createAssetWithId(id: string, data: Omit<AssetProps, 'sys'>, options?: RequestOptions) {
       raiseDeprecationWarning('createAssetWithId')
       return http
-        .put('assets/' + id, data)
+        .put('assets/' + id, data, withRequestOptions(options))
         .then((response) => wrapAsset(http, response.data), errorHandler)
     },
     /**
@@ -715,13 +744,13 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createAssetFromFiles(data: Omit<AssetFileProp, 'sys'>) {
+    createAssetFromFiles(data: Omit<AssetFileProp, 'sys'>, options?: RequestOptions) {
       raiseDeprecationWarning('createAssetFromFiles')
       const { file } = data.fields
       return Promise.all(
         Object.keys(file).map((locale) => {
           const { contentType, fileName } = file[locale]
-          return createUpload(file[locale]).then((upload) => {
+          return createUpload(file[locale], options).then((upload) => {
             return {
               [locale]: {
                 contentType,
@@ -746,7 +775,7 @@ export default function createSpaceApi({
               ...upload,
             }
           }, {})
-          return createAsset(data)
+          return createAsset(data, options)
         })
         .catch(errorHandler)
     },
@@ -766,10 +795,10 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getUpload(id: string) {
+    getUpload(id: string, options?: RequestOptions) {
       raiseDeprecationWarning('getUpload')
       return httpUpload
-        .get('uploads/' + id)
+        .get('uploads/' + id, withRequestOptions(options))
         .then((response) => wrapUpload(http, response.data))
         .catch(errorHandler)
     },
@@ -791,10 +820,10 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getLocale(id: string) {
+    getLocale(id: string, options?: RequestOptions) {
       raiseDeprecationWarning('getLocale')
       return http
-        .get('locales/' + id)
+        .get('locales/' + id, withRequestOptions(options))
         .then((response) => wrapLocale(http, response.data), errorHandler)
     },
 
@@ -815,10 +844,10 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getLocales() {
+    getLocales(options?: RequestOptions) {
       raiseDeprecationWarning('getLocales')
       return http
-        .get('locales')
+        .get('locales', withRequestOptions(options))
         .then((response) => wrapLocaleCollection(http, response.data), errorHandler)
     },
 
@@ -846,10 +875,10 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createLocale(data: CreateLocaleProps) {
+    createLocale(data: CreateLocaleProps, options?: RequestOptions) {
       raiseDeprecationWarning('createLocale')
       return http
-        .post('locales', data)
+        .post('locales', data, withRequestOptions(options))
         .then((response) => wrapLocale(http, response.data), errorHandler)
     },
     /**
@@ -869,9 +898,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getWebhook(id: string) {
+    getWebhook(id: string, options?: RequestOptions) {
       return http
-        .get('webhook_definitions/' + id)
+        .get('webhook_definitions/' + id, withRequestOptions(options))
         .then((response) => wrapWebhook(http, response.data), errorHandler)
     },
 
@@ -891,9 +920,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getWebhooks() {
+    getWebhooks(options?: RequestOptions) {
       return http
-        .get('webhook_definitions')
+        .get('webhook_definitions', withRequestOptions(options))
         .then((response) => wrapWebhookCollection(http, response.data), errorHandler)
     },
 
@@ -919,9 +948,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createWebhook(data: Omit<WebhookProps, 'sys'>) {
+    createWebhook(data: Omit<WebhookProps, 'sys'>, options?: RequestOptions) {
       return http
-        .post('webhook_definitions', data)
+        .post('webhook_definitions', data, withRequestOptions(options))
         .then((response) => wrapWebhook(http, response.data), errorHandler)
     },
 
@@ -948,9 +977,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createWebhookWithId(id: string, data: Omit<WebhookProps, 'sys'>) {
+    createWebhookWithId(id: string, data: Omit<WebhookProps, 'sys'>, options?: RequestOptions) {
       return http
-        .put('webhook_definitions/' + id, data)
+        .put('webhook_definitions/' + id, data, withRequestOptions(options))
         .then((response) => wrapWebhook(http, response.data), errorHandler)
     },
     /**
@@ -976,8 +1005,10 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getRole(id: string) {
-      return http.get('roles/' + id).then((response) => wrapRole(http, response.data), errorHandler)
+    getRole(id: string, options?: RequestOptions) {
+      return http
+        .get('roles/' + id, withRequestOptions(options))
+        .then((response) => wrapRole(http, response.data), errorHandler)
     },
     /**
      * Gets a collection of Roles
@@ -995,9 +1026,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getRoles() {
+    getRoles(options?: RequestOptions) {
       return http
-        .get('roles')
+        .get('roles', withRequestOptions(options))
         .then((response) => wrapRoleCollection(http, response.data), errorHandler)
     },
 
@@ -1047,9 +1078,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createRole(data: Omit<RoleProps, 'sys'>) {
+    createRole(data: Omit<RoleProps, 'sys'>, options?: RequestOptions) {
       return http
-        .post('roles', data)
+        .post('roles', data, withRequestOptions(options))
         .then((response) => wrapRole(http, response.data), errorHandler)
     },
     /**
@@ -1099,9 +1130,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createRoleWithId(id: string, data: Omit<RoleProps, 'sys'>) {
+    createRoleWithId(id: string, data: Omit<RoleProps, 'sys'>, options?: RequestOptions) {
       return http
-        .put('roles/' + id, data)
+        .put('roles/' + id, data, withRequestOptions(options))
         .then((response) => wrapRole(http, response.data), errorHandler)
     },
     /**
@@ -1109,19 +1140,31 @@ export default function createSpaceApi({
      * @param query - Object with search parameters. The enviroment id field is mandatory. Check the <a href="https://www.contentful.com/developers/docs/references/content-management-api/#/reference/scheduled-actions/scheduled-actions-collection">REST API reference</a> for more details.
      * @return Promise for the scheduled actions query
      */
-    getScheduledActions(query: ScheduledActionQueryOptions) {
-      return http
-        .get('scheduled_actions', createRequestConfig({ query: query }))
-        .then((response) => wrapScheduledActionCollection(http, response.data), errorHandler)
+    getScheduledActions: getScheduledActions,
+
+    /**
+     * Gets all scheduled actions page by page by following the `pages.next` cursors
+     * @param query - Object with search parameters, see `getScheduledActions`. Pass a stored cursor as `next` to resume from its page.
+     * @param options - Page size of the requests
+     * @return Async iterable of all scheduled actions, `collectAll()` resolves with all of them and `getNextCursor()` returns the cursor to resume from after the last requested page
+     * @example ```javascript
+     * const scheduledActions = space.getScheduledActionsAll({ 'environment.sys.id': 'master' })
+     * for await (const scheduledAction of scheduledActions) {
+     *   console.log(scheduledAction.scheduledFor.datetime)
+     * }
+     * ```
+     */
+    getScheduledActionsAll(query: ScheduledActionQueryOptions, options?: PaginationOptions) {
+      return paginateCursor((pageQuery) => getScheduledActions(pageQuery, options), query, options)
     },
     /**
      * Creates a scheduled action
      * @param data - Object representation of the scheduled action to be created
      * @return Promise for the newly created scheduled actions
      */
-    createScheduledAction(data: Omit<ScheduledActionProps, 'sys'>) {
+    createScheduledAction(data: Omit<ScheduledActionProps, 'sys'>, options?: RequestOptions) {
       return http
-        .post('scheduled_actions', data)
+        .post('scheduled_actions', data, withRequestOptions(options))
         .then((response) => wrapScheduledAction(http, response.data), errorHandler)
     },
     /**
@@ -1137,8 +1180,10 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getSpaceUser(id: string) {
-      return http.get('users/' + id).then((response) => wrapUser(http, response.data), errorHandler)
+    getSpaceUser(id: string, options?: RequestOptions) {
+      return http
+        .get('users/' + id, withRequestOptions(options))
+        .then((response) => wrapUser(http, response.data), errorHandler)
     },
     /**
      * Gets a collection of Users in a space
@@ -1153,9 +1198,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getSpaceUsers(query: QueryOptions = {}) {
+    getSpaceUsers(query: QueryOptions = {}, options?: RequestOptions) {
       return http
-        .get('users/', createRequestConfig({ query: query }))
+        .get('users/', withRequestOptions(options, createRequestConfig({ query: query })))
         .then((response) => wrapUserCollection(http, response.data), errorHandler)
     },
     /**
@@ -1171,9 +1216,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getSpaceMember(id: string) {
+    getSpaceMember(id: string, options?: RequestOptions) {
       return http
-        .get('space_members/' + id)
+        .get('space_members/' + id, withRequestOptions(options))
         .then((response) => wrapSpaceMember(http, response.data), errorHandler)
     },
     /**
@@ -1189,9 +1234,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getSpaceMembers(query: QueryOptions = {}) {
+    getSpaceMembers(query: QueryOptions = {}, options?: RequestOptions) {
       return http
-        .get('space_members', createRequestConfig({ query: query }))
+        .get('space_members', withRequestOptions(options, createRequestConfig({ query: query })))
         .then((response) => wrapSpaceMemberCollection(http, response.data), errorHandler)
     },
     /**
@@ -1208,10 +1253,10 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getSpaceMembership(id: string) {
+    getSpaceMembership(id: string, options?: RequestOptions) {
       spaceMembershipDeprecationWarning()
       return http
-        .get('space_memberships/' + id)
+        .get('space_memberships/' + id, withRequestOptions(options))
         .then((response) => wrapSpaceMembership(http, response.data), errorHandler)
     },
     /**
@@ -1228,11 +1273,19 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getSpaceMemberships(query: QueryOptions = {}) {
-      spaceMembershipDeprecationWarning()
-      return http
-        .get('space_memberships', createRequestConfig({ query: query }))
-        .then((response) => wrapSpaceMembershipCollection(http, response.data), errorHandler)
+    getSpaceMemberships: getSpaceMemberships,
+
+    /**
+     * Gets all Space Memberships page by page, see `getSpaceMemberships` for the query
+     * @param query - Object with search parameters, `skip` is the first item to get
+     * @param options - Page size and number of pages requested at the same time
+     * @return Async iterable of all Space Memberships, `collectAll()` resolves with all of them
+     * @example ```javascript
+     * const memberships = await space.getSpaceMembershipsAll().collectAll()
+     * ```
+     */
+    getSpaceMembershipsAll(query: QueryOptions = {}, options?: PaginationOptions) {
+      return paginate((pageQuery) => getSpaceMemberships(pageQuery, options), query, options)
     },
 
     /**
@@ -1263,10 +1316,10 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createSpaceMembership(data: Omit<SpaceMembershipProps, 'sys'>) {
+    createSpaceMembership(data: Omit<SpaceMembershipProps, 'sys'>, options?: RequestOptions) {
       spaceMembershipDeprecationWarning()
       return http
-        .post('space_memberships', data)
+        .post('space_memberships', data, withRequestOptions(options))
         .then((response) => wrapSpaceMembership(http, response.data), errorHandler)
     },
     /**
@@ -1298,10 +1351,14 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createSpaceMembershipWithId(id: string, data: Omit<SpaceMembershipProps, 'sys'>) {
+    createSpaceMembershipWithId(
+      id: string,
+      data: Omit<SpaceMembershipProps, 'sys'>,
+      options?: RequestOptions
+    ) {
       spaceMembershipDeprecationWarning()
       return http
-        .put('space_memberships/' + id, data)
+        .put('space_memberships/' + id, data, withRequestOptions(options))
         .then((response) => wrapSpaceMembership(http, response.data), errorHandler)
     },
 
@@ -1318,9 +1375,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getTeamSpaceMembership(teamSpaceMembershipId: string) {
+    getTeamSpaceMembership(teamSpaceMembershipId: string, options?: RequestOptions) {
       return http
-        .get('team_space_memberships/' + teamSpaceMembershipId)
+        .get('team_space_memberships/' + teamSpaceMembershipId, withRequestOptions(options))
         .then((response) => wrapTeamSpaceMembership(http, response.data), errorHandler)
     },
 
@@ -1337,9 +1394,12 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getTeamSpaceMemberships(query: QueryOptions = {}) {
+    getTeamSpaceMemberships(query: QueryOptions = {}, options?: RequestOptions) {
       return http
-        .get('team_space_memberships', createRequestConfig({ query: query }))
+        .get(
+          'team_space_memberships',
+          withRequestOptions(options, createRequestConfig({ query: query }))
+        )
         .then((response) => wrapTeamSpaceMembershipCollection(http, response.data), errorHandler)
     },
     /**
@@ -1371,13 +1431,21 @@ export default function createSpaceApi({
    * .catch(console.error)
    * ```
    */
-    createTeamSpaceMembership(teamId: string, data: Omit<TeamSpaceMembershipProps, 'sys'>) {
+    createTeamSpaceMembership(
+      teamId: string,
+      data: Omit<TeamSpaceMembershipProps, 'sys'>,
+      options?: RequestOptions
+    ) {
       return http
-        .post('team_space_memberships', data, {
-          headers: {
-            'x-contentful-team': teamId,
-          },
-        })
+        .post(
+          'team_space_memberships',
+          data,
+          withRequestOptions(options, {
+            headers: {
+              'x-contentful-team': teamId,
+            },
+          })
+        )
         .then((response) => wrapTeamSpaceMembership(http, response.data), errorHandler)
     },
     /**
@@ -1397,9 +1465,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getApiKey(id: string) {
+    getApiKey(id: string, options?: RequestOptions) {
       return http
-        .get('api_keys/' + id)
+        .get('api_keys/' + id, withRequestOptions(options))
         .then((response) => wrapApiKey(http, response.data), errorHandler)
     },
     /**
@@ -1418,9 +1486,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getApiKeys() {
+    getApiKeys(options?: RequestOptions) {
       return http
-        .get('api_keys')
+        .get('api_keys', withRequestOptions(options))
         .then((response) => wrapApiKeyCollection(http, response.data), errorHandler)
     },
     /**
@@ -1439,9 +1507,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getPreviewApiKeys() {
+    getPreviewApiKeys(options?: RequestOptions) {
       return http
-        .get('preview_api_keys')
+        .get('preview_api_keys', withRequestOptions(options))
         .then((response) => wrapPreviewApiKeyCollection(http, response.data), errorHandler)
     },
     /**
@@ -1461,9 +1529,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getPreviewApiKey(id: string) {
+    getPreviewApiKey(id: string, options?: RequestOptions) {
       return http
-        .get('preview_api_keys/' + id)
+        .get('preview_api_keys/' + id, withRequestOptions(options))
         .then((response) => wrapPreviewApiKey(http, response.data), errorHandler)
     },
     /**
@@ -1495,9 +1563,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createApiKey: function createApiKey(data: CreateApiKeyProps) {
+    createApiKey: function createApiKey(data: CreateApiKeyProps, options?: RequestOptions) {
       return http
-        .post('api_keys', data)
+        .post('api_keys', data, withRequestOptions(options))
         .then((response) => wrapApiKey(http, response.data), errorHandler)
     },
     /**
@@ -1530,9 +1598,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createApiKeyWithId(id: string, data: CreateApiKeyProps) {
+    createApiKeyWithId(id: string, data: CreateApiKeyProps, options?: RequestOptions) {
       return http
-        .put('api_keys/' + id, data)
+        .put('api_keys/' + id, data, withRequestOptions(options))
         .then((response) => wrapApiKey(http, response.data), errorHandler)
     },
     /**
@@ -1553,10 +1621,10 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getUiExtension(id: string) {
+    getUiExtension(id: string, options?: RequestOptions) {
       raiseDeprecationWarning('getUiExtension')
       return http
-        .get('extensions/' + id)
+        .get('extensions/' + id, withRequestOptions(options))
         .then((response) => wrapUiExtension(http, response.data), errorHandler)
     },
     /**
@@ -1576,10 +1644,10 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getUiExtensions() {
+    getUiExtensions(options?: RequestOptions) {
       raiseDeprecationWarning('getUiExtensions')
       return http
-        .get('extensions')
+        .get('extensions', withRequestOptions(options))
         .then((response) => wrapUiExtensionCollection(http, response.data), errorHandler)
     },
     /**
@@ -1614,10 +1682,10 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createUiExtension(data: Omit<UIExtensionProps, 'sys'>) {
+    createUiExtension(data: Omit<UIExtensionProps, 'sys'>, options?: RequestOptions) {
       raiseDeprecationWarning('createUiExtension')
       return http
-        .post('extensions', data)
+        .post('extensions', data, withRequestOptions(options))
         .then((response) => wrapUiExtension(http, response.data), errorHandler)
     },
     /**
@@ -1653,10 +1721,14 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createUiExtensionWithId(id: string, data: Omit<UIExtensionProps, 'sys'>) {
+    createUiExtensionWithId(
+      id: string,
+      data: Omit<UIExtensionProps, 'sys'>,
+      options?: RequestOptions
+    ) {
       raiseDeprecationWarning('createUiExtensionWithId')
       return http
-        .put('extensions/' + id, data)
+        .put('extensions/' + id, data, withRequestOptions(options))
         .then((response) => wrapUiExtension(http, response.data), errorHandler)
     },
 
@@ -1679,10 +1751,13 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getEntrySnapshots(entryId: string, query: QueryOptions = {}) {
+    getEntrySnapshots(entryId: string, query: QueryOptions = {}, options?: RequestOptions) {
       raiseDeprecationWarning('getEntrySnapshots')
       return http
-        .get(`entries/${entryId}/snapshots`, createRequestConfig({ query: query }))
+        .get(
+          `entries/${entryId}/snapshots`,
+          withRequestOptions(options, createRequestConfig({ query: query }))
+        )
         .then((response) => wrapSnapshotCollection(http, response.data), errorHandler)
     },
     /**
@@ -1704,10 +1779,17 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getContentTypeSnapshots(contentTypeId: string, query: QueryOptions = {}) {
+    getContentTypeSnapshots(
+      contentTypeId: string,
+      query: QueryOptions = {},
+      options?: RequestOptions
+    ) {
       raiseDeprecationWarning('getContentTypeSnapshots')
       return http
-        .get(`content_types/${contentTypeId}/snapshots`, createRequestConfig({ query: query }))
+        .get(
+          `content_types/${contentTypeId}/snapshots`,
+          withRequestOptions(options, createRequestConfig({ query: query }))
+        )
         .then((response) => wrapSnapshotCollection(http, response.data), errorHandler)
     },
     /**
@@ -1732,9 +1814,13 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    createEnvironmentAliasWithId(id: string, data: Omit<EnvironmentAliasProps, 'sys'>) {
+    createEnvironmentAliasWithId(
+      id: string,
+      data: Omit<EnvironmentAliasProps, 'sys'>,
+      options?: RequestOptions
+    ) {
       return http
-        .put('environment_aliases/' + id, data)
+        .put('environment_aliases/' + id, data, withRequestOptions(options))
         .then((response) => wrapEnvironmentAlias(http, response.data), errorHandler)
     },
     /**
@@ -1754,9 +1840,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getEnvironmentAlias(id: string) {
+    getEnvironmentAlias(id: string, options?: RequestOptions) {
       return http
-        .get('environment_aliases/' + id)
+        .get('environment_aliases/' + id, withRequestOptions(options))
         .then((response) => wrapEnvironmentAlias(http, response.data), errorHandler)
     },
     /**
@@ -1775,9 +1861,9 @@ export default function createSpaceApi({
      * .catch(console.error)
      * ```
      */
-    getEnvironmentAliases() {
+    getEnvironmentAliases(options?: RequestOptions) {
       return http
-        .get('environment_aliases')
+        .get('environment_aliases', withRequestOptions(options))
         .then((response) => wrapEnvironmentAliasCollection(http, response.data), errorHandler)
     },
   }
@@ -3,7 +3,7 @@ import { AxiosInstance } from 'axios'
 import { freezeSys, toPlainObject } from 'contentful-sdk-core'
 import enhanceWithMethods from '../enhance-with-methods'
 import { createUpdateEntity, createDeleteEntity } from '../instance-actions'
-import { MetaLinkProps, MetaSysProps, DefaultElements } from '../common-types'
+import { MetaLinkProps, MetaSysProps, DefaultElements, RequestOptions } from '../common-types'
 import { wrapCollection } from '../common-utils'
 
 export type ApiKeyProps = {
@@ -37,7 +37,7 @@ export interface ApiKey extends ApiKeyProps, DefaultElements<ApiKeyProps> {
    * .catch(console.error)
    * ```
    */
-  delete(): Promise<void>
+  delete(options?: RequestOptions): Promise<void>
   /**
    * Sends an update to the server with any changes made to the object's properties
    * @return Object returned from the server with updated changes.
@@ -57,12 +57,12 @@ export interface ApiKey extends ApiKeyProps, DefaultElements<ApiKeyProps> {
    * .catch(console.error)
    * ```
    */
-  update(): Promise<ApiKey>
+  update(options?: RequestOptions): Promise<ApiKey>
 }
 
 function createApiKeyApi(http: AxiosInstance) {
   return {
-    update: function update() {
+    update: function update(options?: RequestOptions) {
       const self = this as ApiKeyProps
       if ('accessToken' in self) {
         delete self.accessToken
@@ -78,7 +78,7 @@ function createApiKeyApi(http: AxiosInstance) {
         entityPath: 'api_keys',
         wrapperMethod: wrapApiKey,
       })
-      return update.call(self)
+      return update.call(self, options)
     },
 
     delete: createDeleteEntity({
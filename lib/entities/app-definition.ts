@@ -1,6 +1,6 @@
 import cloneDeep from 'lodash/cloneDeep'
 import { freezeSys, toPlainObject } from 'contentful-sdk-core'
-import { MetaSysProps, DefaultElements } from '../common-types'
+import { MetaSysProps, DefaultElements, RequestOptions } from '../common-types'
 import enhanceWithMethods from '../enhance-with-methods'
 import { createUpdateEntity, createDeleteEntity } from '../instance-actions'
 import { AxiosInstance } from 'axios'
@@ -89,7 +89,7 @@ export interface AppDefinition extends AppDefinitionProps, DefaultElements<AppDe
    * .catch(console.error)
    * ```
    */
-  delete(): Promise<void>
+  delete(options?: RequestOptions): Promise<void>
   /**
    * Sends an update to the server with any changes made to the object's properties
    * @return Object returned from the server with updated changes.
@@ -110,7 +110,7 @@ export interface AppDefinition extends AppDefinitionProps, DefaultElements<AppDe
    * .catch(console.error)
    * ```
    */
-  update(): Promise<AppDefinition>
+  update(options?: RequestOptions): Promise<AppDefinition>
 }
 
 function createAppDefinitionApi(http: AxiosInstance) {
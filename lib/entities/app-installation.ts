@@ -4,8 +4,8 @@ import cloneDeep from 'lodash/cloneDeep'
 import errorHandler from '../error-handler'
 import enhanceWithMethods from '../enhance-with-methods'
 import { createDeleteEntity } from '../instance-actions'
-import { wrapCollection } from '../common-utils'
-import { MetaSysProps, MetaLinkProps, DefaultElements } from '../common-types'
+import { wrapCollection, withRequestOptions } from '../common-utils'
+import { MetaSysProps, MetaLinkProps, DefaultElements, RequestOptions } from '../common-types'
 
 export type AppInstallationProps = {
   sys: MetaSysProps & {
@@ -41,7 +41,7 @@ export interface AppInstallation
    * .catch(console.error)
    * ```
    */
-  update(): Promise<AppInstallation>
+  update(options?: RequestOptions): Promise<AppInstallation>
   /**
    * Deletes this object on the server.
    * @return Promise for the deletion. It contains no data, but the Promise error case should be handled.
@@ -60,18 +60,22 @@ export interface AppInstallation
    * .catch(console.error)
    * ```
    */
-  delete(): Promise<void>
+  delete(options?: RequestOptions): Promise<void>
 }
 
 function createAppInstallationApi(http: AxiosInstance) {
   return {
-    update: function () {
+    update: function (options?: RequestOptions) {
       const self = this as AppInstallation
       const raw = self.toPlainObject()
       const data = cloneDeep(raw)
       delete data.sys
       return http
-        .put(`app_installations/${self.sys.appDefinition.sys.id}`, data)
+        .put(
+          `app_installations/${self.sys.appDefinition.sys.id}`,
+          data,
+          withRequestOptions(options)
+        )
         .then((response) => wrapAppInstallation(http, response.data), errorHandler)
     },
 
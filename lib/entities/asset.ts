@@ -4,10 +4,12 @@ import { Stream } from 'stream'
 import { AxiosInstance } from 'axios'
 import enhanceWithMethods from '../enhance-with-methods'
 import errorHandler from '../error-handler'
-import { MetaSysProps, DefaultElements, MetadataProps } from '../common-types'
-import { wrapCollection } from '../common-utils'
+import { createAbortError } from '../abort'
+import { MetaSysProps, DefaultElements, MetadataProps, RequestOptions } from '../common-types'
+import { wrapCollection, withRequestOptions } from '../common-utils'
 import {
   createUpdateEntity,
+  createPatchEntity,
   createDeleteEntity,
   createPublishEntity,
   createUnpublishEntity,
@@ -18,6 +20,7 @@ import {
   createDraftChecker,
   createArchivedChecker,
 } from '../instance-actions'
+import { PatchOperation, PatchUpdateOptions, rememberOriginal } from '../json-patch'
 
 export type AssetProps = {
   sys: {
@@ -62,7 +65,7 @@ export interface AssetFileProp {
   }
 }
 
-export interface AssetProcessingForLocale {
+export interface AssetProcessingForLocale extends RequestOptions {
   processingCheckWait?: number
   processingCheckRetries?: number
 }
@@ -73,6 +76,7 @@ type AssetApi = {
    * @param options - Additional options for processing
    * @prop options.processingCheckWait - Time in milliseconds to wait before checking again if the asset has been processed (default: 500ms)
    * @prop options.processingCheckRetries - Maximum amount of times to check if the asset has been processed (default: 5)
+   * @prop options.signal - Aborts the processing request and stops checking whether the asset has been processed
    * @return Object returned from the server with updated metadata.
    * @throws {AssetProcessingTimeout} If the asset takes too long to process. If this happens, retrieve the asset again, and if the url property is available, then processing has succeeded. If not, your file might be damaged.
    * @example ```javascript
@@ -112,6 +116,7 @@ type AssetApi = {
    * @param options - Additional options for processing
    * @prop options.processingCheckWait - Time in milliseconds to wait before checking again if the asset has been processed (default: 500ms)
    * @prop options.processingCheckRetries - Maximum amount of times to check if the asset has been processed (default: 5)
+   * @prop options.signal - Aborts the processing request and stops checking whether the asset has been processed
    * @return Object returned from the server with updated metadata.
    * @throws {AssetProcessingTimeout} If the asset takes too long to process. If this happens, retrieve the asset again, and if the url property is available, then processing has succeeded. If not, your file might be damaged.
    * @example ```javascript
@@ -156,7 +161,7 @@ type AssetApi = {
    * .catch(console.error)
    * ```
    */
-  publish(): Promise<Asset>
+  publish(options?: RequestOptions): Promise<Asset>
   /**
    * Archives the object
    * @return Object returned from the server with updated metadata.
@@ -174,7 +179,7 @@ type AssetApi = {
    * .catch(console.error)
    * ```
    */
-  archive(): Promise<Asset>
+  archive(options?: RequestOptions): Promise<Asset>
   /**
    * Deletes this object on the server.
    * @return Promise for the deletion. It contains no data, but the Promise error case should be handled.
@@ -192,7 +197,7 @@ type AssetApi = {
    * .catch(console.error)
    * ```
    */
-  delete(): Promise<void>
+  delete(options?: RequestOptions): Promise<void>
   /**
    * Unarchives the object
    * @return Object returned from the server with updated metadata.
@@ -210,7 +215,7 @@ type AssetApi = {
    * .catch(console.error)
    * ```
    */
-  unarchive(): Promise<Asset>
+  unarchive(options?: RequestOptions): Promise<Asset>
   /**
    * Unpublishes the object
    * @return Object returned from the server with updated metadata.
@@ -228,7 +233,7 @@ type AssetApi = {
    * .catch(console.error)
    * ```
    */
-  unpublish(): Promise<Asset>
+  unpublish(options?: RequestOptions): Promise<Asset>
   /**
    * Sends an update to the server with any changes made to the object's properties
    * @return Object returned from the server with updated changes.
@@ -248,8 +253,25 @@ type AssetApi = {
    * .then((asset) => console.log(`Asset ${asset.sys.id} updated.`)
    * .catch(console.error)
    * ```
+   *
+   * With `patch` only the values changed since the asset was fetched are sent, see `patch`:
+   * ```javascript
+   * asset.fields.title['en-US'] = 'New asset title'
+   * asset.update({ patch: true })
+   * ```
+   */
+  update(options?: PatchUpdateOptions): Promise<Asset>
+  /**
+   * Applies JSON Patch (RFC 6902) operations to the asset on the server, based on its `sys.version`
+   * @param operations - Operations with paths like `/fields/title/en-US`, `createPatch` computes them
+   * @return Object returned from the server with updated changes.
+   * @example ```javascript
+   * asset.patch([{ op: 'replace', path: '/fields/title/en-US', value: 'New asset title' }])
+   * .then((asset) => console.log(asset.fields.title['en-US']))
+   * .catch(console.error)
+   * ```
    */
-  update(): Promise<Asset>
+  patch(operations: PatchOperation[], options?: RequestOptions): Promise<Asset>
   /**
    * Checks if the asset is published. A published asset might have unpublished changes
    */
@@ -282,6 +304,7 @@ function createAssetApi(http: AxiosInstance): AssetApi {
     processingCheckWait = ASSET_PROCESSING_CHECK_WAIT,
     processingCheckRetries = ASSET_PROCESSING_CHECK_RETRIES,
     checkCount = 0,
+    signal,
   }: {
     resolve: Function
     reject: Function
@@ -289,8 +312,12 @@ function createAssetApi(http: AxiosInstance): AssetApi {
     locale: string
     checkCount?: number
   } & AssetProcessingForLocale) {
+    if (signal && signal.aborted) {
+      reject(createAbortError())
+      return
+    }
     http
-      .get('assets/' + id)
+      .get('assets/' + id, withRequestOptions({ signal }))
       .then((response) => wrapAsset(http, response.data), errorHandler)
       .then((asset) => {
         if (asset.fields.file[locale].url) {
@@ -312,24 +339,33 @@ function createAssetApi(http: AxiosInstance): AssetApi {
                 checkCount: checkCount,
                 processingCheckWait,
                 processingCheckRetries,
+                signal,
               }),
             processingCheckWait
           )
         }
       })
+      .catch((error) => reject(error))
   }
 
   function processForLocale(
     locale: string,
-    { processingCheckWait, processingCheckRetries }: AssetProcessingForLocale = {}
+    { processingCheckWait, processingCheckRetries, signal }: AssetProcessingForLocale = {}
   ): Promise<Asset> {
     const assetId = this.sys.id
     return http
-      .put('assets/' + this.sys.id + '/files/' + locale + '/process', null, {
-        headers: {
-          'X-Contentful-Version': this.sys.version,
-        },
-      })
+      .put(
+        'assets/' + this.sys.id + '/files/' + locale + '/process',
+        null,
+        withRequestOptions(
+          { signal },
+          {
+            headers: {
+              'X-Contentful-Version': this.sys.version,
+            },
+          }
+        )
+      )
       .then(() => {
         return new Promise((resolve, reject) =>
           checkIfAssetHasUrl({
@@ -339,6 +375,7 @@ function createAssetApi(http: AxiosInstance): AssetApi {
             locale: locale,
             processingCheckWait: processingCheckWait,
             processingCheckRetries: processingCheckRetries,
+            signal,
           })
         )
       }, errorHandler)
@@ -373,6 +410,12 @@ function createAssetApi(http: AxiosInstance): AssetApi {
       wrapperMethod: wrapAsset,
     }),
 
+    patch: createPatchEntity({
+      http: http,
+      entityPath: 'assets',
+      wrapperMethod: wrapAsset,
+    }),
+
     delete: createDeleteEntity({
       http: http,
       entityPath: 'assets',
@@ -425,7 +468,7 @@ function createAssetApi(http: AxiosInstance): AssetApi {
 export function wrapAsset(http: AxiosInstance, data: AssetProps): Asset {
   const asset = toPlainObject(cloneDeep(data))
   const assetWithMethods = enhanceWithMethods(asset, createAssetApi(http))
-  return freezeSys(assetWithMethods)
+  return rememberOriginal(freezeSys(assetWithMethods), data)
 }
 
 /**
@@ -30,10 +30,28 @@ export interface Validation {
     height?: NumRange
   }
   assetFileSize?: NumRange
+  /** Custom error message of the validation */
+  message?: string
 }
 
+/**
+ * Types of content type fields
+ */
+export type ContentFieldType =
+  | 'Symbol'
+  | 'Text'
+  | 'RichText'
+  | 'Integer'
+  | 'Number'
+  | 'Date'
+  | 'Boolean'
+  | 'Object'
+  | 'Location'
+  | 'Link'
+  | 'Array'
+
 export interface Item {
-  type: string
+  type: ContentFieldType
   linkType?: string
   validations?: Validation[]
 }
@@ -45,5 +63,6 @@ export interface ContentFields extends Item {
   localized: boolean
   disabled?: boolean
   omitted?: boolean
+  deleted?: boolean
   items?: Item
 }
@@ -2,7 +2,7 @@ import { AxiosInstance } from 'axios'
 import cloneDeep from 'lodash/cloneDeep'
 import { freezeSys, toPlainObject, createRequestConfig } from 'contentful-sdk-core'
 import enhanceWithMethods from '../enhance-with-methods'
-import { wrapCollection } from '../common-utils'
+import { wrapCollection, withRequestOptions } from '../common-utils'
 import {
   createUpdateEntity,
   createDeleteEntity,
@@ -18,9 +18,19 @@ import { wrapSnapshot, wrapSnapshotCollection, Snapshot } from './snapshot'
 import { Except, SetOptional } from 'type-fest'
 
 import { ContentFields } from './content-type-fields'
-import { MetaSysProps, DefaultElements, Collection, QueryOptions } from '../common-types'
+import {
+  MetaSysProps,
+  DefaultElements,
+  Collection,
+  QueryOptions,
+  RequestOptions,
+} from '../common-types'
 import { EditorInterface } from './editor-interface'
 import { SnapshotProps } from './snapshot'
+import { EntryProp } from './entry'
+import { validateEntry, ValidateEntryOptions } from '../entry-validation'
+import { clearContentType } from '../localization'
+import { ValidationErrorRecord } from '../validation-errors'
 
 export type ContentTypeProps = {
   sys: MetaSysProps
@@ -62,7 +72,7 @@ type ContentTypeApi = {
    * .catch(console.error)
    * ```
    */
-  update(): Promise<ContentType>
+  update(options?: RequestOptions): Promise<ContentType>
 
   /**
    * Deletes this object on the server.
@@ -81,7 +91,7 @@ type ContentTypeApi = {
    * .catch(console.error)
    * ```
    */
-  delete(): Promise<void>
+  delete(options?: RequestOptions): Promise<void>
   /**
    * Publishes the object
    * @return Object returned from the server with updated metadata.
@@ -99,7 +109,7 @@ type ContentTypeApi = {
    * .catch(console.error)
    * ```
    */
-  publish(): Promise<ContentType>
+  publish(options?: RequestOptions): Promise<ContentType>
   /**
    * Unpublishes the object
    * @return Object returned from the server with updated metadata.
@@ -117,7 +127,7 @@ type ContentTypeApi = {
    * .catch(console.error)
    * ```
    */
-  unpublish(): Promise<ContentType>
+  unpublish(options?: RequestOptions): Promise<ContentType>
   /**
    * Gets the editor interface for the object <br />
    * <strong>Important note</strong>: The editor interface only represent a published contentType.<br />
@@ -137,7 +147,7 @@ type ContentTypeApi = {
    * .catch(console.error)
    * ```
    */
-  getEditorInterface(): Promise<EditorInterface>
+  getEditorInterface(options?: RequestOptions): Promise<EditorInterface>
   /**
    * Checks if the contentType is in draft mode. This means it is not published.
    */
@@ -151,12 +161,44 @@ type ContentTypeApi = {
    */
   isUpdated(): boolean
 
+  /**
+   * Checks the fields of an entry against the fields of the content type without sending a
+   * request: required values, field types, unknown fields and locales, and the validations of
+   * the fields except `unique`, `assetFileSize` and `assetImageDimensions`. The errors have
+   * the format of the `validationErrors` of the errors the API responds with.
+   * @param entry - The entry or its data
+   * @param options.locales - Locales of the environment, required values are checked for the
+   * default locale and the locales which are not optional
+   * @param options.linkedEntities - Linked entries and assets to check `linkContentType` and
+   * `linkMimetypeGroup` against
+   * @return The validation errors, empty when the entry is valid
+   * @example ```javascript
+   * const { formatValidationErrors } = require('contentful-management')
+   *
+   * const [contentType, locales] = await Promise.all([
+   *   environment.getContentType('<content_type_id>'),
+   *   environment.getLocales(),
+   * ])
+   * // a required title without a value for the default locale en-US is reported as missing
+   * const errors = contentType.validateEntry({ fields: { title: { 'de-DE': 'Titel' } } }, {
+   *   locales: locales.items,
+   * })
+   * if (errors.length) {
+   *   console.log(formatValidationErrors(errors))
+   * }
+   * ```
+   */
+  validateEntry(
+    entry: Pick<EntryProp, 'fields'>,
+    options?: ValidateEntryOptions
+  ): ValidationErrorRecord[]
+
   /**
    * Omits and deletes a field if it exists on the contentType. This is a convenience method which does both operations at once and potentially less
    * safe than the standard way. See note about deleting fields on the Update method.
    * @return Object returned from the server with updated metadata.
    */
-  omitAndDeleteField(id: string): Promise<ContentType>
+  omitAndDeleteField(id: string, options?: RequestOptions): Promise<ContentType>
 
   /**
    * Gets a snapshot of a contentType
@@ -175,7 +217,7 @@ type ContentTypeApi = {
    * .catch(console.error)
    * ```
    */
-  getSnapshot(id: string): Promise<SnapshotProps<ContentTypeProps>>
+  getSnapshot(id: string, options?: RequestOptions): Promise<SnapshotProps<ContentTypeProps>>
   /**
    * Gets all snapshots of a contentType
    * @example ```javascript
@@ -192,7 +234,10 @@ type ContentTypeApi = {
    * .catch(console.error)
    * ```
    */
-  getSnapshots(): Promise<Collection<Snapshot<ContentTypeProps>, SnapshotProps<ContentTypeProps>>>
+  getSnapshots(
+    query?: QueryOptions,
+    options?: RequestOptions
+  ): Promise<Collection<Snapshot<ContentTypeProps>, SnapshotProps<ContentTypeProps>>>
 }
 
 export interface ContentType
@@ -200,49 +245,79 @@ export interface ContentType
     DefaultElements<ContentTypeProps>,
     ContentTypeApi {}
 
+/**
+ * Drops the content type cached for the field accessors of entries once the action succeeded
+ */
+function clearingCache<A extends unknown[], R>(
+  http: AxiosInstance,
+  action: (...args: A) => Promise<R>
+) {
+  return function (this: ContentType, ...args: A) {
+    return action.apply(this, args).then((result) => {
+      clearContentType(http, this.sys.id)
+      return result
+    })
+  }
+}
+
 function createContentTypeApi(http: AxiosInstance): ContentTypeApi {
   return {
-    update: createUpdateEntity({
-      http: http,
-      entityPath: 'content_types',
-      wrapperMethod: wrapContentType,
-    }),
+    update: clearingCache(
+      http,
+      createUpdateEntity({
+        http: http,
+        entityPath: 'content_types',
+        wrapperMethod: wrapContentType,
+      })
+    ),
 
-    delete: createDeleteEntity({
-      http: http,
-      entityPath: 'content_types',
-    }),
+    delete: clearingCache(
+      http,
+      createDeleteEntity({
+        http: http,
+        entityPath: 'content_types',
+      })
+    ),
 
-    publish: createPublishEntity({
-      http: http,
-      entityPath: 'content_types',
-      wrapperMethod: wrapContentType,
-    }),
+    publish: clearingCache(
+      http,
+      createPublishEntity({
+        http: http,
+        entityPath: 'content_types',
+        wrapperMethod: wrapContentType,
+      })
+    ),
 
-    unpublish: createUnpublishEntity({
-      http: http,
-      entityPath: 'content_types',
-      wrapperMethod: wrapContentType,
-    }),
+    unpublish: clearingCache(
+      http,
+      createUnpublishEntity({
+        http: http,
+        entityPath: 'content_types',
+        wrapperMethod: wrapContentType,
+      })
+    ),
 
-    getEditorInterface: function () {
+    getEditorInterface: function (options?: RequestOptions) {
       return http
-        .get('content_types/' + this.sys.id + '/editor_interface')
+        .get('content_types/' + this.sys.id + '/editor_interface', withRequestOptions(options))
         .then((response) => wrapEditorInterface(http, response.data), errorHandler)
     },
 
-    getSnapshots: function (query: QueryOptions = {}) {
+    getSnapshots: function (query: QueryOptions = {}, options?: RequestOptions) {
       return http
-        .get(`content_types/${this.sys.id}/snapshots`, createRequestConfig({ query: query }))
+        .get(
+          `content_types/${this.sys.id}/snapshots`,
+          withRequestOptions(options, createRequestConfig({ query: query }))
+        )
         .then(
           (response) => wrapSnapshotCollection<ContentTypeProps>(http, response.data),
           errorHandler
         )
     },
 
-    getSnapshot: function (snapshotId: string) {
+    getSnapshot: function (snapshotId: string, options?: RequestOptions) {
       return http
-        .get(`content_types/${this.sys.id}/snapshots/${snapshotId}`)
+        .get(`content_types/${this.sys.id}/snapshots/${snapshotId}`, withRequestOptions(options))
         .then((response) => wrapSnapshot<ContentTypeProps>(http, response.data), errorHandler)
     },
 
@@ -252,9 +327,13 @@ function createContentTypeApi(http: AxiosInstance): ContentTypeApi {
 
     isDraft: createDraftChecker(),
 
-    omitAndDeleteField: function (id: string) {
-      return findAndUpdateField(this as ContentType, id, 'omitted', true)
-        .then((newContentType) => findAndUpdateField(newContentType, id, 'deleted', true))
+    validateEntry: function (entry: Pick<EntryProp, 'fields'>, options?: ValidateEntryOptions) {
+      return validateEntry(this, entry, options)
+    },
+
+    omitAndDeleteField: function (id: string, options?: RequestOptions) {
+      return findAndUpdateField(this as ContentType, id, 'omitted', true, options)
+        .then((newContentType) => findAndUpdateField(newContentType, id, 'deleted', true, options))
         .catch(errorHandler)
     },
   }
@@ -265,12 +344,14 @@ function createContentTypeApi(http: AxiosInstance): ContentTypeApi {
  * @param id - unique ID of the field
  * @param key - the attribute on the field to change
  * @param value - the value to set the attribute to
+ * @param options - request options of the update
  */
 const findAndUpdateField = function (
   contentType: ContentType,
   id: string,
   key: string,
-  value: any
+  value: any,
+  options?: RequestOptions
 ) {
   const field = contentType.fields.find((field) => field.id === id)
   if (!field) {
@@ -282,7 +363,7 @@ const findAndUpdateField = function (
   }
   // @ts-expect-error
   field[key] = value
-  return contentType.update()
+  return contentType.update(options)
 }
 
 /**
@@ -3,7 +3,8 @@ import { freezeSys, toPlainObject } from 'contentful-sdk-core'
 import enhanceWithMethods from '../enhance-with-methods'
 import errorHandler from '../error-handler'
 import { AxiosInstance } from 'axios'
-import { MetaSysProps, MetaLinkProps, DefaultElements } from '../common-types'
+import { MetaSysProps, MetaLinkProps, DefaultElements, RequestOptions } from '../common-types'
+import { withRequestOptions } from '../common-utils'
 
 export interface Control {
   /**
@@ -74,12 +75,12 @@ export interface EditorInterface
    * .catch(console.error)
    * ```
    */
-  update(): Promise<EditorInterface>
+  update(options?: RequestOptions): Promise<EditorInterface>
 }
 
 function createEditorInterfaceApi(http: AxiosInstance) {
   return {
-    update: function () {
+    update: function (options?: RequestOptions) {
       const self = this as EditorInterface
       const raw = self.toPlainObject()
       const data = cloneDeep(raw)
@@ -88,9 +89,9 @@ function createEditorInterfaceApi(http: AxiosInstance) {
         .put<EditorInterfaceProps>(
           `content_types/${self.sys.contentType.sys.id}/editor_interface`,
           data,
-          {
+          withRequestOptions(options, {
             headers: { 'X-Contentful-Version': self.sys.version },
-          }
+          })
         )
         .then((response) => wrapEditorInterface(http, response.data), errorHandler)
     },
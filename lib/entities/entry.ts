@@ -1,10 +1,11 @@
 import { AxiosInstance } from 'axios'
 import cloneDeep from 'lodash/cloneDeep'
-import { freezeSys, toPlainObject, createRequestConfig } from 'contentful-sdk-core'
+import { freezeSys, createRequestConfig } from 'contentful-sdk-core'
 import enhanceWithMethods from '../enhance-with-methods'
-import { wrapCollection } from '../common-utils'
+import { wrapCollection, withRequestOptions, toPlainObjectWithLinks } from '../common-utils'
 import {
   createUpdateEntity,
+  createPatchEntity,
   createDeleteEntity,
   createPublishEntity,
   createUnpublishEntity,
@@ -16,13 +17,33 @@ import {
   createArchivedChecker,
 } from '../instance-actions'
 import errorHandler from '../error-handler'
+import { NotFoundError } from '../errors'
+import { updateWithConflictResolution, UpdateOptions } from '../conflict-resolution'
+import { createPatch, getOriginal, PatchOperation, rememberOriginal } from '../json-patch'
+import {
+  FieldValueOptions,
+  getFieldValue,
+  getLocalizedView,
+  setFieldValue,
+  SetFieldValueOptions,
+} from '../localization'
+import { DiffableEntry, diffEntries, EntryFieldChange } from '../entry-diff'
+import {
+  buildReferenceTree,
+  EntryReferenceProps,
+  EntryReferenceQueryOptions,
+  ReferenceTree,
+} from '../references'
 import { wrapSnapshot, wrapSnapshotCollection, SnapshotProps, Snapshot } from './snapshot'
+import { wrapAsset, AssetProps } from './asset'
 import {
   MetaSysProps,
   MetaLinkProps,
   DefaultElements,
   Collection,
   MetadataProps,
+  QueryOptions,
+  RequestOptions,
 } from '../common-types'
 
 export interface EntrySys extends MetaSysProps {
@@ -61,8 +82,48 @@ type EntryApi = {
    * .then((entry) => console.log(`Entry ${entry.sys.id} updated.`))
    * .catch(console.error)
    * ```
+   *
+   * When the entry was changed on the server in the meantime, the update fails with a
+   * `VersionMismatchError` unless `onConflict` is set. With `'merge'` or a resolver function
+   * the local and the server changes are merged per field and locale, based on the newest
+   * snapshot the local entry is derived from:
+   * ```javascript
+   * entry.update({
+   *   onConflict: ({ fieldId, locale, base, local, remote }) => `${local} ${remote}`,
+   *   maxAttempts: 3,
+   * })
+   * ```
+   *
+   * With `patch` only the values changed since the entry was fetched are sent, see `patch`:
+   * ```javascript
+   * entry.fields.title['en-US'] = 'New entry title'
+   * entry.update({ patch: true })
+   * ```
    */
-  update(): Promise<Entry>
+  update(options?: UpdateOptions): Promise<Entry>
+  /**
+   * Applies JSON Patch (RFC 6902) operations to the entry on the server, based on its `sys.version`
+   * @param operations - Operations with paths like `/fields/title/en-US`, `createPatch` computes them
+   * @return Object returned from the server with updated changes.
+   * @example ```javascript
+   * const contentful = require('contentful-management')
+   *
+   * const client = contentful.createClient({
+   *   accessToken: '<content_management_api_key>'
+   * })
+   *
+   * client.getSpace('<space_id>')
+   * .then((space) => space.getEnvironment('<environment_id>'))
+   * .then((environment) => environment.getEntry('<entry_id>'))
+   * .then((entry) => entry.patch([
+   *   { op: 'replace', path: '/fields/title/en-US', value: 'New entry title' },
+   *   { op: 'remove', path: '/fields/subtitle' },
+   * ]))
+   * .then((entry) => console.log(`Entry ${entry.sys.id} patched.`))
+   * .catch(console.error)
+   * ```
+   */
+  patch(operations: PatchOperation[], options?: RequestOptions): Promise<Entry>
   /**
    * Archives the object
    * @return Object returned from the server with updated metadata.
@@ -80,7 +141,7 @@ type EntryApi = {
    * .catch(console.error)
    * ```
    */
-  archive(): Promise<Entry>
+  archive(options?: RequestOptions): Promise<Entry>
 
   /**
    * Deletes this object on the server.
@@ -99,7 +160,7 @@ type EntryApi = {
    * .catch(console.error)
    * ```
    */
-  delete(): Promise<void>
+  delete(options?: RequestOptions): Promise<void>
   /**
    * Publishes the object
    * @return Object returned from the server with updated metadata.
@@ -117,7 +178,7 @@ type EntryApi = {
    * .catch(console.error)
    * ```
    */
-  publish(): Promise<Entry>
+  publish(options?: RequestOptions): Promise<Entry>
 
   /**
    * Unarchives the object
@@ -136,7 +197,7 @@ type EntryApi = {
    * .catch(console.error)
    * ```
    */
-  unarchive(): Promise<Entry>
+  unarchive(options?: RequestOptions): Promise<Entry>
   /**
    * Unpublishes the object
    * @return Object returned from the server with updated metadata.
@@ -154,7 +215,7 @@ type EntryApi = {
    * .catch(console.error)
    * ```
    */
-  unpublish(): Promise<Entry>
+  unpublish(options?: RequestOptions): Promise<Entry>
 
   /**
    * Gets a snapshot of an entry
@@ -173,7 +234,7 @@ type EntryApi = {
    * .catch(console.error)
    * ```
    */
-  getSnapshot(id: string): Promise<Snapshot<EntryProp>>
+  getSnapshot(id: string, options?: RequestOptions): Promise<Snapshot<EntryProp>>
   /**
    * Gets all snapshots of an entry
    * @example ```javascript
@@ -190,7 +251,51 @@ type EntryApi = {
    * .catch(console.error)
    * ```
    */
-  getSnapshots(): Promise<Collection<Snapshot<EntryProp>, SnapshotProps<EntryProp>>>
+  getSnapshots(
+    query?: QueryOptions,
+    options?: RequestOptions
+  ): Promise<Collection<Snapshot<EntryProp>, SnapshotProps<EntryProp>>>
+  /**
+   * Gets the entries and assets the entry references, up to `include` levels deep, as a
+   * tree which `traverseReferences` walks. Links in rich text fields are part of the tree.
+   * @param query.include - Levels of references to include
+   * @return Promise for the reference tree with the entry as its root
+   * @example ```javascript
+   * const contentful = require('contentful-management')
+   *
+   * const client = contentful.createClient({
+   *   accessToken: '<content_management_api_key>'
+   * })
+   *
+   * client.getSpace('<space_id>')
+   * .then((space) => space.getEnvironment('<environment_id>'))
+   * .then((environment) => environment.getEntry('<entry_id>'))
+   * .then((entry) => entry.getReferences({ include: 2 }))
+   * .then((tree) => traverseReferences(tree, (node) => console.log(node.depth, node.link.sys.id)))
+   * .catch(console.error)
+   * ```
+   */
+  getReferences(
+    query?: EntryReferenceQueryOptions,
+    options?: RequestOptions
+  ): Promise<ReferenceTree>
+  /**
+   * Lists the changes of the values of every field and locale from another version of the
+   * entry, or a snapshot of it, to this entry. `renderEntryDiff` describes them as text.
+   * @param other - An earlier version of the entry or a snapshot of it
+   * @return Changes ordered by field and locale
+   * @example ```javascript
+   * const { renderEntryDiff } = require('contentful-management')
+   *
+   * client.getSpace('<space_id>')
+   * .then((space) => space.getEnvironment('<environment_id>'))
+   * .then((environment) => environment.getEntry('<entry_id>'))
+   * .then((entry) => entry.getSnapshots().then((snapshots) => entry.diff(snapshots.items[0])))
+   * .then((changes) => console.log(renderEntryDiff(changes)))
+   * .catch(console.error)
+   * ```
+   */
+  diff(other: DiffableEntry): EntryFieldChange[]
   /**
    * Checks if entry is archived. This means it's not exposed to the Delivery/Preview APIs.
    */
@@ -208,17 +313,108 @@ type EntryApi = {
    * Checks if the entry is updated. This means the entry was previously published but has unpublished changes.
    */
   isUpdated(): boolean
+  /**
+   * Gets the value of a field for a locale. Fields which are not localized have their value
+   * for every locale. The locales and the content type are requested once per environment and
+   * requested again after changes through this client, `environment.getLocales()` and
+   * `environment.getContentType()` refresh them.
+   * @param fieldId - ID of the field
+   * @param locale - Code of the locale
+   * @param options.fallback - Follows the fallback locales until one has a value
+   * @return Promise for the value, undefined when no locale of the chain has one
+   * @example ```javascript
+   * // 'de-CH' falls back to 'de-DE'
+   * entry.getFieldValue('title', 'de-CH', { fallback: true })
+   * .then((title) => console.log(title))
+   * ```
+   */
+  getFieldValue(fieldId: string, locale: string, options?: FieldValueOptions): Promise<unknown>
+  /**
+   * Sets the value of a field for a locale on this object, call `update` to save it.
+   * Rejects with a `FieldNotLocalized` error for other locales than the default locale when
+   * the field is not localized, unless `redirect` is set to write the default locale instead.
+   * @param fieldId - ID of the field
+   * @param locale - Code of the locale
+   * @param value - The new value
+   * @return Promise for this entry
+   * @example ```javascript
+   * entry.setFieldValue('title', 'de-DE', 'Neuer Titel')
+   * .then((entry) => entry.update())
+   * ```
+   */
+  setFieldValue(
+    fieldId: string,
+    locale: string,
+    value: unknown,
+    options?: SetFieldValueOptions
+  ): Promise<Entry>
+  /**
+   * Gets the values of all fields for a locale, following the fallback locales unless
+   * `fallback` is set to false
+   * @param locale - Code of the locale
+   * @return Promise for an object with the field IDs as keys
+   * @example ```javascript
+   * entry.getLocalizedView('de-DE')
+   * .then((fields) => console.log(fields.title))
+   * ```
+   */
+  getLocalizedView(locale: string, options?: FieldValueOptions): Promise<Record<string, unknown>>
 }
 
 export interface Entry extends EntryProp, DefaultElements<EntryProp>, EntryApi {}
 
 function createEntryApi(http: AxiosInstance): EntryApi {
+  const updateEntry = createUpdateEntity({
+    http: http,
+    entityPath: 'entries',
+    wrapperMethod: wrapEntry,
+  })
+  const patchEntry = createPatchEntity({
+    http: http,
+    entityPath: 'entries',
+    wrapperMethod: wrapEntry,
+  })
+
   return {
-    update: createUpdateEntity({
-      http: http,
-      entityPath: 'entries',
-      wrapperMethod: wrapEntry,
-    }),
+    update: function (options?: UpdateOptions) {
+      if (!options || !options.onConflict) {
+        return updateEntry.call(this, options)
+      }
+      const self = this as Entry
+      const original = options.patch && getOriginal(self)
+      // retried patches only change the local changes, merged entries are sent as a whole
+      const operations =
+        original && options.onConflict === 'retry'
+          ? createPatch(original as EntryProp, self.toPlainObject())
+          : undefined
+      if (operations && operations.length === 0) {
+        return Promise.resolve(self)
+      }
+      return updateWithConflictResolution<EntryProp, Entry>(self.toPlainObject(), options, {
+        original: getOriginal(self) as EntryProp | undefined,
+        update: (data) =>
+          operations
+            ? patchEntry.call(wrapEntry(http, data), operations, options)
+            : updateEntry.call(wrapEntry(http, data), { ...options, patch: false }),
+        getRemote: () =>
+          http
+            .get<EntryProp>(`entries/${self.sys.id}`, withRequestOptions(options))
+            .then((response) => response.data, errorHandler),
+        getSnapshots: () =>
+          self.getSnapshots({}, options).then(
+            (snapshots) => snapshots.items.map((snapshot) => snapshot.snapshot),
+            (error) => {
+              // without snapshots every value changed on both sides is a conflict
+              if (error instanceof NotFoundError) {
+                return []
+              }
+              throw error
+            }
+          ),
+      })
+    },
+
+    patch: patchEntry,
 
     delete: createDeleteEntity({
       http: http,
@@ -249,18 +445,43 @@ function createEntryApi(http: AxiosInstance): EntryApi {
       wrapperMethod: wrapEntry,
     }),
 
-    getSnapshots: function (query = {}) {
+    getSnapshots: function (query = {}, options?: RequestOptions) {
       return http
-        .get(`entries/${this.sys.id}/snapshots`, createRequestConfig({ query: query }))
+        .get(
+          `entries/${this.sys.id}/snapshots`,
+          withRequestOptions(options, createRequestConfig({ query: query }))
+        )
         .then((response) => wrapSnapshotCollection<EntryProp>(http, response.data), errorHandler)
     },
 
-    getSnapshot: function (snapshotId: string) {
+    getSnapshot: function (snapshotId: string, options?: RequestOptions) {
       return http
-        .get(`entries/${this.sys.id}/snapshots/${snapshotId}`)
+        .get(`entries/${this.sys.id}/snapshots/${snapshotId}`, withRequestOptions(options))
         .then((response) => wrapSnapshot<EntryProp>(http, response.data), errorHandler)
     },
 
+    getReferences: function (query: EntryReferenceQueryOptions = {}, options?: RequestOptions) {
+      const entryId = this.sys.id
+      return http
+        .get<EntryReferenceProps>(
+          `entries/${entryId}/references`,
+          withRequestOptions(options, createRequestConfig({ query: query }))
+        )
+        .then(
+          (response) =>
+            buildReferenceTree(entryId, response.data, (entity) =>
+              entity.sys.type === 'Asset'
+                ? wrapAsset(http, entity as AssetProps)
+                : wrapEntry(http, entity as EntryProp)
+            ),
+          errorHandler
+        )
+    },
+
+    diff: function (other: DiffableEntry) {
+      return diffEntries(other, this)
+    },
+
     isPublished: createPublishedChecker(),
 
     isUpdated: createUpdatedChecker(),
@@ -268,6 +489,23 @@ function createEntryApi(http: AxiosInstance): EntryApi {
     isDraft: createDraftChecker(),
 
     isArchived: createArchivedChecker(),
+
+    getFieldValue: function (fieldId: string, locale: string, options?: FieldValueOptions) {
+      return getFieldValue(http, this, fieldId, locale, options)
+    },
+
+    setFieldValue: function (
+      fieldId: string,
+      locale: string,
+      value: unknown,
+      options?: SetFieldValueOptions
+    ) {
+      return setFieldValue(http, this, fieldId, locale, value, options).then(() => this)
+    },
+
+    getLocalizedView: function (locale: string, options?: FieldValueOptions) {
+      return getLocalizedView(http, this, locale, options)
+    },
   }
 }
 
@@ -278,9 +516,9 @@ function createEntryApi(http: AxiosInstance): EntryApi {
  * @return Wrapped entry data
  */
 export function wrapEntry(http: AxiosInstance, data: EntryProp): Entry {
-  const entry = toPlainObject(cloneDeep(data))
+  const entry = toPlainObjectWithLinks(cloneDeep(data))
   const entryWithMethods = enhanceWithMethods(entry, createEntryApi(http))
-  return freezeSys(entryWithMethods)
+  return rememberOriginal(freezeSys(entryWithMethods), data)
 }
 
 /**
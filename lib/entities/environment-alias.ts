@@ -3,7 +3,7 @@ import { freezeSys, toPlainObject } from 'contentful-sdk-core'
 import enhanceWithMethods from '../enhance-with-methods'
 import { createUpdateEntity, createDeleteEntity } from '../instance-actions'
 import { wrapCollection } from '../common-utils'
-import { DefaultElements, MetaLinkProps, MetaSysProps } from '../common-types'
+import { DefaultElements, MetaLinkProps, MetaSysProps, RequestOptions } from '../common-types'
 import { AxiosInstance } from 'axios'
 
 export type EnvironmentAliasProps = {
@@ -39,7 +39,7 @@ export interface EnvironmentAlias
    * .catch(console.error)
    * ```
    */
-  update(): Promise<EnvironmentAlias>
+  update(options?: RequestOptions): Promise<EnvironmentAlias>
 
   /**
    * Deletes this object on the server.
@@ -62,7 +62,7 @@ export interface EnvironmentAlias
    * .catch(console.error)
    * ```
    */
-  delete(): Promise<void>
+  delete(options?: RequestOptions): Promise<void>
 }
 
 function createEnvironmentAliasApi(http: AxiosInstance) {
@@ -5,7 +5,8 @@ import { Except, SetOptional } from 'type-fest'
 import enhanceWithMethods from '../enhance-with-methods'
 import { wrapCollection } from '../common-utils'
 import { createUpdateEntity, createDeleteEntity } from '../instance-actions'
-import { MetaSysProps, DefaultElements } from '../common-types'
+import { MetaSysProps, DefaultElements, RequestOptions } from '../common-types'
+import { clearLocales } from '../localization'
 
 export type LocaleProps = {
   sys: MetaSysProps
@@ -62,7 +63,7 @@ export interface Locale extends LocaleProps, DefaultElements<LocaleProps> {
    * .catch(console.error)
    * ```
    */
-  delete(): Promise<void>
+  delete(options?: RequestOptions): Promise<void>
   /**
    * Sends an update to the server with any changes made to the object's properties
    * @return Object returned from the server with updated changes.
@@ -83,25 +84,35 @@ export interface Locale extends LocaleProps, DefaultElements<LocaleProps> {
    * .catch(console.error)
    * ```
    */
-  update(): Promise<Locale>
+  update(options?: RequestOptions): Promise<Locale>
 }
 
 function createLocaleApi(http: AxiosInstance) {
+  const deleteLocale = createDeleteEntity({
+    http: http,
+    entityPath: 'locales',
+  })
+
+  // the locales cached for the field accessors of entries are requested again after changes
   return {
-    update: function () {
+    update: function (options?: RequestOptions) {
       const self = this as Locale
       delete self.default // we should not send this back
       return createUpdateEntity({
         http: http,
         entityPath: 'locales',
         wrapperMethod: wrapLocale,
-      }).call(self)
+      })
+        .call(self, options)
+        .then((locale) => {
+          clearLocales(http)
+          return locale
+        })
     },
 
-    delete: createDeleteEntity({
-      http: http,
-      entityPath: 'locales',
-    }),
+    delete: function (options?: RequestOptions) {
+      return deleteLocale.call(this, options).then(() => clearLocales(http))
+    },
   }
 }
 
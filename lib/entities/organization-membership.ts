@@ -4,8 +4,8 @@ import { freezeSys, toPlainObject } from 'contentful-sdk-core'
 import enhanceWithMethods from '../enhance-with-methods'
 import errorHandler from '../error-handler'
 import { createDeleteEntity } from '../instance-actions'
-import { wrapCollection } from '../common-utils'
-import { MetaSysProps, DefaultElements } from '../common-types'
+import { wrapCollection, withRequestOptions } from '../common-utils'
+import { MetaSysProps, DefaultElements, RequestOptions } from '../common-types'
 
 export type OrganizationMembershipProps = {
   /**
@@ -45,7 +45,7 @@ export interface OrganizationMembership
    * })
    * .catch(console.error)
    */
-  update(): Promise<OrganizationMembership>
+  update(options?: RequestOptions): Promise<OrganizationMembership>
 
   /**
    * Deletes this object on the server.
@@ -64,12 +64,12 @@ export interface OrganizationMembership
    * .catch(console.error)
    * ```
    */
-  delete(): Promise<void>
+  delete(options?: RequestOptions): Promise<void>
 }
 
 function createOrganizationMembershipApi(http: AxiosInstance) {
   return {
-    update: function () {
+    update: function (options?: RequestOptions) {
       const self = this as OrganizationMembership
       const raw = self.toPlainObject()
       const { role } = raw
@@ -78,11 +78,11 @@ function createOrganizationMembershipApi(http: AxiosInstance) {
         .put(
           'organization_memberships' + '/' + self.sys.id,
           { role },
-          {
+          withRequestOptions(options, {
             headers: {
               'X-Contentful-Version': self.sys.version || 0,
             },
-          }
+          })
         )
         .then((response) => wrapOrganizationMembership(http, response.data), errorHandler)
     },
@@ -3,8 +3,8 @@ import cloneDeep from 'lodash/cloneDeep'
 import { freezeSys, toPlainObject } from 'contentful-sdk-core'
 import enhanceWithMethods from '../enhance-with-methods'
 import errorHandler from '../error-handler'
-import { wrapCollection } from '../common-utils'
-import { MetaSysProps, DefaultElements } from '../common-types'
+import { wrapCollection, withRequestOptions } from '../common-utils'
+import { MetaSysProps, DefaultElements, RequestOptions } from '../common-types'
 
 export type PersonalAccessTokenProp = {
   sys: MetaSysProps
@@ -36,17 +36,21 @@ export interface PersonalAccessToken
    *  .catch(console.error)
    * ```
    */
-  revoke(): Promise<PersonalAccessToken>
+  revoke(options?: RequestOptions): Promise<PersonalAccessToken>
 }
 
 function createPersonalAccessToken(http: AxiosInstance) {
   return {
-    revoke: function () {
+    revoke: function (options?: RequestOptions) {
       const baseURL = (http.defaults.baseURL || '').replace('/spaces/', '/users/me/access_tokens')
       return http
-        .put(`${this.sys.id}/revoked`, null, {
-          baseURL,
-        })
+        .put(
+          `${this.sys.id}/revoked`,
+          null,
+          withRequestOptions(options, {
+            baseURL,
+          })
+        )
         .then((response) => response.data, errorHandler)
     },
   }
@@ -4,7 +4,7 @@ import { freezeSys, toPlainObject } from 'contentful-sdk-core'
 import enhanceWithMethods from '../enhance-with-methods'
 import { wrapCollection } from '../common-utils'
 import { createUpdateEntity, createDeleteEntity } from '../instance-actions'
-import { MetaSysProps, DefaultElements } from '../common-types'
+import { MetaSysProps, DefaultElements, RequestOptions } from '../common-types'
 
 export type ActionType =
   | 'read'
@@ -61,7 +61,7 @@ export interface Role extends RoleProps, DefaultElements<RoleProps> {
    * .catch(console.error)
    * ```
    */
-  delete(): Promise<void>
+  delete(options?: RequestOptions): Promise<void>
   /**
    * Sends an update to the server with any changes made to the object's properties
    * @return Object returned from the server with updated changes.
@@ -82,7 +82,7 @@ export interface Role extends RoleProps, DefaultElements<RoleProps> {
    * .catch(console.error)
    * ```
    */
-  update(): Promise<Role>
+  update(options?: RequestOptions): Promise<Role>
 }
 
 function createRoleApi(http: AxiosInstance) {
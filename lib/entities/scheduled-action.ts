@@ -6,10 +6,12 @@ import {
   MetaSysProps,
   ISO8601Timestamp,
   BasicCursorPaginationOptions,
+  CursorCollectionProp,
   MetaLinkProps,
   Link,
+  RequestOptions,
 } from '../common-types'
-import { wrapCollection } from '../common-utils'
+import { wrapCursorCollection, withRequestOptions } from '../common-utils'
 import enhanceWithMethods from '../enhance-with-methods'
 import errorHandler from '../error-handler'
 
@@ -54,14 +56,7 @@ export type ScheduledActionProps = {
   }
 }
 
-export interface ScheduledActionCollection {
-  sys: {
-    type: 'Array'
-  }
-  pages: BasicCursorPaginationOptions
-  limit: number
-  items: ScheduledActionProps[]
-}
+export type ScheduledActionCollection = CursorCollectionProp<ScheduledActionProps>
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 export interface ScheduledActionQueryOptions extends BasicCursorPaginationOptions {
@@ -72,7 +67,7 @@ export interface ScheduledActionQueryOptions extends BasicCursorPaginationOption
 type ThisContext = ScheduledActionProps & DefaultElements<ScheduledActionProps>
 
 type ScheduledActionApi = {
-  delete(): Promise<ScheduledAction>
+  delete(options?: RequestOptions): Promise<ScheduledAction>
 }
 
 export interface ScheduledAction
@@ -80,11 +75,13 @@ export interface ScheduledAction
     DefaultElements<ScheduledActionProps>,
     ScheduledActionApi {}
 
-export function createDeleteScheduledAction(http: AxiosInstance): () => Promise<ScheduledAction> {
-  return function (): Promise<ScheduledAction> {
+export function createDeleteScheduledAction(
+  http: AxiosInstance
+): (options?: RequestOptions) => Promise<ScheduledAction> {
+  return function (options?: RequestOptions): Promise<ScheduledAction> {
     const self = this as ThisContext
     return http
-      .delete('scheduled_actions/' + self.sys.id)
+      .delete('scheduled_actions/' + self.sys.id, withRequestOptions(options))
       .then((response) => wrapScheduledAction(http, response.data), errorHandler)
   }
 }
@@ -107,4 +104,4 @@ export function wrapScheduledAction(
   return freezeSys(scheduledActionWithMethods)
 }
 
-export const wrapScheduledActionCollection = wrapCollection(wrapScheduledAction)
+export const wrapScheduledActionCollection = wrapCursorCollection(wrapScheduledAction)
@@ -2,8 +2,13 @@ import { AxiosInstance } from 'axios'
 import cloneDeep from 'lodash/cloneDeep'
 import { freezeSys, toPlainObject } from 'contentful-sdk-core'
 import enhanceWithMethods from '../enhance-with-methods'
-import { wrapCollection } from '../common-utils'
-import { MetaSysProps, DefaultElements } from '../common-types'
+import { wrapCollection, withRequestOptions } from '../common-utils'
+import { MetaSysProps, DefaultElements, RequestOptions } from '../common-types'
+import errorHandler from '../error-handler'
+import { diffEntries, EntryFieldChange } from '../entry-diff'
+import { createPatch, PatchOperation } from '../json-patch'
+import { wrapEntry, Entry, EntryProp } from './entry'
+import { wrapContentType, ContentType, ContentTypeProps } from './content-type'
 
 export type SnapshotProps<T> = {
   sys: MetaSysProps & {
@@ -13,22 +18,159 @@ export type SnapshotProps<T> = {
   snapshot: T
 }
 
-export interface Snapshot<T> extends SnapshotProps<T>, DefaultElements<SnapshotProps<T>> {}
+export interface RestoreSnapshotOptions extends RequestOptions {
+  /**
+   * Publishes the entity after restoring it
+   * @default false
+   */
+  publish?: boolean
+  /**
+   * Resolves with the changes restoring would make instead of updating the entity
+   * @default false
+   */
+  dryRun?: boolean
+}
+
+/**
+ * Result of `restore`, the changes for a dry run and the updated entity otherwise
+ */
+export type RestoreSnapshotResult<T, O extends RestoreSnapshotOptions> = O extends {
+  dryRun: true
+}
+  ? T extends EntryProp
+    ? EntryFieldChange[]
+    : PatchOperation[]
+  : T extends EntryProp
+  ? Entry
+  : ContentType
+
+type SnapshotApi<T> = {
+  /**
+   * Applies the snapshot onto the current version of the entry or content type and
+   * updates it. The fields of entries are restored, and the name, description, display
+   * field and fields of content types.
+   * @param options.publish - Publishes the restored entity
+   * @param options.dryRun - Resolves with the changes which would be applied instead, as
+   * a list of field changes for entries and JSON Patch operations for content types
+   * @return Promise for the updated entity, or the changes for a dry run
+   * @example ```javascript
+   * const contentful = require('contentful-management')
+   *
+   * const client = contentful.createClient({
+   *   accessToken: '<content_management_api_key>'
+   * })
+   *
+   * client.getSpace('<space_id>')
+   * .then((space) => space.getEnvironment('<environment_id>'))
+   * .then((environment) => environment.getEntry('<entry_id>'))
+   * .then((entry) => entry.getSnapshots())
+   * .then((snapshots) => snapshots.items[1].restore({ publish: true }))
+   * .then((entry) => console.log(`Entry ${entry.sys.id} restored.`))
+   * .catch(console.error)
+   * ```
+   */
+  restore<O extends RestoreSnapshotOptions = RestoreSnapshotOptions>(
+    options?: O
+  ): Promise<RestoreSnapshotResult<T, O>>
+}
+
+export interface Snapshot<T>
+  extends SnapshotProps<T>,
+    DefaultElements<SnapshotProps<T>>,
+    SnapshotApi<T> {}
+
+type Restorable<T> = {
+  sys: { id: string }
+  toPlainObject(): T
+  update(options?: RequestOptions): Promise<Restorable<T>>
+  publish(options?: RequestOptions): Promise<Restorable<T>>
+}
+
+function restoreEntity<T extends { sys: { id: string } }>(
+  http: AxiosInstance,
+  data: T,
+  options: RestoreSnapshotOptions,
+  {
+    entityPath,
+    wrapperMethod,
+    keys,
+    diff,
+  }: {
+    entityPath: string
+    wrapperMethod: (http: AxiosInstance, data: T) => Restorable<T>
+    keys: Array<keyof T>
+    diff: (current: T, restored: T) => unknown
+  }
+) {
+  return http
+    .get<T>(`${entityPath}/${data.sys.id}`, withRequestOptions(options))
+    .then((response) => wrapperMethod(http, response.data), errorHandler)
+    .then((entity) => {
+      const current = entity.toPlainObject()
+      // the current sys, and with it the current version, is kept
+      const target = (entity as unknown) as T
+      keys.forEach((key) => {
+        target[key] = cloneDeep(data[key])
+      })
+      if (options.dryRun) {
+        return diff(current, entity.toPlainObject())
+      }
+      return entity
+        .update(options)
+        .then((updated) => (options.publish ? updated.publish(options) : updated))
+    })
+}
+
+function createSnapshotError(message: string) {
+  const error = new Error(message)
+  error.name = 'UnsupportedSnapshot'
+  return error
+}
+
+function createSnapshotApi<T>(http: AxiosInstance): SnapshotApi<T> {
+  function restoreSnapshot(snapshot: SnapshotProps<unknown>, options: RestoreSnapshotOptions) {
+    switch (snapshot.sys.snapshotEntityType) {
+      case 'Entry':
+        return restoreEntity(http, snapshot.snapshot as EntryProp, options, {
+          entityPath: 'entries',
+          wrapperMethod: wrapEntry,
+          keys: ['fields'],
+          diff: diffEntries,
+        })
+      case 'ContentType':
+        return restoreEntity(http, snapshot.snapshot as ContentTypeProps, options, {
+          entityPath: 'content_types',
+          wrapperMethod: wrapContentType,
+          keys: ['name', 'description', 'displayField', 'fields'],
+          diff: createPatch,
+        })
+      default:
+        return Promise.reject(
+          createSnapshotError(
+            `Snapshots of the type ${snapshot.sys.snapshotEntityType} can't be restored`
+          )
+        )
+    }
+  }
 
-function createSnapshotApi() {
   return {
-    /* In case the snapshot object evolve later */
+    restore: function <O extends RestoreSnapshotOptions>(options?: O) {
+      return restoreSnapshot(this as SnapshotProps<unknown>, options || {}) as Promise<
+        RestoreSnapshotResult<T, O>
+      >
+    },
   }
 }
+
 /**
  * @private
  * @param http - HTTP client instance
  * @param data - Raw snapshot data
  * @return Wrapped snapshot data
  */
-export function wrapSnapshot<T>(_http: AxiosInstance, data: SnapshotProps<T>): Snapshot<T> {
+export function wrapSnapshot<T>(http: AxiosInstance, data: SnapshotProps<T>): Snapshot<T> {
   const snapshot = toPlainObject(cloneDeep(data))
-  const snapshotWithMethods = enhanceWithMethods(snapshot, createSnapshotApi())
+  const snapshotWithMethods = enhanceWithMethods(snapshot, createSnapshotApi<T>(http))
   return freezeSys(snapshotWithMethods)
 }
 
@@ -4,7 +4,7 @@ import { freezeSys, toPlainObject } from 'contentful-sdk-core'
 import enhanceWithMethods from '../enhance-with-methods'
 import { wrapCollection } from '../common-utils'
 import { createUpdateEntity, createDeleteEntity } from '../instance-actions'
-import { MetaSysProps, MetaLinkProps, DefaultElements } from '../common-types'
+import { MetaSysProps, MetaLinkProps, DefaultElements, RequestOptions } from '../common-types'
 
 export type SpaceMembershipProps = {
   sys: MetaSysProps
@@ -36,7 +36,7 @@ export interface SpaceMembership
    * .catch(console.error)
    * ```
    */
-  delete(): Promise<void>
+  delete(options?: RequestOptions): Promise<void>
   /**
    * Sends an update to the server with any changes made to the object's properties
    * @return Object returned from the server with updated changes.
@@ -56,7 +56,7 @@ export interface SpaceMembership
    * .catch(console.error)
    * ```
    */
-  update(): Promise<SpaceMembership>
+  update(options?: RequestOptions): Promise<SpaceMembership>
 }
 
 function createSpaceMembershipApi(http: AxiosInstance) {
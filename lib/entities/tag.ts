@@ -1,8 +1,8 @@
 import { AxiosInstance } from 'axios'
 import { freezeSys, toPlainObject } from 'contentful-sdk-core'
 import { cloneDeep } from 'lodash'
-import { DefaultElements, MetaSysProps } from '../common-types'
-import { VersionHeader, wrapCollection } from '../common-utils'
+import { DefaultElements, MetaSysProps, RequestOptions } from '../common-types'
+import { VersionHeader, wrapCollection, withRequestOptions } from '../common-utils'
 import enhanceWithMethods from '../enhance-with-methods'
 import errorHandler from '../error-handler'
 
@@ -41,26 +41,26 @@ export interface TagCollection {
 type ThisContext = TagProps & DefaultElements<TagProps>
 
 type TagApi = {
-  update(): Promise<Tag>
-  delete(): Promise<void>
+  update(options?: RequestOptions): Promise<Tag>
+  delete(options?: RequestOptions): Promise<void>
 }
 
 export interface Tag extends TagProps, DefaultElements<TagProps>, TagApi {}
 
-export function createDeleteTag(http: AxiosInstance): () => Promise<void> {
-  return function (): Promise<void> {
+export function createDeleteTag(http: AxiosInstance): (options?: RequestOptions) => Promise<void> {
+  return function (options?: RequestOptions): Promise<void> {
     const self = this as ThisContext
     return (
       http
-        .delete('tags/' + self.sys.id, VersionHeader(self.sys.version))
+        .delete('tags/' + self.sys.id, withRequestOptions(options, VersionHeader(self.sys.version)))
         // eslint-disable-next-line @typescript-eslint/no-empty-function
         .then(() => {}, errorHandler)
     )
   }
 }
 
-export function createUpdateTag(http: AxiosInstance): () => Promise<Tag> {
-  return function (): Promise<Tag> {
+export function createUpdateTag(http: AxiosInstance): (options?: RequestOptions) => Promise<Tag> {
+  return function (options?: RequestOptions): Promise<Tag> {
     const self = this as ThisContext
     return http
       .put(
@@ -71,7 +71,7 @@ export function createUpdateTag(http: AxiosInstance): () => Promise<Tag> {
             id: self.sys.id,
           },
         },
-        VersionHeader(self.sys.version)
+        withRequestOptions(options, VersionHeader(self.sys.version))
       )
       .then((response) => wrapTag(http, response.data), errorHandler)
   }
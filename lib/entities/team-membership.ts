@@ -3,8 +3,8 @@ import cloneDeep from 'lodash/cloneDeep'
 import { freezeSys, toPlainObject } from 'contentful-sdk-core'
 import enhanceWithMethods from '../enhance-with-methods'
 import errorHandler from '../error-handler'
-import { wrapCollection } from '../common-utils'
-import { DefaultElements, MetaSysProps, MetaLinkProps } from '../common-types'
+import { wrapCollection, withRequestOptions } from '../common-utils'
+import { DefaultElements, MetaSysProps, MetaLinkProps, RequestOptions } from '../common-types'
 
 export type TeamMembershipProps = {
   /**
@@ -42,7 +42,7 @@ export interface TeamMembership extends TeamMembershipProps, DefaultElements<Tea
    * .catch(console.error)
    * ```
    */
-  delete(): Promise<void>
+  delete(options?: RequestOptions): Promise<void>
 
   /**
    * Sends an update to the server with any changes made to the object's properties
@@ -63,29 +63,35 @@ export interface TeamMembership extends TeamMembershipProps, DefaultElements<Tea
    * .catch(console.error)
    * ```
    */
-  update(): Promise<TeamMembership>
+  update(options?: RequestOptions): Promise<TeamMembership>
 }
 
 function createTeamMembershipApi(http: AxiosInstance) {
   return {
-    update: function () {
+    update: function (options?: RequestOptions) {
       const raw = this.toPlainObject()
       const teamId = raw.sys.team.sys.id
       return http
-        .put('teams/' + teamId + '/team_memberships/' + this.sys.id, raw, {
-          headers: {
-            'X-Contentful-Version': this.sys.version || 0,
-          },
-        })
+        .put(
+          'teams/' + teamId + '/team_memberships/' + this.sys.id,
+          raw,
+          withRequestOptions(options, {
+            headers: {
+              'X-Contentful-Version': this.sys.version || 0,
+            },
+          })
+        )
         .then((response) => wrapTeamMembership(http, response.data), errorHandler)
     },
 
-    delete: function () {
+    delete: function (options?: RequestOptions) {
       const raw = this.toPlainObject()
       const teamId = raw.sys.team.sys.id
-      return http.delete('teams/' + teamId + '/team_memberships/' + this.sys.id).then(() => {
-        // do nothing
-      }, errorHandler)
+      return http
+        .delete('teams/' + teamId + '/team_memberships/' + this.sys.id, withRequestOptions(options))
+        .then(() => {
+          // do nothing
+        }, errorHandler)
     },
   }
 }
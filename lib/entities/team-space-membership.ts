@@ -4,8 +4,14 @@ import { freezeSys, toPlainObject } from 'contentful-sdk-core'
 import enhanceWithMethods from '../enhance-with-methods'
 import { createDeleteEntity } from '../instance-actions'
 import errorHandler from '../error-handler'
-import { wrapCollection } from '../common-utils'
-import { DefaultElements, MetaLinkProps, MetaSysProps, QueryOptions } from '../common-types'
+import { wrapCollection, withRequestOptions } from '../common-utils'
+import {
+  DefaultElements,
+  MetaLinkProps,
+  MetaSysProps,
+  QueryOptions,
+  RequestOptions,
+} from '../common-types'
 
 export interface Options {
   teamId?: string
@@ -49,7 +55,7 @@ export interface TeamSpaceMembership
    * .catch(console.error)
    * ```
    */
-  delete(): Promise<void>
+  delete(options?: RequestOptions): Promise<void>
 
   /**
    * Sends an update to the server with any changes made to the object's properties
@@ -78,23 +84,27 @@ export interface TeamSpaceMembership
    *  .catch(console.error)
    *  ```
    */
-  update(): Promise<TeamSpaceMembership>
+  update(options?: RequestOptions): Promise<TeamSpaceMembership>
 }
 
 function createTeamSpaceMembershipApi(http: AxiosInstance) {
   return {
-    update: function () {
+    update: function (options?: RequestOptions) {
       const raw = this.toPlainObject() as TeamSpaceMembershipProps
       const data = cloneDeep(raw)
       delete data.sys
 
       return http
-        .put('team_space_memberships/' + this.sys.id, data, {
-          headers: {
-            'X-Contentful-Version': this.sys.version || 0,
-            'x-contentful-team': this.sys.team.sys.id,
-          },
-        })
+        .put(
+          'team_space_memberships/' + this.sys.id,
+          data,
+          withRequestOptions(options, {
+            headers: {
+              'X-Contentful-Version': this.sys.version || 0,
+              'x-contentful-team': this.sys.team.sys.id,
+            },
+          })
+        )
         .then((response) => wrapTeamSpaceMembership(http, response.data), errorHandler)
     },
 
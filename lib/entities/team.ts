@@ -3,7 +3,7 @@ import cloneDeep from 'lodash/cloneDeep'
 import { freezeSys, toPlainObject } from 'contentful-sdk-core'
 import enhanceWithMethods from '../enhance-with-methods'
 import { wrapCollection } from '../common-utils'
-import { DefaultElements, MetaSysProps } from '../common-types'
+import { DefaultElements, MetaSysProps, RequestOptions } from '../common-types'
 import { createDeleteEntity, createUpdateEntity } from '../instance-actions'
 
 export type TeamProps = {
@@ -42,7 +42,7 @@ export interface Team extends TeamProps, DefaultElements<TeamProps> {
    * .catch(console.error)
    * ```
    */
-  delete(): Promise<void>
+  delete(options?: RequestOptions): Promise<void>
 
   /**
    * Sends an update to the server with any changes made to the object's properties
@@ -63,7 +63,7 @@ export interface Team extends TeamProps, DefaultElements<TeamProps> {
    * .catch(console.error)
    * ```
    */
-  update(): Promise<Team>
+  update(options?: RequestOptions): Promise<Team>
 }
 
 const entityPath = 'teams'
@@ -5,7 +5,7 @@ import enhanceWithMethods from '../enhance-with-methods'
 import { createUpdateEntity, createDeleteEntity } from '../instance-actions'
 import { EntryFields } from './entry-fields'
 import { wrapCollection } from '../common-utils'
-import { DefaultElements, MetaSysProps } from '../common-types'
+import { DefaultElements, MetaSysProps, RequestOptions } from '../common-types'
 
 export type UIExtensionProps = {
   sys: MetaSysProps
@@ -54,7 +54,7 @@ export interface UIExtension extends UIExtensionProps, DefaultElements<UIExtensi
    * .catch(console.error)
    * ```
    */
-  update(): Promise<UIExtension>
+  update(options?: RequestOptions): Promise<UIExtension>
   /**
    * Deletes this object on the server.
    * @return Promise for the deletion. It contains no data, but the Promise error case should be handled.
@@ -72,7 +72,7 @@ export interface UIExtension extends UIExtensionProps, DefaultElements<UIExtensi
    * .catch(console.error)
    * ```
    */
-  delete(): Promise<void>
+  delete(options?: RequestOptions): Promise<void>
 }
 
 function createUiExtensionApi(http: AxiosInstance) {
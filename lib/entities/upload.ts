@@ -3,7 +3,7 @@ import { freezeSys, toPlainObject } from 'contentful-sdk-core'
 import enhanceWithMethods from '../enhance-with-methods'
 import { createDeleteEntity } from '../instance-actions'
 import { AxiosInstance } from 'axios'
-import { DefaultElements, MetaSysProps } from '../common-types'
+import { DefaultElements, MetaSysProps, RequestOptions } from '../common-types'
 
 export type UploadProps = {
   /**
@@ -29,7 +29,7 @@ export interface Upload extends UploadProps, DefaultElements<UploadProps> {
    * .then((upload) => console.log(`upload ${upload.sys.id} updated.`))
    * .catch(console.error)
    */
-  delete(): Promise<void>
+  delete(options?: RequestOptions): Promise<void>
 }
 
 function createUploadApi(http: AxiosInstance) {
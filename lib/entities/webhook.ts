@@ -5,8 +5,8 @@ import { freezeSys, toPlainObject } from 'contentful-sdk-core'
 import enhanceWithMethods from '../enhance-with-methods'
 import errorHandler from '../error-handler'
 import { createUpdateEntity, createDeleteEntity } from '../instance-actions'
-import { wrapCollection } from '../common-utils'
-import { DefaultElements, MetaSysProps } from '../common-types'
+import { wrapCollection, withRequestOptions } from '../common-utils'
+import { DefaultElements, MetaSysProps, RequestOptions } from '../common-types'
 
 const entityPath = 'webhook_definitions'
 
@@ -119,7 +119,7 @@ export interface WebHooks extends WebhookProps, DefaultElements<WebhookProps> {
    * .catch(console.error)
    * ```
    */
-  update(): Promise<WebHooks>
+  update(options?: RequestOptions): Promise<WebHooks>
 
   /**
    * Deletes this object on the server.
@@ -138,7 +138,7 @@ export interface WebHooks extends WebhookProps, DefaultElements<WebhookProps> {
    * .catch(console.error)
    * ```
    */
-  delete(): Promise<void>
+  delete(options?: RequestOptions): Promise<void>
 
   /**
    * List of the most recent webhook calls. See https://www.contentful.com/developers/docs/references/content-management-api/#/reference/webhook-calls/webhook-call-overviews for more details.
@@ -157,7 +157,7 @@ export interface WebHooks extends WebhookProps, DefaultElements<WebhookProps> {
    * .catch(console.error)
    * ```
    */
-  getCalls(): Promise<Record<string, unknown>>
+  getCalls(options?: RequestOptions): Promise<Record<string, unknown>>
 
   /**
    * Webhook call with specific id. See https://www.contentful.com/developers/docs/references/content-management-api/#/reference/webhook-calls/webhook-call-overviews for more details
@@ -176,7 +176,7 @@ export interface WebHooks extends WebhookProps, DefaultElements<WebhookProps> {
    * .catch(console.error)
    * ```
    */
-  getCall(id: string): Promise<Record<string, unknown>>
+  getCall(id: string, options?: RequestOptions): Promise<Record<string, unknown>>
 
   /**
    * Overview of the health of webhook calls. See https://www.contentful.com/developers/docs/references/content-management-api/#/reference/webhook-calls/webhook-call-overviews for more details.
@@ -195,7 +195,7 @@ export interface WebHooks extends WebhookProps, DefaultElements<WebhookProps> {
    * .catch(console.error)
    * ```
    */
-  getHealth(): Promise<Record<string, unknown>>
+  getHealth(options?: RequestOptions): Promise<Record<string, unknown>>
 }
 
 function createWebhookApi(http: AxiosInstance) {
@@ -211,21 +211,21 @@ function createWebhookApi(http: AxiosInstance) {
       entityPath,
     }),
 
-    getCalls: function (): Promise<Record<string, unknown>> {
+    getCalls: function (options?: RequestOptions): Promise<Record<string, unknown>> {
       return http
-        .get('webhooks/' + this.sys.id + '/calls')
+        .get('webhooks/' + this.sys.id + '/calls', withRequestOptions(options))
         .then((response) => response.data, errorHandler)
     },
 
-    getCall: function (id: string): Promise<Record<string, unknown>> {
+    getCall: function (id: string, options?: RequestOptions): Promise<Record<string, unknown>> {
       return http
-        .get('webhooks/' + this.sys.id + '/calls/' + id)
+        .get('webhooks/' + this.sys.id + '/calls/' + id, withRequestOptions(options))
         .then((response) => response.data, errorHandler)
     },
 
-    getHealth: function (): Promise<Record<string, unknown>> {
+    getHealth: function (options?: RequestOptions): Promise<Record<string, unknown>> {
       return http
-        .get('webhooks/' + this.sys.id + '/health')
+        .get('webhooks/' + this.sys.id + '/health', withRequestOptions(options))
         .then((response) => response.data, errorHandler)
     },
   }
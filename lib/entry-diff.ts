@@ -0,0 +1,282 @@
+/**
+ * Field level differences between versions of an entry.
+ * @packageDocumentation
+ */
+
+import isEqual from 'lodash/isEqual'
+import { EntryProp } from './entities/entry'
+import { SnapshotProps } from './entities/snapshot'
+import { EntityLink, isEntityLink } from './links'
+
+export type RichTextNode = {
+  nodeType: string
+  content?: RichTextNode[]
+  value?: string
+  data?: Record<string, unknown>
+}
+
+export type RichTextNodeChange =
+  | { type: 'added'; index: number; node: RichTextNode }
+  | { type: 'removed'; index: number; node: RichTextNode }
+  | { type: 'changed'; index: number; from: RichTextNode; to: RichTextNode }
+
+type ChangeLocation = {
+  field: string
+  locale: string
+}
+
+export type EntryFieldChange = ChangeLocation &
+  (
+    | { type: 'added'; value: unknown }
+    | { type: 'removed'; value: unknown }
+    | { type: 'changed'; from: unknown; to: unknown }
+    | { type: 'linkChanged'; from: EntityLink; to: EntityLink }
+    | { type: 'linksChanged'; added: EntityLink[]; removed: EntityLink[] }
+    /** `index` of the node changes is the index in the top level nodes of the document */
+    | { type: 'richTextChanged'; nodes: RichTextNodeChange[] }
+  )
+
+export type DiffableEntry = Pick<EntryProp, 'fields'> | SnapshotProps<Pick<EntryProp, 'fields'>>
+
+export interface RenderEntryDiffOptions {
+  /**
+   * Values longer than this are shortened
+   * @default 80
+   */
+  maxLength?: number
+}
+
+function getFields(entry: DiffableEntry): EntryProp['fields'] {
+  const data = 'snapshot' in entry ? entry.snapshot : entry
+  // entries with resolved links serialize them back to links
+  const plain = data as { toPlainObject?: () => Pick<EntryProp, 'fields'> }
+  return (typeof plain.toPlainObject === 'function' ? plain.toPlainObject() : data).fields || {}
+}
+
+function union(first: string[], second: string[]) {
+  return first.concat(second.filter((key) => first.indexOf(key) === -1))
+}
+
+function isLinkArray(value: unknown): value is EntityLink[] {
+  return Array.isArray(value) && value.every(isEntityLink)
+}
+
+function isRichText(value: unknown): value is RichTextNode {
+  return !!value && (value as RichTextNode).nodeType === 'document'
+}
+
+function getLinkKey(link: EntityLink) {
+  return `${link.sys.linkType}:${link.sys.id}`
+}
+
+function subtractLinks(links: EntityLink[], other: EntityLink[]) {
+  const keys = other.map(getLinkKey)
+  return links.filter((link) => keys.indexOf(getLinkKey(link)) === -1)
+}
+
+/**
+ * Pairs the nodes removed and added between two unchanged nodes by position, a removed
+ * and an added node of the same type are reported as changed
+ */
+function pairRichTextNodes(
+  removed: Array<{ index: number; node: RichTextNode }>,
+  added: Array<{ index: number; node: RichTextNode }>
+): RichTextNodeChange[] {
+  const changes: RichTextNodeChange[] = []
+  for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+    const from = removed[k]
+    const to = added[k]
+    if (from && to && from.node.nodeType === to.node.nodeType) {
+      changes.push({ type: 'changed', index: to.index, from: from.node, to: to.node })
+      continue
+    }
+    if (from) {
+      changes.push({ type: 'removed', ...from })
+    }
+    if (to) {
+      changes.push({ type: 'added', ...to })
+    }
+  }
+  return changes
+}
+
+/**
+ * Diffs the top level nodes of two documents by their longest common subsequence
+ */
+function diffRichText(from: RichTextNode, to: RichTextNode): RichTextNodeChange[] {
+  const fromNodes = from.content || []
+  const toNodes = to.content || []
+  // lengths[i][j] is the length of the common subsequence of fromNodes[i..] and toNodes[j..]
+  const lengths: number[][] = []
+  for (let i = 0; i <= fromNodes.length; i++) {
+    lengths.push(toNodes.map(() => 0).concat(0))
+  }
+  for (let i = fromNodes.length - 1; i >= 0; i--) {
+    for (let j = toNodes.length - 1; j >= 0; j--) {
+      lengths[i][j] = isEqual(fromNodes[i], toNodes[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  let changes: RichTextNodeChange[] = []
+  let removed: Array<{ index: number; node: RichTextNode }> = []
+  let added: Array<{ index: number; node: RichTextNode }> = []
+  let i = 0
+  let j = 0
+  while (i < fromNodes.length || j < toNodes.length) {
+    if (i < fromNodes.length && j < toNodes.length && isEqual(fromNodes[i], toNodes[j])) {
+      changes = changes.concat(pairRichTextNodes(removed, added))
+      removed = []
+      added = []
+      i++
+      j++
+    } else if (
+      i < fromNodes.length &&
+      (j === toNodes.length || lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      removed.push({ index: i, node: fromNodes[i] })
+      i++
+    } else {
+      added.push({ index: j, node: toNodes[j] })
+      j++
+    }
+  }
+  return changes.concat(pairRichTextNodes(removed, added))
+}
+
+function diffValue(location: ChangeLocation, from: unknown, to: unknown): EntryFieldChange | null {
+  if (isEqual(from, to)) {
+    return null
+  }
+  if (from === undefined) {
+    return { ...location, type: 'added', value: to }
+  }
+  if (to === undefined) {
+    return { ...location, type: 'removed', value: from }
+  }
+  if (isEntityLink(from) && isEntityLink(to)) {
+    return { ...location, type: 'linkChanged', from, to }
+  }
+  if (isLinkArray(from) && isLinkArray(to)) {
+    const added = subtractLinks(to, from)
+    const removed = subtractLinks(from, to)
+    // links which were only reordered are a plain change
+    if (added.length || removed.length) {
+      return { ...location, type: 'linksChanged', added, removed }
+    }
+  }
+  if (isRichText(from) && isRichText(to)) {
+    return { ...location, type: 'richTextChanged', nodes: diffRichText(from, to) }
+  }
+  return { ...location, type: 'changed', from, to }
+}
+
+/**
+ * Lists the changes of the values of every field and locale from one version of an entry to
+ * another. Entries and snapshots of entries can be compared.
+ * @param from - The earlier version of the entry or a snapshot of it
+ * @param to - The later version of the entry or a snapshot of it
+ * @return Changes ordered by field and locale
+ * @example ```javascript
+ * const { diffEntries, renderEntryDiff } = require('contentful-management')
+ *
+ * const snapshots = await entry.getSnapshots()
+ * const [latest, previous] = snapshots.items
+ * console.log(renderEntryDiff(diffEntries(previous, latest)))
+ * ```
+ */
+export function diffEntries(from: DiffableEntry, to: DiffableEntry): EntryFieldChange[] {
+  const fromFields = getFields(from)
+  const toFields = getFields(to)
+  const changes: EntryFieldChange[] = []
+  union(Object.keys(fromFields), Object.keys(toFields)).forEach((field) => {
+    const fromValues = fromFields[field] || {}
+    const toValues = toFields[field] || {}
+    union(Object.keys(fromValues), Object.keys(toValues)).forEach((locale) => {
+      const change = diffValue({ field, locale }, fromValues[locale], toValues[locale])
+      if (change) {
+        changes.push(change)
+      }
+    })
+  })
+  return changes
+}
+
+function getText(node: RichTextNode): string {
+  return node.value !== undefined ? node.value : (node.content || []).map(getText).join('')
+}
+
+function renderLink(link: EntityLink) {
+  return `${link.sys.linkType} ${link.sys.id}`
+}
+
+/**
+ * Describes the changes of `diffEntries` as text, one line per field and locale and one
+ * indented line per changed rich text node
+ * @example ```javascript
+ * renderEntryDiff(entry.diff(publishedSnapshot))
+ * // title (en-US): changed "Hello" -> "Hello world"
+ * // author (en-US): link changed Entry jane -> Entry john
+ * // body (en-US): rich text changed
+ * //   ~ paragraph "First" -> "First paragraph"
+ * //   + heading-2 "New section"
+ * ```
+ */
+export function renderEntryDiff(changes: EntryFieldChange[], options: RenderEntryDiffOptions = {}) {
+  const { maxLength = 80 } = options
+
+  function shorten(text: string) {
+    return text.length > maxLength ? `${text.slice(0, maxLength - 3)}...` : text
+  }
+
+  function renderText(node: RichTextNode) {
+    return shorten(JSON.stringify(getText(node)))
+  }
+
+  function renderValue(value: unknown) {
+    if (isEntityLink(value)) {
+      return renderLink(value)
+    }
+    return isRichText(value) ? renderText(value) : shorten(JSON.stringify(value))
+  }
+
+  function renderNodeChange(change: RichTextNodeChange) {
+    switch (change.type) {
+      case 'added':
+        return `  + ${change.node.nodeType} ${renderText(change.node)}`
+      case 'removed':
+        return `  - ${change.node.nodeType} ${renderText(change.node)}`
+      case 'changed':
+        return `  ~ ${change.to.nodeType} ${renderText(change.from)} -> ${renderText(change.to)}`
+    }
+  }
+
+  if (!changes.length) {
+    return 'No changes'
+  }
+  return changes
+    .map((change) => {
+      const prefix = `${change.field} (${change.locale}):`
+      switch (change.type) {
+        case 'added':
+          return `${prefix} added ${renderValue(change.value)}`
+        case 'removed':
+          return `${prefix} removed ${renderValue(change.value)}`
+        case 'changed':
+          return `${prefix} changed ${renderValue(change.from)} -> ${renderValue(change.to)}`
+        case 'linkChanged':
+          return `${prefix} link changed ${renderLink(change.from)} -> ${renderLink(change.to)}`
+        case 'linksChanged':
+          return [`${prefix} links changed`]
+            .concat(change.added.map((link) => `  + ${renderLink(link)}`))
+            .concat(change.removed.map((link) => `  - ${renderLink(link)}`))
+            .join('\n')
+        case 'richTextChanged':
+          return [`${prefix} rich text changed`]
+            .concat(change.nodes.map(renderNodeChange))
+            .join('\n')
+      }
+    })
+    .join('\n')
+}
@@ -0,0 +1,329 @@
+/**
+ * Local evaluation of the validations of content type fields.
+ * @packageDocumentation
+ */
+
+import { AssetProps } from './entities/asset'
+import { ContentTypeProps } from './entities/content-type'
+import { ContentFields, Item, Validation } from './entities/content-type-fields'
+import { EntryProp } from './entities/entry'
+import { LocaleProps } from './entities/locale'
+import { EntityLink, isEntityLink } from './links'
+import { parseValidationErrors, ValidationErrorRecord } from './validation-errors'
+
+export interface ValidateEntryOptions {
+  /**
+   * Locales of the environment. Values of required fields are required for the default
+   * locale and the locales which are not optional, and values for other locales are
+   * rejected. Without locales a value for any locale is enough.
+   */
+  locales?: Array<Pick<LocaleProps, 'code' | 'default' | 'optional'>>
+  /**
+   * Linked entries and assets, e.g. the `includes` of `getEntries`, which `linkContentType`
+   * and `linkMimetypeGroup` are checked against. Links resolved by `resolveLinks` are
+   * checked as well, other links are not.
+   */
+  linkedEntities?: Array<EntryProp | AssetProps>
+}
+
+type Path = Array<string | number>
+
+/** Error in the format of the `details.errors` of the API */
+type RawError = {
+  name: string
+  path: Path
+  details?: string
+  value?: unknown
+  [key: string]: unknown
+}
+
+type Context = {
+  linkedEntities: Array<EntryProp | AssetProps>
+  locale: string
+}
+
+type LinkedValue = { link: EntityLink; entity?: EntryProp | AssetProps }
+
+/** Node types which rich text always allows, `enabledNodeTypes` only lists the others */
+const ALWAYS_ENABLED_NODE_TYPES = [
+  'document',
+  'paragraph',
+  'text',
+  'list-item',
+  'table-row',
+  'table-cell',
+  'table-header-cell',
+]
+
+const MIMETYPE_GROUPS: Record<string, RegExp> = {
+  attachment: /./,
+  plaintext: /^text\/plain$/,
+  image: /^image\//,
+  audio: /^audio\//,
+  video: /^video\//,
+  richtext: /^(text\/rtf|application\/(rtf|msword|vnd\.openxmlformats-officedocument\.wordprocessingml|vnd\.oasis\.opendocument\.text))/,
+  presentation: /^application\/(vnd\.ms-powerpoint|vnd\.openxmlformats-officedocument\.presentationml|vnd\.oasis\.opendocument\.presentation|vnd\.apple\.keynote)/,
+  spreadsheet: /^(text\/csv|application\/(vnd\.ms-excel|vnd\.openxmlformats-officedocument\.spreadsheetml|vnd\.oasis\.opendocument\.spreadsheet|vnd\.apple\.numbers))/,
+  pdfdocument: /^application\/pdf$/,
+  archive: /^application\/(zip|x-zip-compressed|x-tar|gzip|x-gzip|x-rar-compressed|x-7z-compressed)$/,
+  code: /^(text\/(css|javascript|x-python|x-ruby)|application\/(json|javascript|x-javascript))$/,
+  markup: /^(text\/(html|xml)|application\/(xml|xhtml\+xml))$/,
+}
+
+function isMissing(value: unknown) {
+  return value === undefined || value === null
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Gets the link of links and of entities which `resolveLinks` put in place of links
+ */
+function getLinkedValue(value: unknown, context: Context): LinkedValue | undefined {
+  if (isEntityLink(value)) {
+    const entity = context.linkedEntities.find(
+      (candidate) => candidate.sys.type === value.sys.linkType && candidate.sys.id === value.sys.id
+    )
+    return { link: value, entity }
+  }
+  const entity = value as EntryProp | AssetProps | undefined
+  if (isObject(entity) && entity.sys && ['Entry', 'Asset'].indexOf(entity.sys.type) !== -1) {
+    const linkType = entity.sys.type as 'Entry' | 'Asset'
+    return { link: { sys: { type: 'Link', linkType, id: entity.sys.id } }, entity }
+  }
+  return undefined
+}
+
+function hasType(item: Item, value: unknown, context: Context) {
+  switch (item.type) {
+    case 'Symbol':
+    case 'Text':
+      return typeof value === 'string'
+    case 'Integer':
+      return Number.isInteger(value)
+    case 'Number':
+      return typeof value === 'number' && isFinite(value)
+    case 'Boolean':
+      return typeof value === 'boolean'
+    case 'Date':
+      return typeof value === 'string' && !isNaN(Date.parse(value))
+    case 'Location':
+      return isObject(value) && typeof value.lat === 'number' && typeof value.lon === 'number'
+    case 'Object':
+      return isObject(value)
+    case 'RichText':
+      return isObject(value) && value.nodeType === 'document'
+    case 'Array':
+      return Array.isArray(value)
+    case 'Link': {
+      const linked = getLinkedValue(value, context)
+      return !!linked && (!item.linkType || linked.link.sys.linkType === item.linkType)
+    }
+    default:
+      return true
+  }
+}
+
+function getTypeName(item: Item) {
+  return item.type === 'Link' && item.linkType ? `${item.linkType} link` : item.type
+}
+
+function isInRange(value: number, { min, max }: { min?: number; max?: number }) {
+  return (min === undefined || value >= min) && (max === undefined || value <= max)
+}
+
+function getMimetype(asset: AssetProps, locale: string) {
+  const files = (asset.fields.file || {}) as Record<string, { contentType?: string } | undefined>
+  const file = files[locale] || files[Object.keys(files)[0]]
+  return file && file.contentType
+}
+
+function checkRichText(
+  validation: Validation,
+  node: Record<string, unknown>,
+  path: Path,
+  errors: RawError[]
+) {
+  const nodeType = node.nodeType as string
+  if (
+    validation.enabledNodeTypes &&
+    ALWAYS_ENABLED_NODE_TYPES.indexOf(nodeType) === -1 &&
+    validation.enabledNodeTypes.indexOf(nodeType) === -1
+  ) {
+    errors.push({ name: 'enabledNodeTypes', path, value: nodeType })
+  }
+  if (validation.enabledMarks && Array.isArray(node.marks)) {
+    const enabledMarks = validation.enabledMarks
+    node.marks.forEach((mark: { type: string }) => {
+      if (enabledMarks.indexOf(mark.type) === -1) {
+        errors.push({ name: 'enabledMarks', path, value: mark.type })
+      }
+    })
+  }
+  if (Array.isArray(node.content)) {
+    node.content.forEach((child, index) =>
+      checkRichText(validation, child, path.concat('content', index), errors)
+    )
+  }
+}
+
+/**
+ * Evaluates a validation. The validations which need the API, `unique`, `assetFileSize`
+ * and `assetImageDimensions`, are left out.
+ */
+function checkValidation(
+  validation: Validation,
+  value: unknown,
+  path: Path,
+  context: Context
+): RawError[] {
+  const errors: RawError[] = []
+  const fail = (name: string, properties: Record<string, unknown> = {}) =>
+    errors.push({
+      name,
+      path,
+      value,
+      ...properties,
+      ...(validation.message && { details: validation.message }),
+    })
+
+  if (validation.size && (typeof value === 'string' || Array.isArray(value))) {
+    if (!isInRange(value.length, validation.size)) {
+      fail('size', { ...validation.size })
+    }
+  }
+  if (validation.range && typeof value === 'number' && !isInRange(value, validation.range)) {
+    fail('range', { ...validation.range })
+  }
+  if (validation.regexp && typeof value === 'string') {
+    const { pattern, flags } = validation.regexp
+    if (!new RegExp(pattern, flags || '').test(value)) {
+      fail('regexp', { pattern })
+    }
+  }
+  if (validation.prohibitRegexp && typeof value === 'string') {
+    const { pattern, flags } = validation.prohibitRegexp
+    if (new RegExp(pattern, flags || '').test(value)) {
+      fail('prohibitRegexp', { pattern })
+    }
+  }
+  if (validation.in && (validation.in as unknown[]).indexOf(value) === -1) {
+    fail('in', { expected: validation.in })
+  }
+  if (validation.dateRange && typeof value === 'string') {
+    const { min, max } = validation.dateRange
+    const date = Date.parse(value)
+    if ((min && date < Date.parse(min)) || (max && date > Date.parse(max))) {
+      fail('dateRange', { ...validation.dateRange })
+    }
+  }
+  const linked = getLinkedValue(value, context)
+  const entity = linked && linked.entity
+  if (validation.linkContentType && entity && entity.sys.type === 'Entry') {
+    const contentTypeId = (entity as EntryProp).sys.contentType.sys.id
+    if (validation.linkContentType.indexOf(contentTypeId) === -1) {
+      fail('linkContentType', { contentTypeId })
+    }
+  }
+  if (validation.linkMimetypeGroup && entity && entity.sys.type === 'Asset') {
+    const mimetype = getMimetype(entity as AssetProps, context.locale)
+    const isAllowed = validation.linkMimetypeGroup.some(
+      (group) => !!mimetype && !!MIMETYPE_GROUPS[group] && MIMETYPE_GROUPS[group].test(mimetype)
+    )
+    if (mimetype && !isAllowed) {
+      fail('linkMimetypeGroup', { mimetype })
+    }
+  }
+  if ((validation.enabledNodeTypes || validation.enabledMarks) && isObject(value)) {
+    const richTextErrors: RawError[] = []
+    checkRichText(validation, value, path, richTextErrors)
+    richTextErrors.forEach((error) =>
+      errors.push(validation.message ? { ...error, details: validation.message } : error)
+    )
+  }
+  return errors
+}
+
+function checkValue(item: Item, value: unknown, path: Path, context: Context): RawError[] {
+  if (!hasType(item, value, context)) {
+    return [{ name: 'type', path, value, type: getTypeName(item) }]
+  }
+  const errors = (item.validations || []).reduce<RawError[]>(
+    (all, validation) => all.concat(checkValidation(validation, value, path, context)),
+    []
+  )
+  const items = (item as ContentFields).items
+  if (item.type === 'Array' && items && Array.isArray(value)) {
+    value.forEach((arrayItem, index) => {
+      errors.push(...checkValue(items, arrayItem, path.concat(index), context))
+    })
+  }
+  return errors
+}
+
+function checkField(
+  field: ContentFields,
+  values: Record<string, unknown> | undefined,
+  options: ValidateEntryOptions
+): RawError[] {
+  const errors: RawError[] = []
+  const path = ['fields', field.id]
+  const localeValues = values || {}
+  const { locales } = options
+  const defaultLocale = locales && locales.find((locale) => locale.default)
+
+  if (field.required) {
+    if (locales) {
+      locales
+        .filter((locale) =>
+          field.localized ? locale.default || !locale.optional : locale === defaultLocale
+        )
+        .filter((locale) => isMissing(localeValues[locale.code]))
+        .forEach((locale) => errors.push({ name: 'required', path: path.concat(locale.code) }))
+    } else if (Object.keys(localeValues).every((code) => isMissing(localeValues[code]))) {
+      errors.push({ name: 'required', path })
+    }
+  }
+
+  Object.keys(localeValues).forEach((code) => {
+    const localePath = path.concat(code)
+    const isKnown =
+      !locales ||
+      (field.localized
+        ? locales.some((locale) => locale.code === code)
+        : !!defaultLocale && defaultLocale.code === code)
+    if (!isKnown) {
+      errors.push({ name: 'unknown', path: localePath })
+    } else if (!isMissing(localeValues[code])) {
+      const context = { linkedEntities: options.linkedEntities || [], locale: code }
+      errors.push(...checkValue(field, localeValues[code], localePath, context))
+    }
+  })
+  return errors
+}
+
+/**
+ * Checks the fields of the entry against the fields of the content type: required values,
+ * types, unknown fields and locales, and the validations which don't need the API
+ * @private
+ */
+export function validateEntry(
+  contentType: Pick<ContentTypeProps, 'fields'>,
+  entry: Pick<EntryProp, 'fields'>,
+  options: ValidateEntryOptions = {}
+): ValidationErrorRecord[] {
+  const fields = entry.fields || {}
+  // fields which are being deleted can't hold values anymore, so they are not checked
+  const errors = contentType.fields
+    .filter((field) => !field.deleted)
+    .reduce<RawError[]>(
+      (all, field) => all.concat(checkField(field, fields[field.id], options)),
+      []
+    )
+  Object.keys(fields)
+    .filter((fieldId) => !contentType.fields.some((field) => field.id === fieldId))
+    .forEach((fieldId) => errors.push({ name: 'unknown', path: ['fields', fieldId] }))
+  return parseValidationErrors({ errors })
+}
@@ -1,9 +1,12 @@
 import isPlainObject from 'lodash/isPlainObject'
 import { AxiosError } from 'axios'
+import { ContentfulApiErrorData, getErrorClass } from './errors'
+import { parseValidationErrors } from './validation-errors'
+import { getRedactor } from './redaction'
 
 /**
  * Handles errors received from the server. Parses the error into a more useful
- * format, places it in an exception and throws it.
+ * format, places it in an exception of the matching error class and throws it.
  * See https://www.contentful.com/developers/docs/references/errors/
  * for more details on the data received on the errorResponse.data property
  * and the expected error codes.
@@ -11,10 +14,9 @@ import { AxiosError } from 'axios'
  */
 export default function errorHandler(errorResponse: AxiosError): never {
   const { config, response } = errorResponse
-  let errorName
 
   // Obscure the Management token
-  if (config.headers && config.headers['Authorization']) {
+  if (config && config.headers && config.headers['Authorization']) {
     const token = `...${config.headers['Authorization'].substr(-5)}`
     config.headers['Authorization'] = `Bearer ${token}`
   }
@@ -24,15 +26,9 @@ export default function errorHandler(errorResponse: AxiosError): never {
   }
 
   const data = response?.data
+  const redactor = getRedactor(config)
 
-  const errorData: {
-    status?: number
-    statusText?: string
-    requestId?: string
-    message: string
-    details: object
-    request?: object
-  } = {
+  const errorData: ContentfulApiErrorData = {
     status: response?.status,
     statusText: response?.statusText,
     message: '',
@@ -42,9 +38,9 @@ export default function errorHandler(errorResponse: AxiosError): never {
   if (isPlainObject(config)) {
     errorData.request = {
       url: config.url,
-      headers: config.headers,
+      headers: redactor.redactHeaders(config.headers),
       method: config.method,
-      payloadData: config.data,
+      payloadData: redactor.redactData(config.data),
     }
   }
   if (data && isPlainObject(data)) {
@@ -52,21 +48,25 @@ export default function errorHandler(errorResponse: AxiosError): never {
       errorData.requestId = data.requestId || 'UNKNOWN'
     }
     if ('message' in data) {
-      errorData.message = data.message || ''
+      errorData.message = redactor.redactText(data.message || '')
     }
     if ('details' in data) {
       errorData.details = data.details || {}
     }
     if ('sys' in data) {
       if ('id' in data.sys) {
-        errorName = data.sys.id
+        errorData.sysId = data.sys.id
       }
     }
   }
 
-  const error = new Error()
-  error.name =
-    errorName && errorName !== 'Unknown' ? errorName : `${response?.status} ${response?.statusText}`
-  error.message = JSON.stringify(errorData, null, '  ')
-  throw error
+  const { sysId } = errorData
+  if (sysId === 'ValidationFailed' || sysId === 'InvalidEntry') {
+    errorData.validationErrors = parseValidationErrors(errorData.details)
+  }
+  const ErrorClass = getErrorClass(errorData.status, sysId)
+  throw new ErrorClass(
+    sysId && sysId !== 'Unknown' ? sysId : `${response?.status} ${response?.statusText}`,
+    errorData
+  )
 }
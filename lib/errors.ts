@@ -0,0 +1,124 @@
+/**
+ * Errors thrown for failed API responses.
+ * See https://www.contentful.com/developers/docs/references/errors/
+ * @packageDocumentation
+ */
+
+import { ValidationErrorRecord } from './validation-errors'
+
+export type ContentfulErrorRequest = {
+  url?: string
+  headers?: Record<string, unknown>
+  method?: string
+  payloadData?: unknown
+}
+
+export type ContentfulApiErrorData = {
+  /** HTTP status code of the response */
+  status?: number
+  statusText?: string
+  /** Id of the request, include it when contacting support */
+  requestId?: string
+  /** Error id of the response body, e.g. `NotFound` */
+  sysId?: string
+  /** Message of the response body */
+  message?: string
+  details?: Record<string, unknown>
+  request?: ContentfulErrorRequest
+  /** Parsed `details.errors` of `ValidationFailed` and `InvalidEntry` errors */
+  validationErrors?: ValidationErrorRecord[]
+}
+
+function formatMessage({ status, statusText, message, requestId }: ContentfulApiErrorData) {
+  const summary = [status, statusText].filter(Boolean).join(' ')
+  const text = [summary, message].filter(Boolean).join(': ') || 'Request failed'
+  return requestId ? `${text} (request id: ${requestId})` : text
+}
+
+/**
+ * Base class of all errors for failed API responses.
+ * The `name` is the error id of the response body, e.g. `NotFound`, or the
+ * status code and text when the body has no error id.
+ *
+ * ```javascript
+ * environment.getEntry('missing').catch((error) => {
+ *   if (error instanceof contentfulManagement.NotFoundError) {
+ *     console.log(error.status, error.requestId)
+ *   }
+ * })
+ * ```
+ */
+export class ContentfulApiError extends Error {
+  status?: number
+  statusText?: string
+  requestId?: string
+  sysId?: string
+  details: Record<string, unknown>
+  request?: ContentfulErrorRequest
+
+  constructor(name: string, data: ContentfulApiErrorData) {
+    super(formatMessage(data))
+    this.name = name
+    this.status = data.status
+    this.statusText = data.statusText
+    this.requestId = data.requestId
+    this.sysId = data.sysId
+    this.details = data.details || {}
+    this.request = data.request
+  }
+}
+
+/** The resource does not exist (404) */
+export class NotFoundError extends ContentfulApiError {}
+
+/** The resource was changed since it was fetched, its `sys.version` is outdated (409) */
+export class VersionMismatchError extends ContentfulApiError {}
+
+/** The payload could not be processed (422) */
+export class UnprocessableEntityError extends ContentfulApiError {
+  /**
+   * The invalid fields and locales of `ValidationFailed` and `InvalidEntry` errors,
+   * `formatValidationErrors` renders them as a report
+   */
+  validationErrors: ValidationErrorRecord[]
+
+  constructor(name: string, data: ContentfulApiErrorData) {
+    super(name, data)
+    this.validationErrors = data.validationErrors || []
+  }
+}
+
+/** The payload does not satisfy the validations, see `validationErrors` (422) */
+export class ValidationFailedError extends UnprocessableEntityError {}
+
+/** Too many requests were sent, they are retried unless `retryOnError` is disabled (429) */
+export class RateLimitExceededError extends ContentfulApiError {}
+
+/** The access token is not allowed to access the resource (403) */
+export class AccessDeniedError extends ContentfulApiError {}
+
+/** The server failed to handle the request (5xx) */
+export class ServerError extends ContentfulApiError {}
+
+/**
+ * Picks the error class for the status and error id of a response
+ * @private
+ */
+export function getErrorClass(status?: number, sysId?: string): typeof ContentfulApiError {
+  if (sysId === 'ValidationFailed') {
+    return ValidationFailedError
+  }
+  switch (status) {
+    case 403:
+      return AccessDeniedError
+    case 404:
+      return NotFoundError
+    case 409:
+      return VersionMismatchError
+    case 422:
+      return UnprocessableEntityError
+    case 429:
+      return RateLimitExceededError
+  }
+  return status && status >= 500 ? ServerError : ContentfulApiError
+}
@@ -1,8 +1,10 @@
 import cloneDeep from 'lodash/cloneDeep'
 import { AxiosInstance } from 'axios'
-import type { MetaSysProps, DefaultElements } from './common-types'
+import type { MetaSysProps, DefaultElements, RequestOptions } from './common-types'
+import { withRequestOptions } from './common-utils'
 
 import errorHandler from './error-handler'
+import { createPatch, getOriginal, PatchOperation, PatchUpdateOptions } from './json-patch'
 
 type ThisContext = { sys: MetaSysProps } & DefaultElements<{ sys: MetaSysProps }>
 type WrapperMethod<E, A extends AxiosInstance = AxiosInstance> = (http: A, data: any) => E
@@ -20,19 +22,62 @@ export function createUpdateEntity<T>({
   entityPath: string
   wrapperMethod: WrapperMethod<T>
   headers?: Record<string, unknown>
-}): () => Promise<T> {
-  return function () {
+}): (options?: PatchUpdateOptions) => Promise<T> {
+  const patchEntity = createPatchEntity({ http, entityPath, wrapperMethod })
+
+  return function (options?: PatchUpdateOptions) {
     const self = this as ThisContext
     const raw = self.toPlainObject()
+    const original = options && options.patch && getOriginal(self)
+    if (original) {
+      const operations = createPatch(original as typeof raw, raw)
+      // nothing changed, so there is nothing to send
+      return operations.length > 0
+        ? patchEntity.call(self, operations, options)
+        : Promise.resolve((self as unknown) as T)
+    }
     const data = cloneDeep(raw)
     delete data.sys
     return http
-      .put(entityPath + '/' + self.sys.id, data, {
-        headers: {
-          'X-Contentful-Version': self.sys.version || 0, // if there is no sys.version, just send 0
-          ...headers,
-        },
-      })
+      .put(
+        entityPath + '/' + self.sys.id,
+        data,
+        withRequestOptions(options, {
+          headers: {
+            'X-Contentful-Version': self.sys.version || 0, // if there is no sys.version, just send 0
+            ...headers,
+          },
+        })
+      )
+      .then((response) => wrapperMethod(http, response.data), errorHandler)
+  }
+}
+
+/**
+ * @private
+ */
+export function createPatchEntity<T>({
+  http,
+  entityPath,
+  wrapperMethod,
+}: {
+  http: AxiosInstance
+  entityPath: string
+  wrapperMethod: WrapperMethod<T>
+}) {
+  return function (operations: PatchOperation[], options?: RequestOptions) {
+    const self = this as ThisContext
+    return http
+      .patch(
+        entityPath + '/' + self.sys.id,
+        operations,
+        withRequestOptions(options, {
+          headers: {
+            'X-Contentful-Version': self.sys.version,
+            'Content-Type': 'application/json-patch+json',
+          },
+        })
+      )
       .then((response) => wrapperMethod(http, response.data), errorHandler)
   }
 }
@@ -47,9 +92,9 @@ export function createDeleteEntity({
   http: AxiosInstance
   entityPath: string
 }) {
-  return function () {
+  return function (options?: RequestOptions) {
     const self = this as ThisContext
-    return http.delete(entityPath + '/' + self.sys.id).then(() => {
+    return http.delete(entityPath + '/' + self.sys.id, withRequestOptions(options)).then(() => {
       // do nothing
     }, errorHandler)
   }
@@ -67,14 +112,18 @@ export function createPublishEntity<T>({
   entityPath: string
   wrapperMethod: WrapperMethod<T>
 }) {
-  return function () {
+  return function (options?: RequestOptions) {
     const self = this as ThisContext
     return http
-      .put<T>(entityPath + '/' + self.sys.id + '/published', null, {
-        headers: {
-          'X-Contentful-Version': self.sys.version,
-        },
-      })
+      .put<T>(
+        entityPath + '/' + self.sys.id + '/published',
+        null,
+        withRequestOptions(options, {
+          headers: {
+            'X-Contentful-Version': self.sys.version,
+          },
+        })
+      )
       .then((response) => wrapperMethod(http, response.data), errorHandler)
   }
 }
@@ -91,10 +140,10 @@ export function createUnpublishEntity<T>({
   entityPath: string
   wrapperMethod: WrapperMethod<T>
 }) {
-  return function () {
+  return function (options?: RequestOptions) {
     const self = this as ThisContext
     return http
-      .delete<T>(entityPath + '/' + self.sys.id + '/published')
+      .delete<T>(entityPath + '/' + self.sys.id + '/published', withRequestOptions(options))
       .then((response) => wrapperMethod(http, response.data), errorHandler)
   }
 }
@@ -111,10 +160,10 @@ export function createArchiveEntity<T>({
   entityPath: string
   wrapperMethod: WrapperMethod<T>
 }) {
-  return function () {
+  return function (options?: RequestOptions) {
     const self = this as ThisContext
     return http
-      .put<T>(entityPath + '/' + self.sys.id + '/archived')
+      .put<T>(entityPath + '/' + self.sys.id + '/archived', undefined, withRequestOptions(options))
       .then((response) => wrapperMethod(http, response.data), errorHandler)
   }
 }
@@ -131,10 +180,10 @@ export function createUnarchiveEntity<T>({
   entityPath: string
   wrapperMethod: WrapperMethod<T>
 }) {
-  return function () {
+  return function (options?: RequestOptions) {
     const self = this
     return http
-      .delete<T>(entityPath + '/' + self.sys.id + '/archived')
+      .delete<T>(entityPath + '/' + self.sys.id + '/archived', withRequestOptions(options))
       .then((response) => wrapperMethod(http, response.data), errorHandler)
   }
 }
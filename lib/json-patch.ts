@@ -0,0 +1,235 @@
+/**
+ * JSON Patch (RFC 6902) operations for partial updates of entries and assets.
+ * @packageDocumentation
+ */
+
+import cloneDeep from 'lodash/cloneDeep'
+import isEqual from 'lodash/isEqual'
+import isPlainObject from 'lodash/isPlainObject'
+import { RequestOptions } from './common-types'
+
+export type AddOperation = { op: 'add'; path: string; value: unknown }
+export type RemoveOperation = { op: 'remove'; path: string }
+export type ReplaceOperation = { op: 'replace'; path: string; value: unknown }
+export type MoveOperation = { op: 'move'; from: string; path: string }
+export type CopyOperation = { op: 'copy'; from: string; path: string }
+export type TestOperation = { op: 'test'; path: string; value: unknown }
+
+export type PatchOperation =
+  | AddOperation
+  | RemoveOperation
+  | ReplaceOperation
+  | MoveOperation
+  | CopyOperation
+  | TestOperation
+
+export interface PatchUpdateOptions extends RequestOptions {
+  /**
+   * Sends only the values changed since the entity was fetched as a JSON Patch,
+   * instead of the whole entity, so concurrent changes of other values are kept
+   */
+  patch?: boolean
+}
+
+function escapePathSegment(segment: string | number) {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+function toPointer(path: Array<string | number>) {
+  return path.map((segment) => `/${escapePathSegment(segment)}`).join('')
+}
+
+function diffValues(
+  original: unknown,
+  modified: unknown,
+  path: Array<string | number>,
+  operations: PatchOperation[]
+) {
+  if (isEqual(original, modified)) {
+    return
+  }
+  if (isPlainObject(original) && isPlainObject(modified)) {
+    const originalObject = original as Record<string, unknown>
+    const modifiedObject = modified as Record<string, unknown>
+    Object.keys(originalObject).forEach((key) => {
+      if (!(key in modifiedObject) || modifiedObject[key] === undefined) {
+        if (originalObject[key] !== undefined) {
+          operations.push({ op: 'remove', path: toPointer(path.concat(key)) })
+        }
+      } else {
+        diffValues(originalObject[key], modifiedObject[key], path.concat(key), operations)
+      }
+    })
+    Object.keys(modifiedObject).forEach((key) => {
+      const isNew = !(key in originalObject) || originalObject[key] === undefined
+      if (isNew && modifiedObject[key] !== undefined) {
+        operations.push({
+          op: 'add',
+          path: toPointer(path.concat(key)),
+          value: cloneDeep(modifiedObject[key]),
+        })
+      }
+    })
+    return
+  }
+  // arrays of the same length are patched per item, others are replaced as a whole
+  if (Array.isArray(original) && Array.isArray(modified) && original.length === modified.length) {
+    original.forEach((item, index) =>
+      diffValues(item, modified[index], path.concat(index), operations)
+    )
+    return
+  }
+  operations.push({ op: 'replace', path: toPointer(path), value: cloneDeep(modified) })
+}
+
+/**
+ * Computes the operations which turn the original into the modified object,
+ * `sys` is left out as it can't be patched
+ * @example ```javascript
+ * const entry = await environment.getEntry('<entry_id>')
+ * const changed = entry.toPlainObject()
+ * changed.fields.title['en-US'] = 'New title'
+ * createPatch(entry.toPlainObject(), changed)
+ * // [{ op: 'replace', path: '/fields/title/en-US', value: 'New title' }]
+ * ```
+ */
+export function createPatch<T extends { sys?: unknown }>(original: T, modified: T) {
+  const operations: PatchOperation[] = []
+  const originalData = { ...original }
+  const modifiedData = { ...modified }
+  delete originalData.sys
+  delete modifiedData.sys
+  diffValues(originalData, modifiedData, [], operations)
+  return operations
+}
+
+function parsePointer(pointer: string) {
+  if (pointer !== '' && pointer[0] !== '/') {
+    throw createPatchError(`Invalid path ${pointer}`)
+  }
+  return pointer
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+function createPatchError(message: string) {
+  const error = new Error(message)
+  error.name = 'InvalidJsonPatch'
+  return error
+}
+
+type Container = Record<string, unknown> | unknown[]
+
+/**
+ * Resolves the parent of the path, the root document is wrapped in `{ root }`
+ * so that operations on the root have a parent as well
+ */
+function resolveParent(wrapper: Container, pointer: string) {
+  const segments = ['root'].concat(parsePointer(pointer))
+  const key = segments.pop() as string
+  const parent = segments.reduce<unknown>((current, segment) => {
+    // arrays are indexed by the string of the index as well
+    const child = current ? (current as Record<string, unknown>)[segment] : undefined
+    if (!child || typeof child !== 'object') {
+      throw createPatchError(`Path ${pointer} does not exist`)
+    }
+    return child
+  }, wrapper)
+  return { parent: parent as Container, key }
+}
+
+function getIndex(array: unknown[], key: string, allowEnd: boolean) {
+  const index = key === '-' && allowEnd ? array.length : Number(key)
+  if (!/^(0|[1-9]\d*|-)$/.test(key) || index > (allowEnd ? array.length : array.length - 1)) {
+    throw createPatchError(`Index ${key} is out of bounds`)
+  }
+  return index
+}
+
+function getValue(wrapper: Container, pointer: string) {
+  const { parent, key } = resolveParent(wrapper, pointer)
+  if (Array.isArray(parent)) {
+    return parent[getIndex(parent, key, false)]
+  }
+  if (!(key in parent)) {
+    throw createPatchError(`Path ${pointer} does not exist`)
+  }
+  return parent[key]
+}
+
+function addValue(wrapper: Container, pointer: string, value: unknown) {
+  const { parent, key } = resolveParent(wrapper, pointer)
+  if (Array.isArray(parent)) {
+    parent.splice(getIndex(parent, key, true), 0, value)
+  } else {
+    parent[key] = value
+  }
+}
+
+function removeValue(wrapper: Container, pointer: string) {
+  const value = getValue(wrapper, pointer)
+  const { parent, key } = resolveParent(wrapper, pointer)
+  if (Array.isArray(parent)) {
+    parent.splice(Number(key), 1)
+  } else {
+    delete parent[key]
+  }
+  return value
+}
+
+/**
+ * Applies the operations to a copy of the document, the first failing operation
+ * throws an `InvalidJsonPatch` error
+ * @private
+ */
+export function applyPatch<T>(document: T, operations: PatchOperation[]): T {
+  const wrapper = { root: cloneDeep(document) } as Record<string, unknown>
+  operations.forEach((operation) => {
+    switch (operation.op) {
+      case 'add':
+        addValue(wrapper, operation.path, cloneDeep(operation.value))
+        break
+      case 'remove':
+        removeValue(wrapper, operation.path)
+        break
+      case 'replace':
+        removeValue(wrapper, operation.path)
+        addValue(wrapper, operation.path, cloneDeep(operation.value))
+        break
+      case 'move':
+        addValue(wrapper, operation.path, removeValue(wrapper, operation.from))
+        break
+      case 'copy':
+        addValue(wrapper, operation.path, cloneDeep(getValue(wrapper, operation.from)))
+        break
+      case 'test':
+        if (!isEqual(getValue(wrapper, operation.path), operation.value)) {
+          throw createPatchError(`Test of ${operation.path} failed`)
+        }
+        break
+      default:
+        throw createPatchError(`Unknown operation ${(operation as { op: string }).op}`)
+    }
+  })
+  return wrapper.root as T
+}
+
+const originals = new WeakMap<object, unknown>()
+
+/**
+ * Remembers the data an entity was wrapped with, which `update({ patch: true })` diffs against.
+ * The data is not copied, the wrappers already work on a copy of it.
+ * @private
+ */
+export function rememberOriginal<T extends object>(entity: T, data: unknown) {
+  originals.set(entity, data)
+  return entity
+}
+
+/**
+ * @private
+ */
+export function getOriginal(entity: object) {
+  return originals.get(entity)
+}
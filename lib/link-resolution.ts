@@ -0,0 +1,128 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import { AxiosInstance } from 'axios'
+import cloneDeep from 'lodash/cloneDeep'
+import { Collection, CollectionProp, RequestOptions } from './common-types'
+import { Asset, AssetProps, wrapAsset } from './entities/asset'
+import { Entry, EntryProp, wrapEntry } from './entities/entry'
+import { EntityLink, forEachLink } from './links'
+
+/**
+ * A link which is not part of the items or the includes of the response, it is left
+ * in place as it is
+ */
+export type UnresolvedLink = {
+  /** Link to the entry which contains the link */
+  source: EntityLink
+  /** Path of the link in the entry, e.g. `['fields', 'author', 'en-US']` */
+  path: Array<string | number>
+  link: EntityLink
+}
+
+export interface EntryIncludes {
+  Entry?: EntryProp[]
+  Asset?: AssetProps[]
+}
+
+export type EntryCollectionProp = CollectionProp<EntryProp> & { includes?: EntryIncludes }
+
+export interface GetEntriesOptions extends RequestOptions {
+  /**
+   * Replaces the links in the fields of the entries with the linked entries and assets
+   * from the items and the `includes` of the response, request them with `include`
+   * @default false
+   */
+  resolveLinks?: boolean
+}
+
+export interface ResolvedEntryCollection extends Collection<Entry, EntryProp> {
+  includes: { Entry: Entry[]; Asset: Asset[] }
+  unresolvedLinks: UnresolvedLink[]
+  toPlainObject(): EntryCollectionProp & { unresolvedLinks: UnresolvedLink[] }
+}
+
+/**
+ * Collection resolved by `getEntries`, depending on the `resolveLinks` option
+ */
+export type EntryCollectionResult<O extends GetEntriesOptions> = O extends { resolveLinks: true }
+  ? ResolvedEntryCollection
+  : Collection<Entry, EntryProp>
+
+function getKey(type: string, id: string) {
+  return `${type}:${id}`
+}
+
+/**
+ * Wraps the entries and the included entries and assets, and puts them in place of the
+ * links in the fields, locale values, arrays and rich text of every entry. An entity is
+ * wrapped once, so entries linking each other share the instances and cycles end in
+ * entities which were already resolved instead of being followed.
+ * @private
+ */
+export function resolveEntryCollection(
+  http: AxiosInstance,
+  data: EntryCollectionProp
+): ResolvedEntryCollection {
+  const entities = new Map<string, Entry | Asset>()
+  const unresolvedLinks: UnresolvedLink[] = []
+
+  function register<T extends Entry | Asset>(entity: T) {
+    const key = getKey(entity.sys.type, entity.sys.id)
+    const existing = entities.get(key) as T | undefined
+    if (existing) {
+      return existing
+    }
+    entities.set(key, entity)
+    return entity
+  }
+
+  const includes = data.includes || {}
+  const items = data.items.map((item) => register(wrapEntry(http, item)))
+  const includedEntries = (includes.Entry || []).map((item) => register(wrapEntry(http, item)))
+  const includedAssets = (includes.Asset || []).map((item) => register(wrapAsset(http, item)))
+
+  // only the data of the entries is walked, the resolved entities are not descended into
+  entities.forEach((entity) => {
+    if (entity.sys.type === 'Entry') {
+      const source: EntityLink = { sys: { type: 'Link', linkType: 'Entry', id: entity.sys.id } }
+      forEachLink(
+        (entity as Entry).fields,
+        ({ link, container, key, path }) => {
+          const target = entities.get(getKey(link.sys.linkType, link.sys.id))
+          if (target) {
+            container[key] = target
+          } else {
+            unresolvedLinks.push({ source, path, link: cloneDeep(link) })
+          }
+        },
+        ['fields']
+      )
+    }
+  })
+
+  const collection = {
+    ...cloneDeep(data),
+    items,
+    includes: { Entry: includedEntries, Asset: includedAssets },
+    unresolvedLinks,
+  }
+  return Object.defineProperty(collection, 'toPlainObject', {
+    enumerable: false,
+    configurable: false,
+    writable: false,
+    value: function (this: ResolvedEntryCollection) {
+      return {
+        ...cloneDeep(data),
+        items: this.items.map((item) => item.toPlainObject()),
+        includes: {
+          Entry: this.includes.Entry.map((entry) => entry.toPlainObject()),
+          Asset: this.includes.Asset.map((asset) => asset.toPlainObject()),
+        },
+        unresolvedLinks: cloneDeep(this.unresolvedLinks),
+      }
+    },
+  }) as ResolvedEntryCollection
+}
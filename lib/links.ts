@@ -0,0 +1,62 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+export type EntityLink = {
+  sys: { type: 'Link'; linkType: 'Entry' | 'Asset'; id: string }
+}
+
+export type FoundLink = {
+  link: EntityLink
+  /** Object or array which contains the link */
+  container: Record<string, unknown>
+  key: string
+  /** Path of the link from where the search started */
+  path: Array<string | number>
+  /** Type of the innermost rich text node which contains the link */
+  nodeType?: string
+}
+
+/**
+ * @private
+ */
+export function isEntityLink(value: unknown): value is EntityLink {
+  const link = value as { sys?: { type?: string; linkType?: string } } | null
+  return (
+    !!link &&
+    !!link.sys &&
+    link.sys.type === 'Link' &&
+    (link.sys.linkType === 'Entry' || link.sys.linkType === 'Asset')
+  )
+}
+
+/**
+ * Calls the callback with every link to an entry or asset in the value, including the
+ * links in arrays and in the `data.target` of rich text nodes. Links are not descended
+ * into, so the callback can replace them in their container.
+ * @private
+ */
+export function forEachLink(
+  value: Record<string, unknown> | unknown[],
+  callback: (found: FoundLink) => void,
+  path: Array<string | number> = [],
+  nodeType?: string
+) {
+  const container = value as Record<string, unknown>
+  Object.keys(container).forEach((key) => {
+    const child = container[key]
+    const childPath = path.concat(Array.isArray(value) ? Number(key) : key)
+    if (isEntityLink(child)) {
+      callback({ link: child, container, key, path: childPath, nodeType })
+    } else if (child && typeof child === 'object') {
+      const childNodeType = (child as { nodeType?: unknown }).nodeType
+      forEachLink(
+        child as Record<string, unknown>,
+        callback,
+        childPath,
+        typeof childNodeType === 'string' ? childNodeType : nodeType
+      )
+    }
+  })
+}
@@ -0,0 +1,247 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import { AxiosInstance } from 'axios'
+import { RequestOptions } from './common-types'
+import { withAbortSignal } from './abort'
+import { ContentTypeProps } from './entities/content-type'
+import { LocaleProps } from './entities/locale'
+import errorHandler from './error-handler'
+
+export interface FieldValueOptions extends RequestOptions {
+  /**
+   * Follows the `fallbackCode` of the locales until a locale has a value
+   * @default false, true for `getLocalizedView`
+   */
+  fallback?: boolean
+}
+
+export interface SetFieldValueOptions extends RequestOptions {
+  /**
+   * Writes values of fields which are not localized to the default locale instead of
+   * rejecting locales other than the default locale
+   * @default false
+   */
+  redirect?: boolean
+}
+
+type Localization = {
+  locales: LocaleProps[]
+  defaultLocale: LocaleProps
+}
+
+type LocalizedEntity = {
+  sys: { contentType: { sys: { id: string } } }
+  fields: Record<string, Record<string, unknown> | undefined>
+}
+
+const localeCache = new WeakMap<AxiosInstance, Promise<LocaleProps[]>>()
+const contentTypeCache = new WeakMap<AxiosInstance, Map<string, Promise<ContentTypeProps>>>()
+
+function createLocalizationError(name: string, message: string) {
+  const error = new Error(message)
+  error.name = name
+  return error
+}
+
+/**
+ * Stores the locales of the environment of the client, `getLocales` calls this with
+ * every response so the cache can be refreshed by calling it
+ * @private
+ */
+export function cacheLocales(http: AxiosInstance, locales: LocaleProps[]) {
+  localeCache.set(http, Promise.resolve(locales))
+}
+
+/**
+ * Drops the cached locales, they are requested again when they are needed next
+ * @private
+ */
+export function clearLocales(http: AxiosInstance) {
+  localeCache.delete(http)
+}
+
+/**
+ * Stores a content type of the environment of the client
+ * @private
+ */
+export function cacheContentType(http: AxiosInstance, contentType: ContentTypeProps) {
+  const contentTypes = contentTypeCache.get(http) || new Map<string, Promise<ContentTypeProps>>()
+  contentTypes.set(contentType.sys.id, Promise.resolve(contentType))
+  contentTypeCache.set(http, contentTypes)
+}
+
+/**
+ * Drops a cached content type, it is requested again when it is needed next
+ * @private
+ */
+export function clearContentType(http: AxiosInstance, id: string) {
+  const contentTypes = contentTypeCache.get(http)
+  if (contentTypes) {
+    contentTypes.delete(id)
+  }
+}
+
+// the cached requests are shared by all callers, so they are sent without the signal of
+// the first one and each caller only stops waiting when its own signal is aborted
+
+function getLocales(http: AxiosInstance, options: RequestOptions = {}) {
+  let locales = localeCache.get(http)
+  if (!locales) {
+    locales = http
+      .get<{ items: LocaleProps[] }>('locales')
+      .then((response) => response.data.items, errorHandler)
+    // failed requests are not cached
+    locales.catch(() => clearLocales(http))
+    localeCache.set(http, locales)
+  }
+  return withAbortSignal(locales, options.signal)
+}
+
+function getContentType(http: AxiosInstance, id: string, options: RequestOptions = {}) {
+  const contentTypes = contentTypeCache.get(http) || new Map<string, Promise<ContentTypeProps>>()
+  contentTypeCache.set(http, contentTypes)
+  let contentType = contentTypes.get(id)
+  if (!contentType) {
+    contentType = http
+      .get<ContentTypeProps>('content_types/' + id)
+      .then((response) => response.data, errorHandler)
+    contentType.catch(() => contentTypes.delete(id))
+    contentTypes.set(id, contentType)
+  }
+  return withAbortSignal(contentType, options.signal)
+}
+
+/**
+ * Lists the locale and the locales it falls back to, in the order they are tried
+ * @private
+ */
+export function getFallbackChain(locales: LocaleProps[], code: string) {
+  const chain: string[] = []
+  let locale: LocaleProps | undefined = locales.find((candidate) => candidate.code === code)
+  if (!locale) {
+    throw createLocalizationError('UnknownLocale', `The locale ${code} does not exist`)
+  }
+  // fallbacks can't be cyclic in the API, the check only protects against broken data
+  while (locale && chain.indexOf(locale.code) === -1) {
+    chain.push(locale.code)
+    const fallbackCode: string | undefined = locale.fallbackCode
+    locale = fallbackCode ? locales.find((candidate) => candidate.code === fallbackCode) : undefined
+  }
+  return chain
+}
+
+function loadLocalization(http: AxiosInstance, options?: RequestOptions) {
+  return getLocales(http, options).then(
+    (locales): Localization => {
+      const defaultLocale = locales.find((locale) => locale.default) || locales[0]
+      return { locales, defaultLocale }
+    }
+  )
+}
+
+function findField(contentType: ContentTypeProps, fieldId: string) {
+  const field = contentType.fields.find((candidate) => candidate.id === fieldId)
+  if (!field) {
+    throw createLocalizationError(
+      'UnknownField',
+      `The content type ${contentType.sys.id} has no field ${fieldId}`
+    )
+  }
+  return field
+}
+
+function readValue(
+  entity: LocalizedEntity,
+  contentType: ContentTypeProps,
+  { locales, defaultLocale }: Localization,
+  fieldId: string,
+  locale: string,
+  fallback: boolean
+) {
+  const values = entity.fields[fieldId] || {}
+  const chain = getFallbackChain(locales, locale)
+  // fields which are not localized only have a value for the default locale
+  if (!findField(contentType, fieldId).localized) {
+    return values[defaultLocale.code]
+  }
+  const codes = fallback ? chain : chain.slice(0, 1)
+  const code = codes.find((candidate) => values[candidate] !== undefined)
+  return code === undefined ? undefined : values[code]
+}
+
+function loadContext(http: AxiosInstance, entity: LocalizedEntity, options?: RequestOptions) {
+  return Promise.all([
+    getContentType(http, entity.sys.contentType.sys.id, options),
+    loadLocalization(http, options),
+  ])
+}
+
+/**
+ * @private
+ */
+export function getFieldValue(
+  http: AxiosInstance,
+  entity: LocalizedEntity,
+  fieldId: string,
+  locale: string,
+  options: FieldValueOptions = {}
+) {
+  return loadContext(http, entity, options).then(([contentType, localization]) =>
+    readValue(entity, contentType, localization, fieldId, locale, !!options.fallback)
+  )
+}
+
+/**
+ * Sets the value on the entity, the locale is checked against the field and the locales
+ * @private
+ */
+export function setFieldValue(
+  http: AxiosInstance,
+  entity: LocalizedEntity,
+  fieldId: string,
+  locale: string,
+  value: unknown,
+  options: SetFieldValueOptions = {}
+) {
+  return loadContext(http, entity, options).then(([contentType, { locales, defaultLocale }]) => {
+    getFallbackChain(locales, locale)
+    let code = locale
+    if (!findField(contentType, fieldId).localized && locale !== defaultLocale.code) {
+      if (!options.redirect) {
+        throw createLocalizationError(
+          'FieldNotLocalized',
+          `The field ${fieldId} is not localized, its value can only be set for ${defaultLocale.code}`
+        )
+      }
+      code = defaultLocale.code
+    }
+    entity.fields[fieldId] = { ...entity.fields[fieldId], [code]: value }
+  })
+}
+
+/**
+ * @private
+ */
+export function getLocalizedView(
+  http: AxiosInstance,
+  entity: LocalizedEntity,
+  locale: string,
+  options: FieldValueOptions = {}
+) {
+  const { fallback = true } = options
+  return loadContext(http, entity, options).then(([contentType, localization]) =>
+    Object.keys(entity.fields).reduce<Record<string, unknown>>((view, fieldId) => {
+      // values of fields removed from the content type are left out
+      if (contentType.fields.some((field) => field.id === fieldId)) {
+        const value = readValue(entity, contentType, localization, fieldId, locale, fallback)
+        if (value !== undefined) {
+          view[fieldId] = value
+        }
+      }
+      return view
+    }, {})
+  )
+}
@@ -0,0 +1,52 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import { AxiosAdapter, AxiosRequestConfig, AxiosResponse } from 'axios'
+
+/**
+ * Continues with the next middleware, or sends the request after the last one.
+ * Uses the config the current middleware received when called without arguments.
+ */
+export type MiddlewareNext = (config?: AxiosRequestConfig) => Promise<AxiosResponse>
+
+/**
+ * Receives the outgoing request config and a function to continue the pipeline.
+ * Has to resolve with a response, either the one `next()` resolved with or its own,
+ * or reject with an error.
+ */
+export type Middleware = (
+  config: AxiosRequestConfig,
+  next: MiddlewareNext
+) => Promise<AxiosResponse>
+
+/**
+ * Composes the given middleware around the adapter. The first middleware
+ * in the list is the outermost one.
+ * @private
+ */
+export function composeMiddleware(middleware: Middleware[], adapter: AxiosAdapter): AxiosAdapter {
+  if (middleware.length === 0) {
+    return adapter
+  }
+
+  return function middlewareAdapter(config: AxiosRequestConfig) {
+    function dispatch(index: number, currentConfig: AxiosRequestConfig): Promise<AxiosResponse> {
+      if (index === middleware.length) {
+        return adapter(currentConfig)
+      }
+      try {
+        return Promise.resolve(
+          middleware[index](currentConfig, (nextConfig = currentConfig) =>
+            dispatch(index + 1, nextConfig)
+          )
+        )
+      } catch (error) {
+        return Promise.reject(error)
+      }
+    }
+
+    return dispatch(0, config)
+  }
+}
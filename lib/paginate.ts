@@ -0,0 +1,211 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import { BasicCursorPaginationOptions, RequestOptions } from './common-types'
+
+export interface PaginationOptions extends RequestOptions {
+  /**
+   * Number of items requested per page
+   * @default the `limit` of the query or 100
+   */
+  pageSize?: number
+  /**
+   * Number of pages requested at the same time
+   * @default 1
+   */
+  concurrency?: number
+}
+
+/**
+ * Items of all pages of a collection, fetched page by page while iterating
+ */
+export interface PaginatedCollection<T> extends AsyncIterable<T> {
+  /** Fetches all pages and resolves with their items */
+  collectAll(): Promise<T[]>
+}
+
+/**
+ * Items of all pages of a cursor paginated collection, fetched page by page while iterating
+ */
+export interface CursorPaginatedCollection<T> extends PaginatedCollection<T> {
+  /**
+   * Cursor of the page after the last requested page, undefined after the last page.
+   * Pass it as `next` in the query to resume the iteration with that page later. Resuming
+   * only works at page boundaries: when the iteration stopped within a page, the remaining
+   * items of that page are not part of the resumed iteration.
+   */
+  getNextCursor(): string | undefined
+}
+
+type Page<T> = { items: T[]; total: number }
+
+type CursorPage<T> = { items: T[]; pages?: BasicCursorPaginationOptions }
+
+const DEFAULT_PAGE_SIZE = 100
+
+function noop() {
+  // errors of prefetched pages are thrown when the page is reached
+}
+
+function collectAll<T>(iterator: AsyncIterator<T>) {
+  const collected: T[] = []
+  const collect = (): Promise<T[]> =>
+    iterator.next().then((result) => {
+      if (result.done) {
+        return collected
+      }
+      collected.push(result.value)
+      return collect()
+    })
+  return collect()
+}
+
+/**
+ * Iterates over the items of all pages from the `skip` of the query until `total`.
+ * The first page is fetched alone to learn the total, then up to `concurrency`
+ * pages are fetched ahead while iterating.
+ * @private
+ */
+export function paginate<T, Q extends { skip?: number; limit?: number }>(
+  fetchPage: (query: Q) => Promise<Page<T>>,
+  query: Q,
+  { pageSize, concurrency = 1 }: PaginationOptions = {}
+): PaginatedCollection<T> {
+  const limit = pageSize || query.limit || DEFAULT_PAGE_SIZE
+
+  function createIterator(): AsyncIterator<T> {
+    let nextSkip = query.skip || 0
+    let total: number | undefined
+    let items: T[] = []
+    let done = false
+    const pages: Promise<Page<T>>[] = []
+
+    function fetchNextPage() {
+      const page = fetchPage({ ...query, skip: nextSkip, limit })
+      page.catch(noop)
+      pages.push(page)
+      nextSkip += limit
+    }
+
+    function next(): Promise<IteratorResult<T>> {
+      if (items.length > 0) {
+        return Promise.resolve({ value: items.shift() as T, done: false })
+      }
+      if (total === undefined && pages.length === 0) {
+        fetchNextPage()
+      }
+      if (done || pages.length === 0) {
+        done = true
+        return Promise.resolve({ value: undefined, done: true })
+      }
+      return (pages.shift() as Promise<Page<T>>).then((page) => {
+        total = page.total
+        items = page.items.slice()
+        // an empty page ends the iteration even when the total changed in the meantime
+        done = items.length === 0
+        while (!done && pages.length < concurrency && nextSkip < total) {
+          fetchNextPage()
+        }
+        return next()
+      })
+    }
+
+    return {
+      next,
+      return() {
+        done = true
+        items = []
+        return Promise.resolve({ value: undefined, done: true })
+      },
+    }
+  }
+
+  return {
+    [Symbol.asyncIterator]: createIterator,
+
+    collectAll() {
+      return collectAll(createIterator())
+    },
+  }
+}
+
+/**
+ * Gets the cursor of a `pages` link, which is either the cursor itself or a path
+ * with the cursor in its `next` or `prev` query parameter
+ * @private
+ */
+export function getCursor(link: string | undefined, parameter: 'next' | 'prev' = 'next') {
+  if (!link) {
+    return undefined
+  }
+  const match = new RegExp(`[?&]${parameter}=([^&]*)`).exec(link)
+  return match ? decodeURIComponent(match[1]) : link
+}
+
+/**
+ * Iterates over the items of all pages by following `pages.next` from the `next`
+ * cursor of the query, or from the first page without one, until no next page is left.
+ * @private
+ */
+export function paginateCursor<T, Q extends BasicCursorPaginationOptions & { limit?: number }>(
+  fetchPage: (query: Q) => Promise<CursorPage<T>>,
+  query: Q,
+  { pageSize }: PaginationOptions = {}
+): CursorPaginatedCollection<T> {
+  const limit = pageSize || query.limit || DEFAULT_PAGE_SIZE
+  let nextCursor = query.next
+
+  function createIterator(): AsyncIterator<T> {
+    let cursor = query.next
+    let started = false
+    let items: T[] = []
+    let done = false
+
+    function next(): Promise<IteratorResult<T>> {
+      if (items.length > 0) {
+        return Promise.resolve({ value: items.shift() as T, done: false })
+      }
+      if (done || (started && !cursor)) {
+        done = true
+        return Promise.resolve({ value: undefined, done: true })
+      }
+      started = true
+      const pageQuery = { ...query, limit }
+      delete pageQuery.prev
+      delete pageQuery.next
+      if (cursor) {
+        pageQuery.next = cursor
+      }
+      return fetchPage(pageQuery).then((page) => {
+        items = page.items.slice()
+        cursor = getCursor(page.pages && page.pages.next)
+        nextCursor = cursor
+        done = items.length === 0
+        return next()
+      })
+    }
+
+    return {
+      next,
+      return() {
+        done = true
+        items = []
+        return Promise.resolve({ value: undefined, done: true })
+      },
+    }
+  }
+
+  return {
+    [Symbol.asyncIterator]: createIterator,
+
+    collectAll() {
+      return collectAll(createIterator())
+    },
+
+    getNextCursor() {
+      return nextCursor
+    },
+  }
+}
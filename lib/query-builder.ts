@@ -0,0 +1,261 @@
+/**
+ * Fluent builder for the query parameters of collection methods.
+ * @packageDocumentation
+ */
+
+import { QueryOptions } from './common-types'
+import { ContentFields } from './entities/content-type-fields'
+
+/**
+ * Types of content type fields, as in the `type` of `ContentFields`
+ */
+export type FieldType = ContentFields['type']
+
+/**
+ * Maps the field ids of a content type to their types, e.g. `{ title: 'Symbol'; rating: 'Integer' }`
+ */
+export type FieldTypeMap = Record<string, FieldType>
+
+type Operators = {
+  Symbol: 'eq' | 'ne' | 'in' | 'nin' | 'exists' | 'match'
+  Text: 'eq' | 'ne' | 'exists' | 'match'
+  RichText: 'exists'
+  Integer: 'eq' | 'ne' | 'in' | 'nin' | 'exists' | 'lt' | 'lte' | 'gt' | 'gte'
+  Number: 'eq' | 'ne' | 'in' | 'nin' | 'exists' | 'lt' | 'lte' | 'gt' | 'gte'
+  Date: 'eq' | 'ne' | 'exists' | 'lt' | 'lte' | 'gt' | 'gte'
+  Boolean: 'eq' | 'ne' | 'exists'
+  Object: 'exists'
+  Location: 'exists' | 'near' | 'within'
+  Link: 'exists'
+  Array: 'eq' | 'ne' | 'in' | 'nin' | 'all' | 'exists'
+}
+
+type ScalarValues = {
+  Symbol: string
+  Text: string
+  RichText: never
+  Integer: number
+  Number: number
+  Date: string | Date
+  Boolean: boolean
+  Object: never
+  Location: never
+  Link: never
+  /** One of the symbols in the array */
+  Array: string
+}
+
+/**
+ * Operators which can be used on fields of a type, `eq` is the plain equality
+ */
+export type OperatorOf<T extends FieldType> = Operators[T]
+
+/**
+ * Value of a filter with the operator on a field of the type
+ */
+export type ValueOf<T extends FieldType, O extends Operator> = O extends 'exists'
+  ? boolean
+  : O extends 'in' | 'nin' | 'all'
+  ? ScalarValues[T][]
+  : O extends 'near'
+  ? [number, number]
+  : O extends 'within'
+  ? [number, number, number] | [number, number, number, number]
+  : ScalarValues[T]
+
+type Operator = Operators[FieldType] | LinkOperator
+
+type LinkOperator = 'eq' | 'ne' | 'in' | 'nin' | 'exists'
+
+type LinkValueOf<O extends LinkOperator> = O extends 'exists'
+  ? boolean
+  : O extends 'in' | 'nin'
+  ? string[]
+  : string
+
+/**
+ * Ids of the fields of the type in the field type map
+ */
+type FieldsOfType<F extends FieldTypeMap, T extends FieldType> = {
+  [K in keyof F]: F[K] extends T ? K : never
+}[keyof F] &
+  string
+
+type SysFieldTypes = {
+  id: 'Symbol'
+  type: 'Symbol'
+  version: 'Integer'
+  publishedVersion: 'Integer'
+  archivedVersion: 'Integer'
+  publishedCounter: 'Integer'
+  createdAt: 'Date'
+  updatedAt: 'Date'
+  publishedAt: 'Date'
+  firstPublishedAt: 'Date'
+  archivedAt: 'Date'
+  createdBy: 'Link'
+  updatedBy: 'Link'
+  publishedBy: 'Link'
+  archivedBy: 'Link'
+  contentType: 'Link'
+}
+
+export type SysField = keyof SysFieldTypes
+
+type SysValueField = Exclude<SysField, SysLinkField>
+
+type SysLinkField = 'createdBy' | 'updatedBy' | 'publishedBy' | 'archivedBy' | 'contentType'
+
+export type OrderDirection = 'asc' | 'desc'
+
+export interface QueryBuilder<F extends FieldTypeMap> {
+  /** Only entries of the content type */
+  contentType(id: string): QueryBuilder<F>
+  /**
+   * Filters by a field value
+   * @example ```javascript
+   * query.where('rating', 'gte', 3).where('title', 'match', 'hello')
+   * ```
+   */
+  where<K extends keyof F & string, O extends OperatorOf<F[K]>>(
+    fieldId: K,
+    operator: O,
+    value: ValueOf<F[K], O>
+  ): QueryBuilder<F>
+  /** Filters by the id of the entity a link field links to */
+  whereLink<O extends LinkOperator>(
+    fieldId: FieldsOfType<F, 'Link'>,
+    operator: O,
+    value: LinkValueOf<O>
+  ): QueryBuilder<F>
+  /** Filters by a sys property */
+  whereSys<K extends SysValueField, O extends OperatorOf<SysFieldTypes[K]>>(
+    key: K,
+    operator: O,
+    value: ValueOf<SysFieldTypes[K], O>
+  ): QueryBuilder<F>
+  /** Filters by the id of the entity a sys link, like `createdBy` or `contentType`, links to */
+  whereSysLink<O extends LinkOperator>(
+    key: SysLinkField,
+    operator: O,
+    value: LinkValueOf<O>
+  ): QueryBuilder<F>
+  /** Filters by the ids of the tags in the metadata */
+  whereTags<O extends 'in' | 'nin' | 'all' | 'exists'>(
+    operator: O,
+    value: ValueOf<'Array', O>
+  ): QueryBuilder<F>
+  /** Only entries linking to the entry */
+  linksToEntry(id: string): QueryBuilder<F>
+  /** Only entries linking to the asset */
+  linksToAsset(id: string): QueryBuilder<F>
+  /** Adds a field to the order, earlier calls take precedence */
+  orderBy(fieldId: keyof F & string, direction?: OrderDirection): QueryBuilder<F>
+  /** Adds a sys property to the order, earlier calls take precedence */
+  orderBySys(key: SysField, direction?: OrderDirection): QueryBuilder<F>
+  /** Only returns `sys` and the fields, and `metadata` when `withMetadata` is set */
+  select(fieldIds: Array<keyof F & string>, withMetadata?: boolean): QueryBuilder<F>
+  skip(skip: number): QueryBuilder<F>
+  limit(limit: number): QueryBuilder<F>
+  /** Compiles the query parameters, which can be passed to `getEntries` and other collection methods */
+  build(): QueryOptions
+}
+
+function formatValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join(',')
+  }
+  return value instanceof Date ? value.toISOString() : value
+}
+
+function formatKey(path: string, operator: Operator) {
+  return operator === 'eq' ? path : `${path}[${operator}]`
+}
+
+function formatLinkKey(path: string, operator: LinkOperator) {
+  return formatKey(operator === 'exists' ? path : `${path}.sys.id`, operator)
+}
+
+type State = {
+  query: QueryOptions
+  order: string[]
+}
+
+function createBuilder<F extends FieldTypeMap>(state: State): QueryBuilder<F> {
+  const withQuery = (query: QueryOptions) =>
+    createBuilder<F>({ ...state, query: { ...state.query, ...query } })
+  const withOrder = (key: string, direction: OrderDirection = 'asc') =>
+    createBuilder<F>({
+      ...state,
+      order: state.order.concat(direction === 'desc' ? `-${key}` : key),
+    })
+
+  return {
+    // eslint-disable-next-line @typescript-eslint/camelcase
+    contentType: (id) => withQuery({ content_type: id }),
+
+    where: (fieldId, operator, value) =>
+      withQuery({ [formatKey(`fields.${fieldId}`, operator)]: formatValue(value) }),
+
+    whereLink: (fieldId, operator, value) =>
+      withQuery({ [formatLinkKey(`fields.${fieldId}`, operator)]: formatValue(value) }),
+
+    whereSys: (key, operator, value) =>
+      withQuery({ [formatKey(`sys.${key}`, operator)]: formatValue(value) }),
+
+    whereSysLink: (key, operator, value) =>
+      withQuery({ [formatLinkKey(`sys.${key}`, operator)]: formatValue(value) }),
+
+    whereTags: (operator, value) =>
+      withQuery({ [`metadata.tags.sys.id[${operator}]`]: formatValue(value) }),
+
+    // eslint-disable-next-line @typescript-eslint/camelcase
+    linksToEntry: (id) => withQuery({ links_to_entry: id }),
+
+    // eslint-disable-next-line @typescript-eslint/camelcase
+    linksToAsset: (id) => withQuery({ links_to_asset: id }),
+
+    orderBy: (fieldId, direction) => withOrder(`fields.${fieldId}`, direction),
+
+    orderBySys: (key, direction) => withOrder(`sys.${key}`, direction),
+
+    select: (fieldIds, withMetadata = false) =>
+      withQuery({
+        select: ['sys']
+          .concat(withMetadata ? ['metadata'] : [])
+          .concat(fieldIds.map((fieldId) => `fields.${fieldId}`))
+          .join(','),
+      }),
+
+    skip: (skip) => withQuery({ skip }),
+
+    limit: (limit) => withQuery({ limit }),
+
+    build: () => {
+      const query = { ...state.query }
+      if (state.order.length > 0) {
+        query.order = state.order.join(',')
+      }
+      return query
+    },
+  }
+}
+
+/**
+ * Creates an empty query. The field types of the content type make `where`, `whereLink`,
+ * `orderBy` and `select` check the field ids, operators and values at compile time.
+ * @example ```javascript
+ * const query = createQuery<{ title: 'Symbol'; rating: 'Integer'; author: 'Link' }>()
+ *   .contentType('blogPost')
+ *   .where('rating', 'gte', 3)
+ *   .whereLink('author', 'in', ['<author_id>'])
+ *   .orderBy('rating', 'desc')
+ *   .orderBySys('createdAt')
+ *   .build()
+ *
+ * environment.getEntries(query)
+ * ```
+ */
+export function createQuery<F extends FieldTypeMap = FieldTypeMap>(): QueryBuilder<F> {
+  return createBuilder<F>({ query: {}, order: [] })
+}
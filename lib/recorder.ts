@@ -0,0 +1,334 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import { AxiosAdapter, AxiosRequestConfig, AxiosResponse } from 'axios'
+import { buildFullURL, createAdapterError } from './adapters/fetch-adapter'
+
+export type RecorderMode = 'record' | 'replay' | 'passthrough'
+
+export type RecorderOptions = {
+  /**
+   * `record` sends requests and writes them with their responses to the cassette,
+   * `replay` answers requests from the cassette without any network access and
+   * `passthrough` sends requests without recording them.
+   */
+  mode: RecorderMode
+  /**
+   * Directory the cassettes are written to and read from
+   */
+  fixturesDir: string
+  /**
+   * Name of the cassette file, without the `.json` extension
+   * @default cassette
+   */
+  cassette?: string
+}
+
+export type RecordedRequest = {
+  method: string
+  path: string
+  query: Record<string, string>
+  body?: unknown
+}
+
+export type RecordedInteraction = {
+  request: RecordedRequest
+  response: Pick<AxiosResponse, 'status' | 'statusText' | 'headers' | 'data'>
+}
+
+type Cassette = {
+  mode: RecorderMode
+  interactions: RecordedInteraction[]
+  replayed: boolean[]
+}
+
+const ACCESS_TOKEN_PLACEHOLDER = '<ACCESS_TOKEN>'
+const TIMESTAMP_PLACEHOLDER = '<TIMESTAMP>'
+const BINARY_PLACEHOLDER = '<BINARY>'
+const FIXED_TIMESTAMP = '2000-01-01T00:00:00.000Z'
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/
+
+/**
+ * Response headers which differ on every request or would change
+ * the behaviour of the client when replayed
+ */
+const VOLATILE_HEADERS = [
+  /^date$/,
+  /^age$/,
+  /^via$/,
+  /^connection$/,
+  /^keep-alive$/,
+  /^transfer-encoding$/,
+  /^content-length$/,
+  /^set-cookie$/,
+  /^server-timing$/,
+  /^cf-/,
+  /^x-cache/,
+  /^x-served-by$/,
+  /^x-timer$/,
+  /^x-contentful-request-id$/,
+  /^x-contentful-route$/,
+  /^x-contentful-ratelimit-/,
+]
+
+type FileSystem = {
+  fs: typeof import('fs')
+  path: typeof import('path')
+}
+
+// clients which use the same cassette file share it, so no client overwrites the others
+const cassettes = new Map<string, Cassette>()
+
+/**
+ * Loads the Node.js modules for the cassette files only when a recorder is created,
+ * so they are not part of the browser bundles
+ */
+function loadFileSystem(): FileSystem {
+  /* eslint-disable @typescript-eslint/no-var-requires */
+  const fs = require('fs')
+  const path = require('path')
+  /* eslint-enable @typescript-eslint/no-var-requires */
+  if (typeof fs.readFileSync !== 'function' || typeof path.resolve !== 'function') {
+    throw new TypeError('The recorder needs the file system of Node.js to read and write cassettes')
+  }
+  return { fs, path }
+}
+
+function ensureDir({ fs, path }: FileSystem, dir: string) {
+  if (!fs.existsSync(dir)) {
+    ensureDir({ fs, path }, path.dirname(dir))
+    fs.mkdirSync(dir)
+  }
+}
+
+function getCassette({ fs }: FileSystem, file: string, mode: RecorderMode) {
+  let cassette = cassettes.get(file)
+  if (!cassette || cassette.mode !== mode) {
+    const interactions =
+      mode === 'replay' ? (JSON.parse(fs.readFileSync(file, 'utf8')) as RecordedInteraction[]) : []
+    cassette = { mode, interactions, replayed: interactions.map(() => false) }
+    cassettes.set(file, cassette)
+  }
+  return cassette
+}
+
+function parseJSON(data: unknown) {
+  if (typeof data !== 'string') {
+    return data
+  }
+  try {
+    return JSON.parse(data)
+  } catch (error) {
+    return data
+  }
+}
+
+function mapValues(value: unknown, fn: (value: unknown, key: string) => unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => mapValues(item, fn))
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value as object).reduce((result, key) => {
+      result[key] = mapValues(fn((value as Record<string, unknown>)[key], key), fn)
+      return result
+    }, {} as Record<string, unknown>)
+  }
+  return value
+}
+
+/**
+ * Token fields of API keys and personal access tokens
+ */
+const TOKEN_KEYS = ['accessToken', 'token']
+
+function stripTokens(value: unknown, token?: string) {
+  return mapValues(value, (item, key) => {
+    if (typeof item !== 'string') {
+      return item
+    }
+    if (TOKEN_KEYS.indexOf(key) !== -1) {
+      return ACCESS_TOKEN_PLACEHOLDER
+    }
+    return token ? item.split(token).join(ACCESS_TOKEN_PLACEHOLDER) : item
+  })
+}
+
+/**
+ * Timestamps in request bodies would prevent replayed requests from matching
+ */
+function normalizeRequestBody(body: unknown) {
+  return mapValues(body, (item) =>
+    typeof item === 'string' && ISO_TIMESTAMP.test(item) ? TIMESTAMP_PLACEHOLDER : item
+  )
+}
+
+/**
+ * Replaces the timestamps in sys objects of response bodies
+ */
+function normalizeResponseBody(body: unknown) {
+  return mapValues(body, (item, key) =>
+    key === 'sys' && item && typeof item === 'object'
+      ? Object.keys(item as object).reduce((sys, sysKey) => {
+          const sysValue = (item as Record<string, unknown>)[sysKey]
+          sys[sysKey] =
+            typeof sysValue === 'string' && ISO_TIMESTAMP.test(sysValue)
+              ? FIXED_TIMESTAMP
+              : sysValue
+          return sys
+        }, {} as Record<string, unknown>)
+      : item
+  )
+}
+
+function normalizeHeaders(headers: Record<string, string> = {}) {
+  return Object.keys(headers)
+    .filter((name) => !VOLATILE_HEADERS.some((pattern) => pattern.test(name.toLowerCase())))
+    .sort()
+    .reduce((result, name) => {
+      result[name.toLowerCase()] = headers[name]
+      return result
+    }, {} as Record<string, string>)
+}
+
+function getToken(config: AxiosRequestConfig) {
+  const authorization = config.headers && config.headers['Authorization']
+  return typeof authorization === 'string' ? authorization.replace(/^Bearer\s*/, '') : undefined
+}
+
+/**
+ * Describes a request independent of host, headers and token
+ * @private
+ */
+export function normalizeRequest(config: AxiosRequestConfig): RecordedRequest {
+  const [fullPath, search = ''] = buildFullURL(config)
+    .replace(/^[a-z]+:\/\/[^/]+/i, '')
+    .split('?')
+  const query = search
+    .split('&')
+    .filter(Boolean)
+    .map((pair) => pair.split('=').map((part) => decodeURIComponent(part.replace(/\+/g, ' '))))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .reduce((result, [key, value = '']) => {
+      result[key] = value
+      return result
+    }, {} as Record<string, string>)
+  const request: RecordedRequest = {
+    method: (config.method || 'get').toUpperCase(),
+    path: fullPath,
+    query,
+  }
+  if (typeof config.data === 'string') {
+    request.body = normalizeRequestBody(stripTokens(parseJSON(config.data), getToken(config)))
+  } else if (config.data !== undefined && config.data !== null) {
+    // uploaded files are streams or buffers, which are matched by their presence only
+    request.body = BINARY_PLACEHOLDER
+  }
+  return request
+}
+
+function isSameRequest(a: RecordedRequest, b: RecordedRequest) {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function describe(request: RecordedRequest) {
+  const search = Object.keys(request.query)
+    .map((key) => `${key}=${request.query[key]}`)
+    .join('&')
+  return `${request.method} ${request.path}${search ? '?' + search : ''}`
+}
+
+function record(
+  fileSystem: FileSystem,
+  file: string,
+  cassette: Cassette,
+  config: AxiosRequestConfig,
+  response: AxiosResponse
+) {
+  const token = getToken(config)
+  cassette.interactions.push({
+    request: normalizeRequest(config),
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers: normalizeHeaders(response.headers),
+      data: normalizeResponseBody(stripTokens(parseJSON(response.data), token)),
+    },
+  })
+  ensureDir(fileSystem, fileSystem.path.dirname(file))
+  fileSystem.fs.writeFileSync(file, JSON.stringify(cassette.interactions, null, 2) + '\n')
+}
+
+function replay(file: string, cassette: Cassette, config: AxiosRequestConfig) {
+  const request = normalizeRequest(config)
+  const index = cassette.interactions.findIndex(
+    (interaction, i) => !cassette.replayed[i] && isSameRequest(interaction.request, request)
+  )
+  if (index === -1) {
+    const error = new Error(`No recorded response for ${describe(request)} in ${file}`)
+    error.name = 'RecordedInteractionNotFound'
+    return Promise.reject(error)
+  }
+  cassette.replayed[index] = true
+
+  const recorded = cassette.interactions[index].response
+  const response: AxiosResponse = {
+    ...recorded,
+    headers: { ...recorded.headers },
+    data: JSON.parse(JSON.stringify(recorded.data === undefined ? null : recorded.data)),
+    config,
+    request: {},
+  }
+  const { validateStatus } = config
+  if (!validateStatus || validateStatus(response.status)) {
+    return Promise.resolve(response)
+  }
+  return Promise.reject(
+    createAdapterError(
+      `Request failed with status code ${response.status}`,
+      config,
+      null,
+      response.request,
+      response
+    )
+  )
+}
+
+/**
+ * Wraps the given transport so requests are recorded to or replayed from a
+ * cassette file, depending on the mode
+ * @private
+ */
+export function createRecordingAdapter(
+  { mode, fixturesDir, cassette: name = 'cassette' }: RecorderOptions,
+  adapter: AxiosAdapter
+): AxiosAdapter {
+  if (['record', 'replay', 'passthrough'].indexOf(mode) === -1) {
+    throw new TypeError(`Unknown recorder mode ${mode}, expected record, replay or passthrough`)
+  }
+  if (mode === 'passthrough') {
+    return adapter
+  }
+  const fileSystem = loadFileSystem()
+  const file = fileSystem.path.resolve(fixturesDir, `${name}.json`)
+
+  return function recordingAdapter(config: AxiosRequestConfig) {
+    const cassette = getCassette(fileSystem, file, mode)
+    if (mode === 'replay') {
+      return replay(file, cassette, config)
+    }
+    return adapter(config).then(
+      (response) => {
+        record(fileSystem, file, cassette, config, response)
+        return response
+      },
+      (error) => {
+        if (error && error.response) {
+          record(fileSystem, file, cassette, config, error.response)
+        }
+        throw error
+      }
+    )
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import { AxiosAdapter, AxiosRequestConfig, AxiosResponse } from 'axios'
+import cloneDeep from 'lodash/cloneDeep'
+import isPlainObject from 'lodash/isPlainObject'
+
+export type RedactionOptions = {
+  /**
+   * JSONPath-like paths of additional secret values in request and response bodies,
+   * e.g. `$.fields.password['en-US']`, `$..clientSecret` or `$.parameters[?(@.secret)].value`
+   */
+  paths?: string[]
+  /** Names of additional request headers with secret values */
+  headers?: string[]
+  /**
+   * Redact the webhook `httpBasicPassword` and secret header values, the `accessToken`
+   * of API keys and the `token` of personal access tokens
+   * @default true
+   */
+  defaultPaths?: boolean
+  /** @default '[REDACTED]' */
+  replacement?: string
+}
+
+export type Redactor = {
+  /** Copies a body with the secret values replaced, JSON strings stay strings */
+  redactData<T>(data: T): T
+  /** Copies headers with the secret values replaced and the access token shortened */
+  redactHeaders<T>(headers: T): T
+  /** Replaces known secrets, like the access token, in a log message */
+  redactText(text: string): string
+  redactConfig(config: AxiosRequestConfig): AxiosRequestConfig
+  redactResponse(response: AxiosResponse): AxiosResponse
+}
+
+type Segment =
+  | { type: 'key'; key: string }
+  | { type: 'wildcard' }
+  | { type: 'descendants'; key: string }
+  | { type: 'filter'; property: string }
+
+export const DEFAULT_REDACTED_PATHS = [
+  '$..httpBasicPassword',
+  '$..headers[?(@.secret)].value',
+  '$..accessToken',
+  '$..token',
+]
+
+const DEFAULT_REPLACEMENT = '[REDACTED]'
+
+/**
+ * Parses paths like `$.a.b`, `$['a'].b[0]`, `$.items[*].a`, `$..a` and `$.a[?(@.secret)].b`
+ * @private
+ */
+export function parsePath(path: string): Segment[] {
+  const pattern = /^(?:\.\.(\w+)|\.(\w+|\*)|\[\*\]|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\]|\[\?\(@\.(\w+)\)\])/
+  const segments: Segment[] = []
+  let rest = path.replace(/^\$/, '')
+  while (rest.length > 0) {
+    const match = pattern.exec(rest)
+    if (!match) {
+      throw new TypeError(`Invalid redaction path ${path}`)
+    }
+    const [whole, descendant, key, index, singleQuoted, doubleQuoted, filter] = match
+    if (descendant) {
+      segments.push({ type: 'descendants', key: descendant })
+    } else if (filter) {
+      segments.push({ type: 'filter', property: filter })
+    } else if (key === '*' || whole === '[*]') {
+      segments.push({ type: 'wildcard' })
+    } else {
+      const name = [key, index, singleQuoted, doubleQuoted].find((part) => part !== undefined)
+      segments.push({ type: 'key', key: name as string })
+    }
+    rest = rest.slice(whole.length)
+  }
+  return segments
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object'
+}
+
+function redactSegments(value: unknown, segments: Segment[], replacement: string): void {
+  if (!isObject(value) || segments.length === 0) {
+    return
+  }
+  const [segment, ...rest] = segments
+  const children = Object.keys(value)
+
+  const visit = (key: string) => {
+    if (rest.length === 0) {
+      if (value[key] !== undefined && value[key] !== null) {
+        value[key] = replacement
+      }
+      return
+    }
+    redactSegments(value[key], rest, replacement)
+  }
+
+  switch (segment.type) {
+    case 'key':
+      if (segment.key in value) {
+        visit(segment.key)
+      }
+      return
+    case 'wildcard':
+      children.forEach(visit)
+      return
+    case 'filter':
+      children
+        .filter(
+          (key) => isObject(value[key]) && (value[key] as Record<string, unknown>)[segment.property]
+        )
+        .forEach(visit)
+      return
+    case 'descendants':
+      children.forEach((key) => {
+        if (key === segment.key) {
+          visit(key)
+        } else {
+          redactSegments(value[key], segments, replacement)
+        }
+      })
+  }
+}
+
+/**
+ * Creates the redaction of the client, `secrets` are values which are replaced in log messages
+ * @private
+ */
+export function createRedactor(options: RedactionOptions = {}, secrets: string[] = []): Redactor {
+  const { defaultPaths = true, replacement = DEFAULT_REPLACEMENT } = options
+  const paths = (defaultPaths ? DEFAULT_REDACTED_PATHS : [])
+    .concat(options.paths || [])
+    .map(parsePath)
+  const secretHeaders = (options.headers || []).map((header) => header.toLowerCase())
+  const knownSecrets = secrets.filter((secret) => secret && secret.length > 4)
+
+  function redactObject<T>(data: T): T {
+    const copy = cloneDeep(data)
+    paths.forEach((segments) => redactSegments(copy, segments, replacement))
+    return copy
+  }
+
+  function redactData<T>(data: T): T {
+    if (typeof data !== 'string') {
+      // uploads and other binary bodies are passed on as they are
+      return isPlainObject(data) || Array.isArray(data) ? redactObject(data) : data
+    }
+    try {
+      return (JSON.stringify(redactObject(JSON.parse(data))) as unknown) as T
+    } catch (error) {
+      return (redactText(data) as unknown) as T
+    }
+  }
+
+  function redactHeaders<T>(headers: T): T {
+    if (!isObject(headers)) {
+      return headers
+    }
+    const copy = { ...headers } as Record<string, unknown>
+    Object.keys(copy).forEach((name) => {
+      const value = copy[name]
+      if (name.toLowerCase() === 'authorization' && typeof value === 'string') {
+        copy[name] = `Bearer ...${value.substr(-5)}`
+      } else if (secretHeaders.indexOf(name.toLowerCase()) !== -1) {
+        copy[name] = replacement
+      }
+    })
+    return copy as T
+  }
+
+  function redactText(text: string) {
+    return knownSecrets.reduce((result, secret) => result.split(secret).join(replacement), text)
+  }
+
+  return {
+    redactData,
+    redactHeaders,
+    redactText,
+    redactConfig: (config) => ({
+      ...config,
+      headers: redactHeaders(config.headers),
+      data: redactData(config.data),
+    }),
+    redactResponse: (response) => ({
+      ...response,
+      data: redactData(response.data),
+      config: response.config && {
+        ...response.config,
+        headers: redactHeaders(response.config.headers),
+        data: redactData(response.config.data),
+      },
+    }),
+  }
+}
+
+const defaultRedactor = createRedactor()
+
+const redactors = new WeakMap<AxiosRequestConfig, Redactor>()
+
+/**
+ * Remembers the redaction of the client for the configs of its requests,
+ * so the error handler finds it through the config of failed requests.
+ * Adapters may copy the config, so the config of the error is remembered as well.
+ * @private
+ */
+export function createRedactionAdapter(redactor: Redactor, adapter: AxiosAdapter): AxiosAdapter {
+  return function redactionAdapter(config) {
+    redactors.set(config, redactor)
+    return adapter(config).catch((error) => {
+      if (error && error.config) {
+        redactors.set(error.config, redactor)
+      }
+      if (error && error.response && error.response.config) {
+        redactors.set(error.response.config, redactor)
+      }
+      throw error
+    })
+  }
+}
+
+/**
+ * @private
+ */
+export function getRedactor(config?: AxiosRequestConfig): Redactor {
+  return (config && redactors.get(config)) || defaultRedactor
+}
@@ -0,0 +1,185 @@
+/**
+ * Reference trees of entries and their traversal.
+ * @packageDocumentation
+ */
+
+import { Asset, AssetProps } from './entities/asset'
+import { Entry, EntryProp } from './entities/entry'
+import { EntityLink, forEachLink } from './links'
+
+export interface EntryReferenceQueryOptions {
+  /**
+   * Levels of references below the entry which are included in the response
+   */
+  include?: number
+}
+
+export type EntryReferenceProps = {
+  sys: { type: 'Array' }
+  items: EntryProp[]
+  includes?: { Entry?: EntryProp[]; Asset?: AssetProps[] }
+}
+
+export interface ReferenceNode {
+  /**
+   * The referenced entry or asset, missing when it is deeper than the included levels
+   * or does not exist
+   */
+  entity?: Entry | Asset
+  link: EntityLink
+  /** Path of the link in the parent entry, e.g. `['fields', 'author', 'en-US']`, empty for the root */
+  path: Array<string | number>
+  /** Type of the rich text node which contains the link, e.g. `embedded-entry-block` or `entry-hyperlink` */
+  nodeType?: string
+  /** Number of links between the root and the node, 0 for the root */
+  depth: number
+  /** Whether the node references one of its ancestors, its references are left out */
+  circular: boolean
+  children: ReferenceNode[]
+}
+
+export interface ReferenceTree {
+  root: ReferenceNode
+  /** Every referenced entry and asset of the response once */
+  includes: { Entry: Entry[]; Asset: Asset[] }
+}
+
+export interface TraverseReferencesOptions {
+  /**
+   * Nodes with a greater `depth` are not visited
+   * @default no limit
+   */
+  maxDepth?: number
+  /**
+   * Only entries of these content types are passed to the visitor, the references of
+   * other entries and assets are still followed
+   */
+  contentTypes?: string[]
+}
+
+/**
+ * Called with every node of a reference tree, returning `false` skips the references of the node
+ */
+export type ReferenceVisitor = (
+  node: ReferenceNode,
+  parent: ReferenceNode | undefined
+) => boolean | void
+
+function getKey(type: string, id: string) {
+  return `${type}:${id}`
+}
+
+/**
+ * Builds the reference tree of the entry from the response of the references endpoint.
+ * An entity is wrapped once and shared by all nodes which reference it.
+ * @private
+ */
+export function buildReferenceTree(
+  entryId: string,
+  data: EntryReferenceProps,
+  wrapEntity: (entity: EntryProp | AssetProps) => Entry | Asset
+): ReferenceTree {
+  const entities = new Map<string, Entry | Asset>()
+  const includes = data.includes || {}
+
+  function wrapAll(items: Array<EntryProp | AssetProps> = []) {
+    return items.map((item) => {
+      const key = getKey(item.sys.type, item.sys.id)
+      const entity = entities.get(key) || wrapEntity(item)
+      entities.set(key, entity)
+      return entity
+    })
+  }
+
+  wrapAll(data.items)
+  const includedEntries = wrapAll(includes.Entry) as Entry[]
+  const includedAssets = wrapAll(includes.Asset) as Asset[]
+
+  function buildNode(
+    link: EntityLink,
+    path: ReferenceNode['path'],
+    nodeType: string | undefined,
+    ancestors: string[]
+  ): ReferenceNode {
+    const key = getKey(link.sys.linkType, link.sys.id)
+    const entity = entities.get(key)
+    const circular = ancestors.indexOf(key) !== -1
+    const node: ReferenceNode = {
+      entity,
+      link,
+      path,
+      depth: ancestors.length,
+      circular,
+      children: [],
+    }
+    if (nodeType) {
+      node.nodeType = nodeType
+    }
+    if (entity && entity.sys.type === 'Entry' && !circular) {
+      forEachLink(
+        (entity as Entry).fields,
+        (found) =>
+          node.children.push(
+            buildNode(found.link, found.path, found.nodeType, ancestors.concat(key))
+          ),
+        ['fields']
+      )
+    }
+    return node
+  }
+
+  return {
+    root: buildNode({ sys: { type: 'Link', linkType: 'Entry', id: entryId } }, [], undefined, []),
+    includes: { Entry: includedEntries, Asset: includedAssets },
+  }
+}
+
+/**
+ * Visits the nodes of a reference tree depth first, parents before their references
+ * @example ```javascript
+ * const tree = await entry.getReferences({ include: 3 })
+ * const assetIds = []
+ * traverseReferences(tree, (node) => {
+ *   if (node.entity && node.entity.sys.type === 'Asset') {
+ *     assetIds.push(node.entity.sys.id)
+ *   }
+ * })
+ *
+ * // only the pages, without following the references of the landing pages
+ * traverseReferences(tree, (node) => node.entity.sys.contentType.sys.id !== 'landingPage', {
+ *   contentTypes: ['page', 'landingPage'],
+ *   maxDepth: 2,
+ * })
+ * ```
+ */
+export function traverseReferences(
+  tree: ReferenceTree | ReferenceNode,
+  visitor: ReferenceVisitor,
+  options: TraverseReferencesOptions = {}
+) {
+  const { maxDepth = Infinity, contentTypes } = options
+
+  function isVisited(node: ReferenceNode) {
+    if (!contentTypes) {
+      return true
+    }
+    const entity = node.entity
+    return (
+      !!entity &&
+      entity.sys.type === 'Entry' &&
+      contentTypes.indexOf((entity as Entry).sys.contentType.sys.id) !== -1
+    )
+  }
+
+  function visit(node: ReferenceNode, parent: ReferenceNode | undefined) {
+    if (node.depth > maxDepth) {
+      return
+    }
+    if (isVisited(node) && visitor(node, parent) === false) {
+      return
+    }
+    node.children.forEach((child) => visit(child, node))
+  }
+
+  visit('root' in tree ? tree.root : tree, undefined)
+}
@@ -0,0 +1,47 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import { AxiosAdapter, AxiosRequestConfig, AxiosResponse } from 'axios'
+import cloneDeep from 'lodash/cloneDeep'
+import { buildFullURL } from './adapters/fetch-adapter'
+import { RequestOptions } from './common-types'
+
+function getRequestKey(config: AxiosRequestConfig) {
+  const headers = config.headers || {}
+  return `${buildFullURL(config)} ${headers['Authorization'] || ''}`
+}
+
+/**
+ * Wraps the given adapter so identical GET requests which are in flight at the
+ * same time share one request. Every caller receives its own copy of the response.
+ * @private
+ */
+export function createDeduplicatingAdapter(adapter: AxiosAdapter): AxiosAdapter {
+  const inFlight = new Map<string, Promise<AxiosResponse>>()
+
+  return function deduplicatingAdapter(config: AxiosRequestConfig & RequestOptions) {
+    // aborting a request must not cancel it for the other callers sharing it
+    if ((config.method || 'get').toLowerCase() !== 'get' || config.signal) {
+      return adapter(config)
+    }
+
+    const key = getRequestKey(config)
+    let request = inFlight.get(key)
+    if (!request) {
+      const done = () => {
+        inFlight.delete(key)
+      }
+      request = adapter(config)
+      request.then(done, done)
+      inFlight.set(key, request)
+    }
+
+    return request.then((response) => ({
+      ...response,
+      data: cloneDeep(response.data),
+      config,
+    }))
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import { AxiosAdapter, AxiosRequestConfig, AxiosResponse } from 'axios'
+import { createAbortError } from './abort'
+import { RequestOptions } from './common-types'
+
+export type RequestQueueOptions = {
+  /**
+   * Maximum number of requests in flight at the same time
+   * @default Infinity
+   */
+  concurrency?: number
+  /**
+   * Maximum number of requests started within one second
+   * @default Infinity
+   */
+  requestsPerSecond?: number
+}
+
+export type RequestQueueStats = {
+  /** Number of requests waiting to be sent */
+  queued: number
+  /** Number of requests currently in flight */
+  active: number
+  /** Number of requests which were sent */
+  sent: number
+  /** Average time in ms a sent request waited in the queue */
+  averageWaitTime: number
+  /** Longest time in ms a sent request waited in the queue */
+  maxWaitTime: number
+  /** Timestamp until which the queue is paused because the rate limit was reached */
+  pausedUntil?: number
+}
+
+export type RequestQueue = {
+  schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T>
+  pause(ms: number): void
+  getStats(): RequestQueueStats
+}
+
+type QueuedTask = {
+  run: () => void
+  enqueuedAt: number
+}
+
+const RATE_LIMIT_WINDOW = 1000
+
+/**
+ * Creates a queue which starts requests while the given concurrency and
+ * requests per second budgets allow it. All http clients sharing one queue
+ * share the budget.
+ * @private
+ */
+export function createRequestQueue({
+  concurrency = Infinity,
+  requestsPerSecond = Infinity,
+}: RequestQueueOptions = {}): RequestQueue {
+  const queue: QueuedTask[] = []
+  let startTimes: number[] = []
+  let active = 0
+  let sent = 0
+  let totalWaitTime = 0
+  let maxWaitTime = 0
+  let pausedUntil = 0
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  function scheduleDrain(delay: number) {
+    if (timer) {
+      return
+    }
+    timer = setTimeout(() => {
+      timer = null
+      drain()
+    }, delay)
+  }
+
+  function drain() {
+    while (queue.length > 0 && active < concurrency) {
+      const now = Date.now()
+      if (pausedUntil > now) {
+        scheduleDrain(pausedUntil - now)
+        return
+      }
+      startTimes = startTimes.filter((startTime) => startTime > now - RATE_LIMIT_WINDOW)
+      if (startTimes.length >= requestsPerSecond) {
+        scheduleDrain(startTimes[0] + RATE_LIMIT_WINDOW - now)
+        return
+      }
+
+      const task = queue.shift() as QueuedTask
+      const waitTime = now - task.enqueuedAt
+      startTimes.push(now)
+      active++
+      sent++
+      totalWaitTime += waitTime
+      maxWaitTime = Math.max(maxWaitTime, waitTime)
+      task.run()
+    }
+  }
+
+  return {
+    schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        // aborted requests leave the queue right away instead of waiting for their turn
+        const onAbort = () => {
+          const index = queue.indexOf(queuedTask)
+          if (index !== -1) {
+            queue.splice(index, 1)
+            reject(createAbortError())
+          }
+        }
+        const queuedTask: QueuedTask = {
+          enqueuedAt: Date.now(),
+          run: () => {
+            if (signal) {
+              signal.removeEventListener('abort', onAbort)
+            }
+            const done = () => {
+              active--
+              drain()
+            }
+            // a task which throws synchronously only rejects its own request
+            Promise.resolve()
+              .then(task)
+              .then(
+                (result) => {
+                  done()
+                  resolve(result)
+                },
+                (error) => {
+                  done()
+                  reject(error)
+                }
+              )
+          },
+        }
+
+        if (signal) {
+          signal.addEventListener('abort', onAbort)
+        }
+        queue.push(queuedTask)
+        drain()
+      })
+    },
+
+    pause(ms: number) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms)
+    },
+
+    getStats() {
+      return {
+        queued: queue.length,
+        active,
+        sent,
+        averageWaitTime: sent ? totalWaitTime / sent : 0,
+        maxWaitTime,
+        pausedUntil: pausedUntil > Date.now() ? pausedUntil : undefined,
+      }
+    },
+  }
+}
+
+/**
+ * Pauses the queue until the rate limit resets when the response tells us
+ * that there are no requests left within the current second.
+ */
+function adaptToRateLimitHeaders(queue: RequestQueue, response?: AxiosResponse) {
+  if (!response || !response.headers) {
+    return
+  }
+  const remaining = response.headers['x-contentful-ratelimit-second-remaining']
+  const reset = response.headers['x-contentful-ratelimit-reset']
+  if (response.status === 429 || (remaining !== undefined && Number(remaining) <= 0)) {
+    queue.pause(Math.max(Number(reset) || 0, 1) * 1000)
+  }
+}
+
+/**
+ * Wraps the given adapter so every request passes through the queue
+ * @private
+ */
+export function createQueuedAdapter(queue: RequestQueue, adapter: AxiosAdapter): AxiosAdapter {
+  return function queuedAdapter(config: AxiosRequestConfig & RequestOptions) {
+    return queue.schedule(
+      () =>
+        adapter(config).then(
+          (response) => {
+            adaptToRateLimitHeaders(queue, response)
+            return response
+          },
+          (error) => {
+            adaptToRateLimitHeaders(queue, error && error.response)
+            throw error
+          }
+        ),
+      config.signal
+    )
+  }
+}
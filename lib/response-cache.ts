@@ -0,0 +1,170 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import { AxiosAdapter, AxiosRequestConfig, AxiosResponse } from 'axios'
+import cloneDeep from 'lodash/cloneDeep'
+import { buildFullURL } from './adapters/fetch-adapter'
+
+export type CacheEntry = {
+  etag?: string
+  lastModified?: string
+  response: Pick<AxiosResponse, 'data' | 'status' | 'statusText' | 'headers'>
+}
+
+/**
+ * Storage for cached responses. Methods may return promises, so the cache
+ * can be backed by an external store.
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>
+  set(key: string, entry: CacheEntry): void | Promise<void>
+  delete(key: string): void | Promise<void>
+  keys(): string[] | Promise<string[]>
+}
+
+export type CacheOptions = {
+  /**
+   * Custom store for cached responses
+   * @default in-memory LRU store
+   */
+  store?: CacheStore
+  /**
+   * Maximum number of responses kept by the default in-memory store
+   * @default 100
+   */
+  maxEntries?: number
+}
+
+const DEFAULT_MAX_ENTRIES = 100
+
+/**
+ * Creates an in-memory store which evicts the least recently used
+ * entry once it holds more than `maxEntries` entries
+ * @private
+ */
+export function createInMemoryCacheStore(maxEntries = DEFAULT_MAX_ENTRIES): CacheStore {
+  const entries = new Map<string, CacheEntry>()
+
+  return {
+    get(key) {
+      const entry = entries.get(key)
+      if (entry) {
+        // move the entry to the end, so the first one is always the least recently used
+        entries.delete(key)
+        entries.set(key, entry)
+      }
+      return entry
+    },
+    set(key, entry) {
+      entries.delete(key)
+      entries.set(key, entry)
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value)
+      }
+    },
+    delete(key) {
+      entries.delete(key)
+    },
+    keys() {
+      return Array.from(entries.keys())
+    },
+  }
+}
+
+function getPath(key: string) {
+  return key.split('?')[0].replace(/\/+$/, '')
+}
+
+/**
+ * A mutation of a path changes the cached responses for the path itself,
+ * for the collections and parents it belongs to and for its sub resources.
+ */
+function isAffectedBy(cachedPath: string, mutatedPath: string) {
+  return (
+    cachedPath === mutatedPath ||
+    mutatedPath.indexOf(cachedPath + '/') === 0 ||
+    cachedPath.indexOf(mutatedPath + '/') === 0
+  )
+}
+
+/**
+ * Actions like publishing change the entity they belong to
+ */
+const ACTION_PATH_SUFFIX = /\/(published|archived|files\/[^/]+\/process)$/
+
+function invalidate(store: CacheStore, path: string) {
+  const mutatedPath = path.replace(ACTION_PATH_SUFFIX, '')
+  return Promise.resolve(store.keys()).then((keys) =>
+    Promise.all(
+      keys.filter((key) => isAffectedBy(getPath(key), mutatedPath)).map((key) => store.delete(key))
+    )
+  )
+}
+
+/**
+ * Wraps the given adapter so GET responses with an ETag or Last-Modified
+ * header are cached and revalidated with conditional requests. Any other
+ * request invalidates the cached responses of the paths it touches.
+ * @private
+ */
+export function createCachingAdapter(
+  { maxEntries, store = createInMemoryCacheStore(maxEntries) }: CacheOptions,
+  adapter: AxiosAdapter
+): AxiosAdapter {
+  return function cachingAdapter(config: AxiosRequestConfig) {
+    const key = buildFullURL(config)
+    const method = (config.method || 'get').toLowerCase()
+
+    if (method !== 'get') {
+      const send = () => adapter(config)
+      return invalidate(store, getPath(key)).then(send, send)
+    }
+
+    return Promise.resolve(store.get(key))
+      .catch(() => undefined)
+      .then((cached) => {
+        const headers = { ...config.headers }
+        if (cached && cached.etag) {
+          headers['If-None-Match'] = cached.etag
+        }
+        if (cached && cached.lastModified) {
+          headers['If-Modified-Since'] = cached.lastModified
+        }
+
+        return adapter({ ...config, headers }).then(
+          (response: AxiosResponse) => {
+            const etag = response.headers && response.headers['etag']
+            const lastModified = response.headers && response.headers['last-modified']
+            if (etag || lastModified) {
+              const { data, status, statusText } = response
+              return Promise.resolve(
+                store.set(key, {
+                  etag,
+                  lastModified,
+                  response: { data, status, statusText, headers: response.headers },
+                })
+              ).then(
+                () => response,
+                () => response
+              )
+            }
+            return response
+          },
+          (error) => {
+            if (cached && error && error.response && error.response.status === 304) {
+              return {
+                ...cached.response,
+                // the cached body must not change when a caller mutates the served data
+                data: cloneDeep(cached.response.data),
+                config,
+                request: error.request,
+              }
+            }
+            throw error
+          }
+        )
+      })
+  }
+}
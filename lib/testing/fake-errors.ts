@@ -0,0 +1,58 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import { generateId } from './fake-store'
+
+export type FakeError = {
+  status: number
+  body: {
+    sys: { type: 'Error'; id: string }
+    message: string
+    details?: Record<string, unknown>
+    requestId: string
+  }
+}
+
+/**
+ * Creates an error response with the same body the API sends
+ * @private
+ */
+export function createFakeError(
+  status: number,
+  id: string,
+  message: string,
+  details?: Record<string, unknown>
+): FakeError {
+  return {
+    status,
+    body: {
+      sys: { type: 'Error', id },
+      message,
+      details,
+      requestId: generateId(),
+    },
+  }
+}
+
+/**
+ * @private
+ */
+export function isFakeError(error: unknown): error is FakeError {
+  return !!error && typeof (error as FakeError).status === 'number' && !!(error as FakeError).body
+}
+
+/**
+ * @private
+ */
+export function notFound(type: string, id: string) {
+  return createFakeError(404, 'NotFound', 'The resource could not be found.', { type, id })
+}
+
+/**
+ * @private
+ */
+export function versionMismatch() {
+  return createFakeError(409, 'VersionMismatch', 'Version mismatch error')
+}
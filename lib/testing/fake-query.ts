@@ -0,0 +1,308 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import { FakeData, FakeEntity, FakeLink } from './fake-store'
+import { createFakeError } from './fake-errors'
+
+export type FakeQuery = Record<string, string | string[] | undefined>
+
+/**
+ * Looks up the target of a link, used to resolve `include`
+ */
+export type FakeLinkResolver = (linkType: string, id: string) => FakeEntity | undefined
+
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 1000
+const MAX_INCLUDE = 10
+
+/**
+ * Query parameters which are no filters
+ */
+const RESERVED_PARAMETERS = [
+  'limit',
+  'skip',
+  'order',
+  'select',
+  'content_type',
+  'locale',
+  'query',
+  'include',
+  'links_to_entry',
+  'links_to_asset',
+]
+
+/**
+ * Resolves a dotted path. Arrays on the way are searched item by item,
+ * e.g. `metadata.tags.sys.id` returns the ids of all tags.
+ */
+function getValues(value: unknown, path: string[]): unknown[] {
+  if (path.length === 0) {
+    return Array.isArray(value) ? value : [value]
+  }
+  if (Array.isArray(value)) {
+    return value.reduce<unknown[]>((values, item) => values.concat(getValues(item, path)), [])
+  }
+  if (!value || typeof value !== 'object') {
+    return []
+  }
+  return getValues((value as Record<string, unknown>)[path[0]], path.slice(1))
+}
+
+/**
+ * Fields are localized, so a field filter matches a value in any locale
+ */
+function getFieldValues(entity: FakeEntity, path: string[]) {
+  if (path[0] !== 'fields' || path.length !== 2) {
+    return getValues(entity, path)
+  }
+  const field = entity.fields && entity.fields[path[1]]
+  if (!field || typeof field !== 'object') {
+    return []
+  }
+  return Object.keys(field).reduce<unknown[]>(
+    (values, locale) => values.concat(getValues(field[locale], [])),
+    []
+  )
+}
+
+function toList(value: string | string[]) {
+  return ([] as string[])
+    .concat(value)
+    .reduce<string[]>((list, item) => list.concat(item.split(',')), [])
+}
+
+/**
+ * Compares numbers as numbers, dates as dates and everything else as strings
+ */
+function compareWith(value: unknown, expected: string) {
+  if (typeof value === 'number') {
+    return value - Number(expected)
+  }
+  const time = Date.parse(String(value))
+  const expectedTime = Date.parse(expected)
+  if (!isNaN(time) && !isNaN(expectedTime)) {
+    return time - expectedTime
+  }
+  return String(value) === expected ? 0 : String(value) < expected ? -1 : 1
+}
+
+function matches(values: unknown[], operator: string, expected: string | string[]) {
+  const present = values.filter((value) => value !== undefined && value !== null)
+  const strings = present.map(String)
+  switch (operator) {
+    case 'ne':
+      return strings.indexOf(String(expected)) === -1
+    case 'in':
+      return toList(expected).some((item) => strings.indexOf(item) !== -1)
+    case 'nin':
+      return toList(expected).every((item) => strings.indexOf(item) === -1)
+    case 'all':
+      return toList(expected).every((item) => strings.indexOf(item) !== -1)
+    case 'exists':
+      return (String(expected) === 'true') === strings.length > 0
+    case 'match':
+      return strings.some(
+        (value) => value.toLowerCase().indexOf(String(expected).toLowerCase()) !== -1
+      )
+    case 'eq':
+      return strings.indexOf(String(expected)) !== -1
+    case 'lt':
+      return present.some((value) => compareWith(value, String(expected)) < 0)
+    case 'lte':
+      return present.some((value) => compareWith(value, String(expected)) <= 0)
+    case 'gt':
+      return present.some((value) => compareWith(value, String(expected)) > 0)
+    case 'gte':
+      return present.some((value) => compareWith(value, String(expected)) >= 0)
+    default:
+      throw createFakeError(400, 'BadRequest', `The operator "${operator}" is not supported`)
+  }
+}
+
+function isLink(value: unknown): value is FakeLink {
+  const sys = value && (value as FakeLink).sys
+  return !!sys && sys.type === 'Link' && typeof sys.id === 'string'
+}
+
+/**
+ * Finds all links in a value, including links in arrays and rich text nodes
+ */
+function getLinks(value: unknown): FakeLink[] {
+  if (isLink(value)) {
+    return [value]
+  }
+  if (!value || typeof value !== 'object') {
+    return []
+  }
+  const object = value as Record<string, unknown>
+  const values = Array.isArray(value) ? value : Object.keys(object).map((key) => object[key])
+  return values.reduce<FakeLink[]>((links, item) => links.concat(getLinks(item)), [])
+}
+
+function linksTo(entity: FakeEntity, linkType: string, ids: string[]) {
+  return getLinks(entity.fields).some(
+    (link) => link.sys.linkType === linkType && ids.indexOf(link.sys.id) !== -1
+  )
+}
+
+/**
+ * Resolves the links of the items up to the given depth, each entity is included once
+ */
+function getIncludes(items: FakeEntity[], depth: number, resolveLink: FakeLinkResolver) {
+  const includes: Record<string, FakeEntity[]> = { Entry: [], Asset: [] }
+  const seen: Record<string, boolean> = {}
+  items.forEach((entity) => {
+    seen[`${entity.sys.type}:${entity.sys.id}`] = true
+  })
+  let current = items
+  for (let level = 0; level < depth && current.length > 0; level++) {
+    const next: FakeEntity[] = []
+    current.forEach((entity) => {
+      getLinks(entity.fields).forEach(({ sys: { linkType, id } }) => {
+        const key = `${linkType}:${id}`
+        if (seen[key] || !(linkType in includes)) {
+          return
+        }
+        seen[key] = true
+        const linked = resolveLink(linkType, id)
+        if (linked) {
+          includes[linkType].push(linked)
+          next.push(linked)
+        }
+      })
+    })
+    current = next
+  }
+  return includes
+}
+
+function compare(a: unknown, b: unknown) {
+  if (a === b) {
+    return 0
+  }
+  if (a === undefined || a === null) {
+    return 1
+  }
+  if (b === undefined || b === null) {
+    return -1
+  }
+  return (a as string) < (b as string) ? -1 : 1
+}
+
+function select(entity: FakeEntity, paths: string[][]) {
+  const result: Record<string, FakeData> = {}
+  paths.forEach(([key, nested]) => {
+    if (!(key in entity)) {
+      return
+    }
+    if (nested === undefined) {
+      result[key] = entity[key]
+    } else if (entity[key] && nested in entity[key]) {
+      result[key] = { ...result[key], [nested]: entity[key][nested] }
+    }
+  })
+  return result as FakeEntity
+}
+
+/**
+ * Filters, orders, selects and paginates entities the way the API does.
+ * Linked entries and assets are included when a link resolver is passed.
+ * @private
+ */
+export function queryCollection(
+  entities: FakeEntity[],
+  query: FakeQuery,
+  resolveLink?: FakeLinkResolver
+) {
+  const limit = query.limit === undefined ? DEFAULT_LIMIT : Number(query.limit)
+  const skip = query.skip === undefined ? 0 : Number(query.skip)
+  const include = query.include === undefined ? undefined : Number(query.include)
+  if (isNaN(limit) || limit < 0 || limit > MAX_LIMIT) {
+    throw createFakeError(400, 'BadRequest', `The limit has to be between 0 and ${MAX_LIMIT}`)
+  }
+  if (isNaN(skip) || skip < 0) {
+    throw createFakeError(400, 'BadRequest', 'The skip has to be a positive number')
+  }
+  if (include !== undefined && (isNaN(include) || include < 0 || include > MAX_INCLUDE)) {
+    throw createFakeError(400, 'BadRequest', `The include has to be between 0 and ${MAX_INCLUDE}`)
+  }
+  Object.keys(query).forEach((key) => {
+    // filters always have a path, e.g. `fields.title` or `sys.id[in]`
+    if (RESERVED_PARAMETERS.indexOf(key) === -1 && key.indexOf('.') === -1) {
+      throw createFakeError(400, 'BadRequest', `The parameter "${key}" is not supported`)
+    }
+  })
+
+  let items = entities
+  if (query.content_type) {
+    items = items.filter(
+      (entity) =>
+        entity.sys.contentType && (entity.sys.contentType as FakeLink).sys.id === query.content_type
+    )
+  }
+  if (query.query) {
+    const text = String(query.query).toLowerCase()
+    items = items.filter(
+      (entity) =>
+        JSON.stringify(entity.fields || {})
+          .toLowerCase()
+          .indexOf(text) !== -1
+    )
+  }
+  if (query.links_to_entry) {
+    const ids = toList(query.links_to_entry)
+    items = items.filter((entity) => linksTo(entity, 'Entry', ids))
+  }
+  if (query.links_to_asset) {
+    const ids = toList(query.links_to_asset)
+    items = items.filter((entity) => linksTo(entity, 'Asset', ids))
+  }
+  Object.keys(query)
+    .filter((key) => RESERVED_PARAMETERS.indexOf(key) === -1)
+    .forEach((key) => {
+      const [, path, operator = 'eq'] = key.match(/^([^[]+)(?:\[(\w+)\])?$/) || []
+      if (!path) {
+        return
+      }
+      const expected = query[key] as string | string[]
+      items = items.filter((entity) =>
+        matches(getFieldValues(entity, path.split('.')), operator, expected)
+      )
+    })
+
+  if (query.order) {
+    const orders = toList(query.order as string).map((order) => ({
+      path: order.replace(/^-/, '').split('.'),
+      direction: order[0] === '-' ? -1 : 1,
+    }))
+    items = items.slice().sort((a, b) => {
+      for (const { path, direction } of orders) {
+        const result = compare(getFieldValues(a, path)[0], getFieldValues(b, path)[0])
+        if (result !== 0) {
+          return result * direction
+        }
+      }
+      return 0
+    })
+  }
+
+  let page = items.slice(skip, skip + limit)
+  if (query.select) {
+    const paths = toList(query.select as string).map((path) => path.split('.'))
+    page = page.map((entity) => select(entity, paths))
+  }
+
+  const collection = {
+    sys: { type: 'Array' },
+    total: items.length,
+    skip,
+    limit,
+    items: page,
+  }
+  if (include !== undefined && resolveLink) {
+    return { ...collection, includes: getIncludes(page, include, resolveLink) }
+  }
+  return collection
+}
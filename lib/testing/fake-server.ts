@@ -0,0 +1,786 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import http, { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'http'
+import { parse } from 'url'
+import cloneDeep from 'lodash/cloneDeep'
+import {
+  cloneEnvironment,
+  createFakeStore,
+  createSpace,
+  createSys,
+  ENVIRONMENT_RESOURCES,
+  FakeData,
+  FakeEntity,
+  FakeEnvironment,
+  FakeLink,
+  FakeSpace,
+  FakeStore,
+  FAKE_ORGANIZATION_ID,
+  FAKE_USER_ID,
+  generateId,
+  link,
+  now,
+  SPACE_RESOURCES,
+} from './fake-store'
+import { createFakeError, isFakeError, notFound, versionMismatch } from './fake-errors'
+import { FakeLinkResolver, FakeQuery, queryCollection } from './fake-query'
+import { applyPatch } from '../json-patch'
+
+type RequestContext = {
+  params: Record<string, string>
+  query: FakeQuery
+  headers: IncomingHttpHeaders
+  body: FakeData
+}
+
+type FakeResponse = {
+  status: number
+  body?: unknown
+}
+
+type Handler = (context: RequestContext) => FakeResponse
+
+type Route = {
+  method: string
+  pattern: RegExp
+  names: string[]
+  handler: Handler
+}
+
+type ResourceDefinition = {
+  type: string
+  publishable?: boolean
+  archivable?: boolean
+  /** Accepts JSON Patch updates */
+  patchable?: boolean
+  /** Rejects invalid data of created and updated entities */
+  validate?: (data: FakeData, context: RequestContext, existing?: FakeEntity) => void
+  /** Rejects publishing entities which are not valid yet */
+  validatePublish?: (entity: FakeEntity, context: RequestContext) => void
+  /** Adds type specific properties to the sys of new entities */
+  createSys?: (context: RequestContext) => Record<string, unknown>
+}
+
+export type FakeServerOptions = {
+  /**
+   * Port to listen on
+   * @default a random free port
+   */
+  port?: number
+  /**
+   * Spaces which exist right away, each with a master environment
+   */
+  spaces?: Array<{ id: string; name: string; defaultLocale?: string }>
+}
+
+export type FakeServer = {
+  /** Port the server listens on */
+  port: number
+  /** Host to pass to `createClient` together with `insecure: true` */
+  host: string
+  /** The in-memory data of the server */
+  store: FakeStore
+  /** Removes all data and creates the initial spaces again */
+  reset(): void
+  /** Stops the server */
+  close(): Promise<void>
+}
+
+function validationFailed(id: string, errors: Array<Record<string, unknown>>) {
+  return createFakeError(422, id, 'Validation error', { errors })
+}
+
+function requireProperties(data: FakeData, properties: string[]) {
+  const errors = properties
+    .filter((property) => !data || data[property] === undefined || data[property] === '')
+    .map((property) => ({
+      name: 'required',
+      path: [property],
+      details: `The property "${property}" is required here`,
+    }))
+  if (errors.length > 0) {
+    throw validationFailed('ValidationFailed', errors)
+  }
+}
+
+function getVersion(headers: IncomingHttpHeaders) {
+  const version = headers['x-contentful-version']
+  return version === undefined ? undefined : Number(version)
+}
+
+function checkVersion(entity: FakeEntity, context: RequestContext) {
+  if (getVersion(context.headers) !== entity.sys.version) {
+    throw versionMismatch()
+  }
+}
+
+function getSpace(store: FakeStore, context: RequestContext): FakeSpace {
+  const space = store.spaces.get(context.params.spaceId)
+  if (!space) {
+    throw notFound('Space', context.params.spaceId)
+  }
+  return space
+}
+
+function getEnvironment(store: FakeStore, context: RequestContext): FakeEnvironment {
+  const environmentId = context.params.environmentId || 'master'
+  const environment = getSpace(store, context).environments.get(environmentId)
+  if (!environment) {
+    throw notFound('Environment', environmentId)
+  }
+  return environment
+}
+
+function getDefaultLocale(environment: FakeEnvironment) {
+  let code = 'en-US'
+  environment.resources.locales.forEach((locale) => {
+    if (locale.default) {
+      code = locale.code
+    }
+  })
+  return code
+}
+
+function getLocaleCodes(environment: FakeEnvironment) {
+  const codes: string[] = []
+  environment.resources.locales.forEach((locale) => codes.push(locale.code))
+  return codes
+}
+
+function withoutSys(data: FakeData) {
+  const copy = cloneDeep(data || {})
+  delete copy.sys
+  return copy
+}
+
+/**
+ * Resolves links to the entries and assets of the environment of the request
+ */
+function createLinkResolver(store: FakeStore, context: RequestContext): FakeLinkResolver {
+  return (linkType, id) => {
+    const { entries, assets } = getEnvironment(store, context).resources
+    const entities = linkType === 'Entry' ? entries : linkType === 'Asset' ? assets : undefined
+    return entities && entities.get(id)
+  }
+}
+
+function collection(
+  entities: Map<string, FakeEntity>,
+  query: FakeQuery,
+  resolveLink?: FakeLinkResolver
+) {
+  const items: FakeEntity[] = []
+  entities.forEach((entity) => items.push(entity))
+  return { status: 200, body: queryCollection(items, query, resolveLink) }
+}
+
+/**
+ * Creates the request handlers for all endpoints of the fake server
+ */
+function createRoutes(store: FakeStore) {
+  const routes: Route[] = []
+
+  function route(method: string, path: string, handler: Handler) {
+    const names: string[] = []
+    const pattern = new RegExp(
+      '^' +
+        path.replace(/:(\w+)/g, (_, name) => {
+          names.push(name)
+          return '([^/]+)'
+        }) +
+        '/?$'
+    )
+    routes.push({ method, pattern, names, handler })
+  }
+
+  function validateContentType(data: FakeData) {
+    requireProperties(data, ['name'])
+    const fields = data.fields || []
+    const errors: Array<Record<string, unknown>> = []
+    fields.forEach((field: FakeData, index: number) => {
+      ;['id', 'name', 'type']
+        .filter((property) => !field[property])
+        .forEach((property) =>
+          errors.push({
+            name: 'required',
+            path: ['fields', index, property],
+            details: `The property "${property}" is required here`,
+          })
+        )
+    })
+    if (errors.length > 0) {
+      throw validationFailed('ValidationFailed', errors)
+    }
+  }
+
+  function getContentTypeOfEntry(context: RequestContext, existing?: FakeEntity) {
+    const environment = getEnvironment(store, context)
+    const contentTypeId = existing
+      ? (existing.sys.contentType as FakeLink).sys.id
+      : (context.headers['x-contentful-content-type'] as string)
+    const contentType = environment.resources.content_types.get(contentTypeId)
+    if (!contentType || !contentType.sys.publishedVersion) {
+      throw validationFailed('InvalidEntry', [
+        { name: 'unknownContentType', value: contentTypeId || 'DOESNOTEXIST' },
+      ])
+    }
+    return contentType
+  }
+
+  function validateEntry(data: FakeData, context: RequestContext, existing?: FakeEntity) {
+    const contentType = getContentTypeOfEntry(context, existing)
+    const fieldIds = (contentType.fields || []).map((field: FakeData) => field.id)
+    const locales = getLocaleCodes(getEnvironment(store, context))
+    const errors: Array<Record<string, unknown>> = []
+    Object.keys(data.fields || {}).forEach((fieldId) => {
+      if (fieldIds.indexOf(fieldId) === -1) {
+        errors.push({
+          name: 'unknown',
+          path: ['fields', fieldId],
+          details: `The property "${fieldId}" is not defined on the content type`,
+        })
+        return
+      }
+      Object.keys(data.fields[fieldId] || {})
+        .filter((locale) => locales.indexOf(locale) === -1)
+        .forEach((locale) =>
+          errors.push({
+            name: 'unknown',
+            path: ['fields', fieldId, locale],
+            details: `The property "${locale}" is not allowed here`,
+          })
+        )
+    })
+    if (errors.length > 0) {
+      throw validationFailed('InvalidEntry', errors)
+    }
+  }
+
+  function validateEntryPublish(entry: FakeEntity, context: RequestContext) {
+    const contentType = getContentTypeOfEntry(context, entry)
+    const defaultLocale = getDefaultLocale(getEnvironment(store, context))
+    const errors = (contentType.fields || [])
+      .filter((field: FakeData) => field.required && !field.omitted)
+      .filter((field: FakeData) => {
+        const value = entry.fields && entry.fields[field.id]
+        return !value || value[defaultLocale] === undefined || value[defaultLocale] === null
+      })
+      .map((field: FakeData) => ({
+        name: 'required',
+        path: ['fields', field.id, defaultLocale],
+        details: 'The property is required here',
+      }))
+    if (errors.length > 0) {
+      throw validationFailed('ValidationFailed', errors)
+    }
+  }
+
+  function validateLocale(data: FakeData, context: RequestContext, existing?: FakeEntity) {
+    requireProperties(data, ['name', 'code'])
+    const environment = getEnvironment(store, context)
+    let taken = false
+    environment.resources.locales.forEach((locale) => {
+      if (locale.code === data.code && (!existing || locale.sys.id !== existing.sys.id)) {
+        taken = true
+      }
+    })
+    if (taken) {
+      throw validationFailed('ValidationFailed', [
+        { name: 'taken', path: ['code'], value: data.code, details: 'The code is already taken' },
+      ])
+    }
+  }
+
+  const resources: Record<string, ResourceDefinition> = {
+    // eslint-disable-next-line @typescript-eslint/camelcase
+    content_types: {
+      type: 'ContentType',
+      publishable: true,
+      validate: validateContentType,
+    },
+    entries: {
+      type: 'Entry',
+      publishable: true,
+      archivable: true,
+      patchable: true,
+      validate: validateEntry,
+      validatePublish: validateEntryPublish,
+      createSys: (context) => ({
+        contentType: link('ContentType', context.headers['x-contentful-content-type'] as string),
+      }),
+    },
+    assets: {
+      type: 'Asset',
+      publishable: true,
+      archivable: true,
+      patchable: true,
+    },
+    locales: {
+      type: 'Locale',
+      validate: validateLocale,
+    },
+    tags: {
+      type: 'Tag',
+      validate: (data) => requireProperties(data, ['name']),
+      createSys: () => ({ visibility: 'private' }),
+    },
+    // eslint-disable-next-line @typescript-eslint/camelcase
+    webhook_definitions: {
+      type: 'WebhookDefinition',
+      validate: (data) => requireProperties(data, ['name', 'url']),
+    },
+    roles: {
+      type: 'Role',
+      validate: (data) => requireProperties(data, ['name']),
+    },
+  }
+
+  function addResourceRoutes(
+    prefix: string,
+    name: string,
+    getEntities: (context: RequestContext) => Map<string, FakeEntity>,
+    getScopeSys: (context: RequestContext) => Record<string, unknown>
+  ) {
+    const definition = resources[name]
+
+    function get(context: RequestContext) {
+      const entity = getEntities(context).get(context.params.id)
+      if (!entity) {
+        throw notFound(definition.type, context.params.id)
+      }
+      return entity
+    }
+
+    function create(context: RequestContext, id: string) {
+      const data = withoutSys(context.body)
+      if (definition.validate) {
+        definition.validate(data, context)
+      }
+      const entity = {
+        ...data,
+        sys: createSys(definition.type, id, {
+          ...getScopeSys(context),
+          ...(definition.createSys ? definition.createSys(context) : {}),
+        }),
+      }
+      getEntities(context).set(id, entity)
+      return { status: 201, body: entity }
+    }
+
+    function change(entity: FakeEntity, changes: (sys: FakeEntity['sys']) => void) {
+      changes(entity.sys)
+      entity.sys.version++
+      entity.sys.updatedAt = now()
+      entity.sys.updatedBy = link('User', FAKE_USER_ID)
+      return { status: 200, body: entity }
+    }
+
+    function update(entity: FakeEntity, data: FakeData, context: RequestContext) {
+      checkVersion(entity, context)
+      if (entity.sys.archivedVersion) {
+        throw createFakeError(400, 'BadRequest', 'Cannot update archived entity')
+      }
+      if (definition.validate) {
+        definition.validate(data, context, entity)
+      }
+      Object.keys(entity)
+        .filter((key) => key !== 'sys')
+        .forEach((key) => delete entity[key])
+      Object.assign(entity, data)
+      return change(entity, () => undefined)
+    }
+
+    route('GET', `${prefix}/${name}`, (context) =>
+      collection(getEntities(context), context.query, createLinkResolver(store, context))
+    )
+    route('POST', `${prefix}/${name}`, (context) => create(context, generateId()))
+    route('GET', `${prefix}/${name}/:id`, (context) => ({ status: 200, body: get(context) }))
+
+    route('PUT', `${prefix}/${name}/:id`, (context) => {
+      const entity = getEntities(context).get(context.params.id)
+      if (!entity) {
+        if (getVersion(context.headers) !== undefined) {
+          throw notFound(definition.type, context.params.id)
+        }
+        return create(context, context.params.id)
+      }
+      return update(entity, withoutSys(context.body), context)
+    })
+
+    if (definition.patchable) {
+      route('PATCH', `${prefix}/${name}/:id`, (context) => {
+        const entity = get(context)
+        if (!Array.isArray(context.body)) {
+          throw createFakeError(400, 'BadRequest', 'The body has to be a list of operations')
+        }
+        let data: FakeData
+        try {
+          data = applyPatch(withoutSys(entity), context.body)
+        } catch (error) {
+          throw createFakeError(422, 'UnprocessableEntity', error.message)
+        }
+        return update(entity, data, context)
+      })
+    }
+
+    route('DELETE', `${prefix}/${name}/:id`, (context) => {
+      const entity = get(context)
+      if (entity.sys.publishedVersion) {
+        throw createFakeError(400, 'BadRequest', 'Cannot delete published entity')
+      }
+      const version = getVersion(context.headers)
+      if (version !== undefined && version !== 0 && version !== entity.sys.version) {
+        throw versionMismatch()
+      }
+      getEntities(context).delete(context.params.id)
+      return { status: 204 }
+    })
+
+    if (definition.publishable) {
+      route('PUT', `${prefix}/${name}/:id/published`, (context) => {
+        const entity = get(context)
+        checkVersion(entity, context)
+        if (entity.sys.archivedVersion) {
+          throw createFakeError(400, 'BadRequest', 'Cannot publish archived entity')
+        }
+        if (definition.validatePublish) {
+          definition.validatePublish(entity, context)
+        }
+        return change(entity, (sys) => {
+          const timestamp = now()
+          sys.publishedVersion = sys.version
+          sys.publishedAt = timestamp
+          sys.publishedBy = link('User', FAKE_USER_ID)
+          sys.publishedCounter = ((sys.publishedCounter as number) || 0) + 1
+          sys.firstPublishedAt = sys.firstPublishedAt || timestamp
+        })
+      })
+      route('DELETE', `${prefix}/${name}/:id/published`, (context) => {
+        const entity = get(context)
+        if (!entity.sys.publishedVersion) {
+          throw createFakeError(400, 'BadRequest', 'Not published')
+        }
+        return change(entity, (sys) => {
+          delete sys.publishedVersion
+          delete sys.publishedAt
+          delete sys.publishedBy
+        })
+      })
+    }
+
+    if (definition.archivable) {
+      route('PUT', `${prefix}/${name}/:id/archived`, (context) => {
+        const entity = get(context)
+        if (entity.sys.publishedVersion) {
+          throw createFakeError(400, 'BadRequest', 'Cannot archive published entity')
+        }
+        if (entity.sys.archivedVersion) {
+          throw createFakeError(400, 'BadRequest', 'Already archived')
+        }
+        return change(entity, (sys) => {
+          sys.archivedVersion = sys.version
+          sys.archivedAt = now()
+          sys.archivedBy = link('User', FAKE_USER_ID)
+        })
+      })
+      route('DELETE', `${prefix}/${name}/:id/archived`, (context) => {
+        const entity = get(context)
+        if (!entity.sys.archivedVersion) {
+          throw createFakeError(400, 'BadRequest', 'Not archived')
+        }
+        return change(entity, (sys) => {
+          delete sys.archivedVersion
+          delete sys.archivedAt
+          delete sys.archivedBy
+        })
+      })
+    }
+
+    if (name === 'assets') {
+      route('PUT', `${prefix}/assets/:id/files/:locale/process`, (context) => {
+        const entity = get(context)
+        checkVersion(entity, context)
+        const file =
+          entity.fields && entity.fields.file && entity.fields.file[context.params.locale]
+        if (!file || (!file.upload && !file.uploadFrom)) {
+          throw validationFailed('ValidationFailed', [
+            { name: 'required', path: ['fields', 'file', context.params.locale, 'upload'] },
+          ])
+        }
+        const upload = file.uploadFrom && store.uploads.get(file.uploadFrom.sys.id)
+        const spaceId = context.params.spaceId
+        file.url = `//images.ctfassets.net/${spaceId}/${entity.sys.id}/${generateId(32)}/${
+          file.fileName
+        }`
+        file.details = { size: upload ? upload.size : 0 }
+        delete file.upload
+        delete file.uploadFrom
+        change(entity, () => undefined)
+        return { status: 204 }
+      })
+    }
+  }
+
+  route('GET', '/organizations', (context) =>
+    collection(
+      new Map([
+        [
+          FAKE_ORGANIZATION_ID,
+          {
+            name: 'Fake organization',
+            sys: createSys('Organization', FAKE_ORGANIZATION_ID),
+          },
+        ],
+      ]),
+      context.query
+    )
+  )
+
+  route('GET', '/spaces', (context) => {
+    const spaces = new Map<string, FakeEntity>()
+    store.spaces.forEach((space, id) => spaces.set(id, space.space))
+    return collection(spaces, context.query)
+  })
+  route('POST', '/spaces', (context) => {
+    requireProperties(context.body, ['name'])
+    const space = createSpace(generateId(12), context.body.name, context.body.defaultLocale)
+    store.spaces.set(space.space.sys.id, space)
+    return { status: 201, body: space.space }
+  })
+  route('GET', '/spaces/:spaceId', (context) => ({
+    status: 200,
+    body: getSpace(store, context).space,
+  }))
+  route('PUT', '/spaces/:spaceId', (context) => {
+    const { space } = getSpace(store, context)
+    checkVersion(space, context)
+    requireProperties(context.body, ['name'])
+    space.name = context.body.name
+    space.sys.version++
+    space.sys.updatedAt = now()
+    return { status: 200, body: space }
+  })
+  route('DELETE', '/spaces/:spaceId', (context) => {
+    getSpace(store, context)
+    store.spaces.delete(context.params.spaceId)
+    return { status: 204 }
+  })
+
+  const environmentsPath = '/spaces/:spaceId/environments'
+  function addEnvironment(context: RequestContext, id: string) {
+    requireProperties(context.body, ['name'])
+    const space = getSpace(store, context)
+    const sourceId = (context.headers['x-contentful-source-environment'] as string) || 'master'
+    const source = space.environments.get(sourceId)
+    if (!source) {
+      throw notFound('Environment', sourceId)
+    }
+    const environment = cloneEnvironment(source, context.params.spaceId, id, context.body.name)
+    space.environments.set(id, environment)
+    return { status: 201, body: environment.environment }
+  }
+  route('GET', environmentsPath, (context) => {
+    const environments = new Map<string, FakeEntity>()
+    getSpace(store, context).environments.forEach((environment, id) =>
+      environments.set(id, environment.environment)
+    )
+    return collection(environments, context.query)
+  })
+  route('POST', environmentsPath, (context) => addEnvironment(context, generateId(12)))
+  route('GET', `${environmentsPath}/:environmentId`, (context) => ({
+    status: 200,
+    body: getEnvironment(store, context).environment,
+  }))
+  route('PUT', `${environmentsPath}/:environmentId`, (context) => {
+    const existing = getSpace(store, context).environments.get(context.params.environmentId)
+    if (!existing) {
+      return addEnvironment(context, context.params.environmentId)
+    }
+    const { environment } = existing
+    checkVersion(environment, context)
+    requireProperties(context.body, ['name'])
+    environment.name = context.body.name
+    environment.sys.version++
+    environment.sys.updatedAt = now()
+    return { status: 200, body: environment }
+  })
+  route('DELETE', `${environmentsPath}/:environmentId`, (context) => {
+    getEnvironment(store, context)
+    getSpace(store, context).environments.delete(context.params.environmentId)
+    return { status: 204 }
+  })
+
+  route('POST', '/spaces/:spaceId/uploads', (context) => {
+    getSpace(store, context)
+    const id = generateId()
+    const upload = {
+      size: context.body ? context.body.length : 0,
+      sys: createSys('Upload', id, {
+        space: link('Space', context.params.spaceId),
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+      }),
+    }
+    store.uploads.set(id, upload)
+    return { status: 201, body: { sys: upload.sys } }
+  })
+  route('GET', '/spaces/:spaceId/uploads/:id', (context) => {
+    const upload = store.uploads.get(context.params.id)
+    if (!upload) {
+      throw notFound('Upload', context.params.id)
+    }
+    return { status: 200, body: { sys: upload.sys } }
+  })
+  route('DELETE', '/spaces/:spaceId/uploads/:id', (context) => {
+    store.uploads.delete(context.params.id)
+    return { status: 204 }
+  })
+
+  SPACE_RESOURCES.forEach((name) =>
+    addResourceRoutes(
+      '/spaces/:spaceId',
+      name,
+      (context) => getSpace(store, context).resources[name],
+      (context) => ({ space: link('Space', context.params.spaceId) })
+    )
+  )
+  route('GET', '/spaces/:spaceId/webhooks/:id/calls', (context) =>
+    collection(new Map(), context.query)
+  )
+  route('GET', '/spaces/:spaceId/webhooks/:id/health', (context) => ({
+    status: 200,
+    body: { calls: { total: 0, healthy: 0 }, sys: { id: context.params.id, type: 'Webhook' } },
+  }))
+
+  // the space scoped paths without an environment belong to the master environment
+  ;['/spaces/:spaceId/environments/:environmentId', '/spaces/:spaceId'].forEach((prefix) =>
+    ENVIRONMENT_RESOURCES.forEach((name) =>
+      addResourceRoutes(
+        prefix,
+        name,
+        (context) => getEnvironment(store, context).resources[name],
+        (context) => ({
+          space: link('Space', context.params.spaceId),
+          environment: link('Environment', context.params.environmentId || 'master'),
+        })
+      )
+    )
+  )
+
+  return routes
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    req.on('data', (chunk: Buffer) => chunks.push(chunk))
+    req.on('end', () => resolve(Buffer.concat(chunks)))
+    req.on('error', reject)
+  })
+}
+
+function parseBody(req: IncomingMessage, body: Buffer) {
+  if (body.length === 0) {
+    return undefined
+  }
+  if ((req.headers['content-type'] || '').indexOf('json') === -1) {
+    return body
+  }
+  try {
+    return JSON.parse(body.toString('utf8'))
+  } catch (error) {
+    throw createFakeError(400, 'BadRequest', 'The body could not be parsed as JSON')
+  }
+}
+
+function send(res: ServerResponse, { status, body }: FakeResponse) {
+  res.writeHead(status, {
+    'Content-Type': 'application/vnd.contentful.management.v1+json',
+    'X-Contentful-Request-Id': generateId(),
+  })
+  res.end(body === undefined ? undefined : JSON.stringify(body))
+}
+
+/**
+ * Creates the request listener of the fake server
+ * @private
+ */
+export function createRequestListener(store: FakeStore) {
+  const routes = createRoutes(store)
+
+  return function handleRequest(req: IncomingMessage, res: ServerResponse) {
+    readBody(req)
+      .then((rawBody) => {
+        const { pathname, query } = parse(req.url || '', true)
+        const path = (pathname || '').replace(/\/+$/, '') || '/'
+        const candidates = routes.filter((route) => route.pattern.test(path))
+        if (candidates.length === 0) {
+          throw notFound('Route', path)
+        }
+        const match = candidates.find((route) => route.method === req.method)
+        if (!match) {
+          throw createFakeError(405, 'MethodNotAllowed', `${req.method} is not allowed for ${path}`)
+        }
+        const values = (match.pattern.exec(path) as RegExpExecArray).slice(1)
+        const params = match.names.reduce((result, name, index) => {
+          result[name] = decodeURIComponent(values[index])
+          return result
+        }, {} as Record<string, string>)
+        return match.handler({
+          params,
+          query: query as FakeQuery,
+          headers: req.headers,
+          body: parseBody(req, rawBody),
+        })
+      })
+      .then(
+        (response) => send(res, { ...response, body: cloneDeep(response.body) }),
+        (error) => {
+          if (isFakeError(error)) {
+            send(res, error)
+            return
+          }
+          send(
+            res,
+            createFakeError(500, 'ServerError', error && error.message ? error.message : 'Error')
+          )
+        }
+      )
+  }
+}
+
+/**
+ * Starts an in-memory implementation of the Content Management API
+ */
+export function startFakeServer({ port = 0, spaces = [] }: FakeServerOptions = {}): Promise<
+  FakeServer
+> {
+  const store = createFakeStore()
+
+  function reset() {
+    store.spaces.clear()
+    store.uploads.clear()
+    spaces.forEach(({ id, name, defaultLocale }) =>
+      store.spaces.set(id, createSpace(id, name, defaultLocale))
+    )
+  }
+  reset()
+
+  const server = http.createServer(createRequestListener(store))
+  return new Promise((resolve, reject) => {
+    server.on('error', reject)
+    server.listen(port, 'localhost', () => {
+      const address = server.address()
+      const actualPort = typeof address === 'object' && address ? address.port : port
+      resolve({
+        port: actualPort,
+        host: `localhost:${actualPort}`,
+        store,
+        reset,
+        close: () => new Promise<void>((resolveClose) => server.close(() => resolveClose())),
+      })
+    })
+  })
+}
@@ -0,0 +1,182 @@
+/**
+ * @packageDocumentation
+ * @hidden
+ */
+
+import cloneDeep from 'lodash/cloneDeep'
+
+export type FakeLink = { sys: { type: 'Link'; linkType: string; id: string } }
+
+export type FakeSys = {
+  id: string
+  type: string
+  version: number
+  createdAt: string
+  updatedAt: string
+  [key: string]: unknown
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type FakeData = { [key: string]: any }
+
+export type FakeEntity = FakeData & { sys: FakeSys }
+
+export type FakeEnvironment = {
+  environment: FakeEntity
+  resources: Record<string, Map<string, FakeEntity>>
+}
+
+export type FakeSpace = {
+  space: FakeEntity
+  environments: Map<string, FakeEnvironment>
+  resources: Record<string, Map<string, FakeEntity>>
+}
+
+export type FakeStore = {
+  spaces: Map<string, FakeSpace>
+  uploads: Map<string, FakeEntity>
+}
+
+export const ENVIRONMENT_RESOURCES = ['content_types', 'entries', 'assets', 'locales', 'tags']
+export const SPACE_RESOURCES = ['webhook_definitions', 'roles']
+
+export const FAKE_USER_ID = 'fake-user'
+export const FAKE_ORGANIZATION_ID = 'fake-organization'
+
+const ID_CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
+
+/**
+ * Generates an id with the same length and characters as the ids of the API
+ * @private
+ */
+export function generateId(length = 22) {
+  let id = ''
+  for (let i = 0; i < length; i++) {
+    id += ID_CHARACTERS[Math.floor(Math.random() * ID_CHARACTERS.length)]
+  }
+  return id
+}
+
+/**
+ * @private
+ */
+export function link(linkType: string, id: string): FakeLink {
+  return { sys: { type: 'Link', linkType, id } }
+}
+
+/**
+ * @private
+ */
+export function now() {
+  return new Date().toISOString()
+}
+
+/**
+ * Creates the sys of a new entity
+ * @private
+ */
+export function createSys(type: string, id: string, extra: Record<string, unknown> = {}): FakeSys {
+  const timestamp = now()
+  return {
+    ...extra,
+    id,
+    type,
+    version: 1,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    createdBy: link('User', FAKE_USER_ID),
+    updatedBy: link('User', FAKE_USER_ID),
+  }
+}
+
+function createResources(names: string[]) {
+  return names.reduce((resources, name) => {
+    resources[name] = new Map<string, FakeEntity>()
+    return resources
+  }, {} as Record<string, Map<string, FakeEntity>>)
+}
+
+/**
+ * Creates an environment with the given default locale
+ * @private
+ */
+export function createEnvironment(
+  spaceId: string,
+  id: string,
+  name: string,
+  defaultLocale = 'en-US'
+): FakeEnvironment {
+  const environment: FakeEnvironment = {
+    environment: {
+      name,
+      sys: createSys('Environment', id, {
+        space: link('Space', spaceId),
+        status: link('Status', 'ready'),
+      }),
+    },
+    resources: createResources(ENVIRONMENT_RESOURCES),
+  }
+  const localeId = generateId()
+  environment.resources.locales.set(localeId, {
+    name: defaultLocale,
+    code: defaultLocale,
+    fallbackCode: null,
+    default: true,
+    contentManagementApi: true,
+    contentDeliveryApi: true,
+    optional: false,
+    sys: createSys('Locale', localeId, {
+      space: link('Space', spaceId),
+      environment: link('Environment', id),
+    }),
+  })
+  return environment
+}
+
+/**
+ * Copies all content of the source environment into a new environment
+ * @private
+ */
+export function cloneEnvironment(
+  source: FakeEnvironment,
+  spaceId: string,
+  id: string,
+  name: string
+): FakeEnvironment {
+  const environment = createEnvironment(spaceId, id, name)
+  Object.keys(source.resources).forEach((resource) => {
+    const entities = new Map<string, FakeEntity>()
+    source.resources[resource].forEach((entity, entityId) => {
+      const copy = cloneDeep(entity)
+      copy.sys.environment = link('Environment', id)
+      entities.set(entityId, copy)
+    })
+    environment.resources[resource] = entities
+  })
+  return environment
+}
+
+/**
+ * Creates a space with a master environment
+ * @private
+ */
+export function createSpace(id: string, name: string, defaultLocale?: string): FakeSpace {
+  return {
+    space: {
+      name,
+      sys: createSys('Space', id, { organization: link('Organization', FAKE_ORGANIZATION_ID) }),
+    },
+    environments: new Map([['master', createEnvironment(id, 'master', 'master', defaultLocale)]]),
+    resources: createResources(SPACE_RESOURCES),
+  }
+}
+
+/**
+ * @private
+ */
+export function createFakeStore(): FakeStore {
+  return {
+    spaces: new Map(),
+    uploads: new Map(),
+  }
+}
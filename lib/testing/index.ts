@@ -0,0 +1,19 @@
+/**
+ * In-memory implementation of the Content Management API to test code
+ * which uses this library without network access or a real space.
+ *
+ * ```javascript
+ * const contentful = require('contentful-management')
+ * const { startFakeServer } = require('contentful-management/testing')
+ *
+ * const server = await startFakeServer({ spaces: [{ id: 'space-id', name: 'Space' }] })
+ * const client = contentful.createClient({ accessToken: 'token', host: server.host, insecure: true })
+ * // ...
+ * await server.close()
+ * ```
+ * @packageDocumentation
+ */
+
+export { startFakeServer } from './fake-server'
+export type { FakeServer, FakeServerOptions } from './fake-server'
+export type { FakeEntity, FakeStore } from './fake-store'
@@ -0,0 +1,104 @@
+/**
+ * Validation errors of entries and content types, mapped to fields and locales.
+ * @packageDocumentation
+ */
+
+export type ValidationErrorRecord = {
+  /** Id of the invalid field, undefined for errors outside of `fields` */
+  fieldId?: string
+  /** Locale of the invalid field value */
+  locale?: string
+  /** Name of the failed validation, e.g. `required`, `size` or `unique` */
+  validation: string
+  message: string
+  /** The invalid value, when the API sent it back */
+  value?: unknown
+  /** Full path of the invalid property, e.g. `['fields', 'title', 'en-US']` */
+  path: Array<string | number>
+}
+
+type RawValidationError = {
+  name?: string
+  path?: Array<string | number>
+  details?: string
+  value?: unknown
+  min?: number
+  max?: number
+  expected?: unknown[]
+  [key: string]: unknown
+}
+
+function describeRange({ min, max }: RawValidationError, unit: string) {
+  if (min !== undefined && max !== undefined) {
+    return `between ${min} and ${max}${unit}`
+  }
+  return min !== undefined ? `at least ${min}${unit}` : `at most ${max}${unit}`
+}
+
+/**
+ * Messages for validations the API sends without details
+ */
+const DEFAULT_MESSAGES: Record<string, (error: RawValidationError) => string> = {
+  required: () => 'The value is required',
+  unknown: () => 'The property is not allowed here',
+  type: (error) => `The value has to be of type ${error.type}`,
+  size: (error) => `The size has to be ${describeRange(error, '')}`,
+  range: (error) => `The value has to be ${describeRange(error, '')}`,
+  regexp: () => 'The value does not match the expected pattern',
+  prohibitRegexp: () => 'The value matches a prohibited pattern',
+  in: (error) =>
+    `The value has to be one of ${(error.expected || []).map((item) => `"${item}"`).join(', ')}`,
+  unique: () => 'The value has to be unique',
+  linkContentType: () => 'The linked entry has a content type which is not allowed',
+  linkMimetypeGroup: () => 'The linked asset has a file type which is not allowed',
+  notResolvable: () => 'The linked entity does not exist or is not published',
+  dateRange: (error) => `The date has to be ${describeRange(error, '')}`,
+  enabledNodeTypes: (error) => `The node type ${error.value} is not allowed`,
+  enabledMarks: (error) => `The mark ${error.value} is not allowed`,
+}
+
+/**
+ * Maps the `details.errors` of `ValidationFailed` and `InvalidEntry` errors to records
+ * pointing at the field and locale of each invalid value
+ * @private
+ */
+export function parseValidationErrors(details: unknown): ValidationErrorRecord[] {
+  const errors = details && (details as { errors?: unknown }).errors
+  if (!Array.isArray(errors)) {
+    return []
+  }
+  return errors.map((error: RawValidationError) => {
+    const path = Array.isArray(error.path) ? error.path : []
+    const validation = error.name || 'unknown'
+    const isField = path[0] === 'fields' && typeof path[1] === 'string'
+    const defaultMessage = DEFAULT_MESSAGES[validation]
+    return {
+      fieldId: isField ? (path[1] as string) : undefined,
+      locale: isField && typeof path[2] === 'string' ? path[2] : undefined,
+      validation,
+      message: error.details || (defaultMessage ? defaultMessage(error) : validation),
+      value: error.value,
+      path,
+    }
+  })
+}
+
+/**
+ * Renders validation errors as a report with one line per invalid value
+ *
+ * ```
+ * title (en-US): required - The value is required
+ * slug (de-DE): unique - The value has to be unique, got "hello-world"
+ * ```
+ */
+export function formatValidationErrors(errors: ValidationErrorRecord[]) {
+  return errors
+    .map(({ fieldId, locale, validation, message, value, path }) => {
+      const location = fieldId
+        ? `${fieldId}${locale ? ` (${locale})` : ''}`
+        : path.join('.') || '(entity)'
+      const got = value === undefined ? '' : `, got ${JSON.stringify(value)}`
+      return `${location}: ${validation} - ${message}${got}`
+    })
+    .join('\n')
+}
@@ -0,0 +1,105 @@
+import test from 'blue-tape'
+import sinon from 'sinon'
+import { createAbortableAdapter } from '../../lib/abort'
+import { createRequestQueue } from '../../lib/request-queue'
+import { createCMAHttpClient } from '../../lib/create-cma-http-client'
+import { wrapEntry } from '../../lib/entities/entry'
+import { wrapAsset } from '../../lib/entities/asset'
+import { cloneMock } from './mocks/entities'
+
+function createResponse(config, data = {}) {
+  return { data, status: 200, statusText: 'OK', headers: {}, config }
+}
+
+function never() {
+  return new Promise(() => {})
+}
+
+test('Abortable adapter rejects requests aborted before they are sent', (t) => {
+  const adapter = sinon.stub()
+  const controller = new AbortController()
+  controller.abort()
+
+  return createAbortableAdapter(adapter)({ url: 'entries', signal: controller.signal }).then(
+    () => t.fail('should not succeed'),
+    (error) => {
+      t.equals(error.name, 'AbortError', 'rejects with an AbortError')
+      t.notOk(adapter.called, 'does not send the request')
+    }
+  )
+})
+
+test('Abortable adapter rejects requests aborted while in flight', (t) => {
+  const controller = new AbortController()
+  const request = createAbortableAdapter(never)({ url: 'entries', signal: controller.signal })
+  controller.abort()
+
+  return request.then(
+    () => t.fail('should not succeed'),
+    (error) => t.equals(error.name, 'AbortError', 'rejects with an AbortError')
+  )
+})
+
+test('Request queue removes aborted requests which are still waiting', (t) => {
+  const queue = createRequestQueue({ concurrency: 1 })
+  const controller = new AbortController()
+  const task = sinon.stub().resolves()
+
+  queue.schedule(never)
+  const request = queue.schedule(task, controller.signal)
+  t.equals(queue.getStats().queued, 1, 'queues the request')
+  controller.abort()
+
+  return request.then(
+    () => t.fail('should not succeed'),
+    (error) => {
+      t.equals(error.name, 'AbortError', 'rejects with an AbortError')
+      t.equals(queue.getStats().queued, 0, 'removes the request from the queue')
+      t.notOk(task.called, 'never sends the request')
+    }
+  )
+})
+
+test('Aborted API calls are not retried', (t) => {
+  const controller = new AbortController()
+  const adapter = sinon.spy(never)
+  const http = createCMAHttpClient({ accessToken: 'token', adapter })
+  const entry = wrapEntry(http, cloneMock('entry'))
+
+  const request = entry.publish({ signal: controller.signal })
+  setTimeout(() => controller.abort(), 10)
+
+  return request.then(
+    () => t.fail('should not succeed'),
+    (error) => {
+      t.equals(error.name, 'AbortError', 'rejects with an AbortError')
+      t.equals(adapter.callCount, 1, 'sends the request only once')
+      t.ok(adapter.args[0][0].signal, 'passes the signal to the transport')
+    }
+  )
+})
+
+test('Aborting asset processing stops checking for the processed file', (t) => {
+  const controller = new AbortController()
+  const assetData = cloneMock('asset')
+  assetData.fields.file = { 'en-US': { fileName: 'filename.jpg' } }
+  let checks = 0
+  const adapter = sinon.spy((config) => {
+    if (config.method === 'get' && ++checks === 2) {
+      controller.abort()
+    }
+    return Promise.resolve(createResponse(config, assetData))
+  })
+  const http = createCMAHttpClient({ accessToken: 'token', adapter })
+  const asset = wrapAsset(http, assetData)
+
+  return asset
+    .processForLocale('en-US', { processingCheckWait: 1, signal: controller.signal })
+    .then(
+      () => t.fail('should not succeed'),
+      (error) => {
+        t.equals(error.name, 'AbortError', 'rejects with an AbortError')
+        t.equals(adapter.callCount, 3, 'stops polling once aborted')
+      }
+    )
+})
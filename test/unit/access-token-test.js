@@ -0,0 +1,113 @@
+import test from 'blue-tape'
+import sinon from 'sinon'
+import { createAccessTokenAdapter } from '../../lib/access-token'
+import { createCMAHttpClient } from '../../lib/create-cma-http-client'
+
+function createResponse(config, data = {}) {
+  return { data, status: 200, statusText: 'OK', headers: {}, config }
+}
+
+function createUnauthorizedError(config) {
+  const error = new Error('Request failed with status code 401')
+  error.config = config
+  error.response = { status: 401, statusText: 'Unauthorized', headers: {}, data: {}, config }
+  return error
+}
+
+// accepts only the latest token the provider returned
+function createTokenProvider() {
+  let count = 0
+  const provider = sinon.spy(() => Promise.resolve(`token-${++count}`))
+  const adapter = sinon.spy((config) =>
+    config.headers.Authorization === `Bearer token-${count}`
+      ? Promise.resolve(createResponse(config))
+      : Promise.reject(createUnauthorizedError(config))
+  )
+  return { provider, adapter }
+}
+
+test('Access token adapter sends the provided token and caches it', (t) => {
+  const { provider, adapter } = createTokenProvider()
+  const tokenAdapter = createAccessTokenAdapter(provider, adapter)
+
+  return Promise.all([tokenAdapter({ url: 'first' }), tokenAdapter({ url: 'second' })])
+    .then(() => tokenAdapter({ url: 'third' }))
+    .then(() => {
+      t.equals(provider.callCount, 1, 'resolves the token once')
+      t.equals(adapter.args[2][0].headers.Authorization, 'Bearer token-1', 'sends the token')
+    })
+})
+
+test('Access token adapter refreshes the token once on 401', (t) => {
+  const { provider, adapter } = createTokenProvider()
+  const tokenAdapter = createAccessTokenAdapter(provider, adapter)
+
+  return tokenAdapter({ url: 'first' })
+    .then(() => {
+      // the token expires
+      provider()
+      provider.resetHistory()
+      adapter.resetHistory()
+      return Promise.all([tokenAdapter({ url: 'second' }), tokenAdapter({ url: 'third' })])
+    })
+    .then(() => {
+      t.equals(provider.callCount, 1, 'concurrent requests share one refresh')
+      t.equals(adapter.callCount, 4, 'retries every failed request')
+      t.equals(adapter.args[3][0].headers.Authorization, 'Bearer token-3', 'uses the new token')
+    })
+})
+
+test('Access token adapter fails when the refreshed token is rejected too', (t) => {
+  const provider = sinon.stub().resolves('token')
+  const adapter = sinon.spy((config) => Promise.reject(createUnauthorizedError(config)))
+
+  return createAccessTokenAdapter(
+    provider,
+    adapter
+  )({ url: 'entries' }).then(
+    () => t.fail('should not succeed'),
+    (error) => {
+      t.equals(error.response.status, 401, 'rejects with the 401 error')
+      t.equals(adapter.callCount, 2, 'retries only once')
+    }
+  )
+})
+
+test('Access token adapter asks the provider again after it failed', (t) => {
+  const provider = sinon.stub()
+  provider.onFirstCall().rejects(new Error('provider failed'))
+  provider.onSecondCall().resolves('token')
+  const tokenAdapter = createAccessTokenAdapter(provider, (config) =>
+    Promise.resolve(createResponse(config))
+  )
+
+  return tokenAdapter({ url: 'first' })
+    .then(
+      () => t.fail('should not succeed'),
+      (error) => t.equals(error.message, 'provider failed', 'rejects with the provider error')
+    )
+    .then(() => tokenAdapter({ url: 'second' }))
+    .then((response) => {
+      t.equals(response.config.headers.Authorization, 'Bearer token', 'uses the new token')
+    })
+})
+
+test('Scoped clients share the access token provider', (t) => {
+  const { provider, adapter } = createTokenProvider()
+  const http = createCMAHttpClient({
+    accessToken: provider,
+    retryOnError: false,
+    adapter,
+  })
+  const spaceScopedHttp = http.cloneWithNewParams({ space: 'spaceid' })
+
+  t.notOk(
+    /token|=>/.test(http.defaults.headers.Authorization),
+    'does not put the provider into the default headers'
+  )
+
+  return Promise.all([http.get(''), spaceScopedHttp.get('entries')]).then(() => {
+    t.equals(provider.callCount, 1, 'resolves the token once for all scoped clients')
+    t.equals(adapter.args[1][0].headers.Authorization, 'Bearer token-1', 'sends the token')
+  })
+})
@@ -0,0 +1,188 @@
+import test from 'blue-tape'
+import http from 'http'
+import sinon from 'sinon'
+import { createCMAHttpClient } from '../../../lib/create-cma-http-client'
+import errorHandler from '../../../lib/error-handler'
+
+function startServer() {
+  const requests = []
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => (body += chunk))
+    req.on('end', () => {
+      const request = { method: req.method, url: req.url, headers: req.headers, body }
+      requests.push(request)
+      if (req.url === '/spaces/slow') {
+        // never responds, the client has to abort the request
+        res.on('close', () => (request.closed = true))
+        return
+      }
+      if (req.url.indexOf('/spaces/slow-body') === 0) {
+        // sends the headers right away and the body later
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.write('{"sys":')
+        setTimeout(() => res.end('{"id":"id"}}'), 200)
+        return
+      }
+      if (req.url.indexOf('/spaces/missing') === 0) {
+        res.writeHead(404, { 'Content-Type': 'application/json' })
+        res.end(
+          JSON.stringify({
+            sys: { type: 'Error', id: 'NotFound' },
+            message: 'The resource could not be found.',
+            requestId: 'request-id',
+          })
+        )
+        return
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json', 'X-Custom-Header': 'value' })
+      res.end(JSON.stringify({ sys: { id: 'id', type: 'Space' }, name: 'name' }))
+    })
+  })
+  return new Promise((resolve) => {
+    server.listen(0, 'localhost', () => resolve({ server, requests }))
+  })
+}
+
+function setup(adapter) {
+  return startServer().then(({ server, requests }) => {
+    const httpClient = createCMAHttpClient({
+      accessToken: 'token',
+      host: `localhost:${server.address().port}`,
+      insecure: true,
+      retryOnError: false,
+      adapter,
+    })
+    return { server, requests, httpClient }
+  })
+}
+
+;['axios', 'fetch'].forEach((adapter) => {
+  test(`${adapter} adapter performs GET requests`, (t) => {
+    return setup(adapter).then(({ server, requests, httpClient }) => {
+      return httpClient.get('spaceid', { params: { limit: 10 } }).then((response) => {
+        server.close()
+        t.equals(requests[0].method, 'GET', 'uses the method')
+        t.equals(requests[0].url, '/spaces/spaceid?limit=10', 'builds the url with params')
+        t.equals(requests[0].headers.authorization, 'Bearer token', 'sends the token')
+        t.ok(
+          requests[0].headers['x-contentful-user-agent'].match(/contentful-management\.js/),
+          'sends the user agent header'
+        )
+        t.equals(response.status, 200, 'resolves with the status')
+        t.equals(response.headers['x-custom-header'], 'value', 'lowercases response headers')
+        t.looseEqual(response.data.sys, { id: 'id', type: 'Space' }, 'parses the JSON body')
+      })
+    })
+  })
+
+  test(`${adapter} adapter sends request bodies and headers`, (t) => {
+    return setup(adapter).then(({ server, requests, httpClient }) => {
+      return httpClient
+        .put('spaceid', { name: 'new name' }, { headers: { 'X-Contentful-Version': 2 } })
+        .then(() => {
+          server.close()
+          t.equals(requests[0].method, 'PUT', 'uses the method')
+          t.looseEqual(JSON.parse(requests[0].body), { name: 'new name' }, 'sends the body')
+          t.equals(requests[0].headers['x-contentful-version'], '2', 'sends the headers')
+          t.equals(
+            requests[0].headers['content-type'],
+            'application/vnd.contentful.management.v1+json',
+            'sends the content type'
+          )
+        })
+    })
+  })
+
+  test(`${adapter} adapter errors are handled by the errorHandler`, (t) => {
+    return setup(adapter).then(({ server, httpClient }) => {
+      return httpClient
+        .get('missing')
+        .then(() => t.fail('should not succeed'), errorHandler)
+        .catch((error) => {
+          server.close()
+          t.equals(error.name, 'NotFound', 'error name')
+          t.equals(error.status, 404, 'status')
+          t.equals(error.requestId, 'request-id', 'request id')
+          t.equals(error.request.headers.Authorization, 'Bearer ...token', 'obscures token')
+        })
+    })
+  })
+
+  test(`${adapter} adapter cancels requests when the signal is aborted`, (t) => {
+    return setup(adapter).then(({ server, requests, httpClient }) => {
+      const controller = new AbortController()
+      const request = httpClient.get('slow', { signal: controller.signal })
+      setTimeout(() => controller.abort(), 50)
+      return request
+        .then(
+          () => t.fail('should not succeed'),
+          (error) => t.equals(error.name, 'AbortError', 'rejects with an AbortError')
+        )
+        .then(() => new Promise((resolve) => setTimeout(resolve, 50)))
+        .then(() => {
+          server.close()
+          t.ok(requests[0].closed, 'closes the connection')
+        })
+    })
+  })
+
+  test(`${adapter} adapter removes its abort listeners once the request settles`, (t) => {
+    return setup(adapter).then(({ server, httpClient }) => {
+      const { signal } = new AbortController()
+      const addEventListener = sinon.spy(signal, 'addEventListener')
+      const removeEventListener = sinon.spy(signal, 'removeEventListener')
+      return httpClient.get('spaceid', { signal }).then(() => {
+        server.close()
+        t.ok(addEventListener.called, 'listens to the signal')
+        addEventListener.args.forEach(([type, listener]) => {
+          t.ok(removeEventListener.calledWith(type, listener), 'removes the listener')
+        })
+      })
+    })
+  })
+})
+
+test('fetch adapter times out while reading the body', (t) => {
+  return startServer().then(({ server }) => {
+    const httpClient = createCMAHttpClient({
+      accessToken: 'token',
+      host: `localhost:${server.address().port}`,
+      insecure: true,
+      retryOnError: false,
+      adapter: 'fetch',
+      timeout: 100,
+    })
+    return httpClient.get('slow-body').then(
+      () => {
+        server.close()
+        t.fail('should not succeed')
+      },
+      (error) => {
+        server.close()
+        t.equals(error.code, 'ECONNABORTED', 'rejects with a timeout error')
+      }
+    )
+  })
+})
+
+test('fetch adapter rejects with a connection error without response', (t) => {
+  return setup('fetch').then(({ server, httpClient }) => {
+    server.close()
+    return httpClient.get('spaceid').then(
+      () => t.fail('should not succeed'),
+      (error) => {
+        t.equals(error.message, 'Network Error', 'error message')
+        t.notOk(error.response, 'has no response')
+        t.ok(error.config, 'has the request config')
+      }
+    )
+  })
+})
+
+test('Throws for unknown adapters', (t) => {
+  t.throws(() => {
+    createCMAHttpClient({ accessToken: 'token', adapter: 'xhr' })
+  }, /Unknown adapter xhr/)
+  t.end()
+})
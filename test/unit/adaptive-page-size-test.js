@@ -0,0 +1,219 @@
+import test from 'blue-tape'
+import sinon from 'sinon'
+import { createAdaptiveFetch, isResponseSizeTooBig } from '../../lib/adaptive-page-size'
+import { ContentfulApiError, NotFoundError } from '../../lib/errors'
+
+function createResponseSizeError() {
+  return new ContentfulApiError('BadRequest', {
+    status: 400,
+    statusText: 'Bad Request',
+    message: 'Response size too big. Maximum allowed response size: 7340032B.',
+  })
+}
+
+// responds with the items from skip to skip + limit, failing for pages above the max size
+function createFetchPage(total, maxSize) {
+  return sinon.spy(({ skip = 0, limit = 100 }) => {
+    if (limit > maxSize) {
+      return Promise.reject(createResponseSizeError())
+    }
+    const items = []
+    for (let i = skip; i < Math.min(skip + limit, total); i++) {
+      items.push(i)
+    }
+    return Promise.resolve({ sys: { type: 'Array' }, total, skip, limit, items })
+  })
+}
+
+test('isResponseSizeTooBig detects the response size error', (t) => {
+  t.ok(isResponseSizeTooBig(createResponseSizeError()), 'detects the error')
+  t.notOk(
+    isResponseSizeTooBig(new ContentfulApiError('BadRequest', { status: 400, message: 'Bad' })),
+    'ignores other bad requests'
+  )
+  t.notOk(isResponseSizeTooBig(new NotFoundError('NotFound', { status: 404 })), 'ignores others')
+  t.end()
+})
+
+test('Adaptive fetch sends the query as it is when the response fits', (t) => {
+  const fetchPage = createFetchPage(10, 100)
+  const query = { content_type: 'post' }
+  return createAdaptiveFetch()(fetchPage, query).then((page) => {
+    t.equals(fetchPage.firstCall.args[0], query, 'sends the query')
+    t.equals(page.items.length, 10, 'resolves with the page')
+  })
+})
+
+test('Adaptive fetch halves the limit and completes the page from the same skip', (t) => {
+  const fetchPage = createFetchPage(1000, 30)
+  return createAdaptiveFetch()(fetchPage, { skip: 100, limit: 100, include: 10 }).then((page) => {
+    t.deepEqual(
+      fetchPage.args.map(([{ skip, limit }]) => [skip, limit]),
+      [
+        [100, 100],
+        [100, 50],
+        [100, 25],
+        [125, 25],
+        [150, 25],
+        [175, 25],
+      ],
+      'retries with halved limits'
+    )
+    t.equals(fetchPage.firstCall.args[0].include, 10, 'keeps the other parameters')
+    t.equals(page.skip, 100, 'resolves with the requested skip')
+    t.equals(page.limit, 100, 'resolves with the requested limit')
+    t.equals(page.total, 1000, 'resolves with the total')
+    t.deepEqual(
+      page.items,
+      Array.from({ length: 100 }, (_, i) => 100 + i),
+      'has the full page'
+    )
+  })
+})
+
+test('Adaptive fetch starts the next pages of a query with the reduced limit', (t) => {
+  const fetchPage = createFetchPage(1000, 60)
+  const fetchAdaptively = createAdaptiveFetch()
+  return fetchAdaptively(fetchPage, { skip: 0, limit: 100 })
+    .then(() => {
+      fetchPage.resetHistory()
+      return fetchAdaptively(fetchPage, { skip: 100, limit: 100 })
+    })
+    .then((page) => {
+      t.equals(fetchPage.firstCall.args[0].limit, 50, 'does not request the full page again')
+      t.equals(page.items[0], 100, 'starts at the skip')
+      t.equals(page.items.length, 100, 'has the full page')
+    })
+})
+
+test('Adaptive fetch doubles the limit after successful requests', (t) => {
+  // the first 100 items are big, pages containing them have to be small
+  const fetchPage = sinon.spy(({ skip, limit }) =>
+    skip < 100 && limit > 25
+      ? Promise.reject(createResponseSizeError())
+      : createFetchPage(1000, Infinity)({ skip, limit })
+  )
+  return createAdaptiveFetch()(fetchPage, { skip: 0, limit: 400 }).then((page) => {
+    t.deepEqual(
+      fetchPage.args.map(([{ skip, limit }]) => [skip, limit]),
+      [
+        [0, 400],
+        [0, 200],
+        [0, 100],
+        [0, 50],
+        [0, 25],
+        [25, 25],
+        [50, 25],
+        [75, 49],
+        [75, 24],
+        [99, 24],
+        [123, 24],
+        [147, 48],
+        [195, 48],
+        [243, 48],
+        [291, 48],
+        [339, 48],
+        [387, 13],
+      ],
+      'grows the limit back gradually up to below the last failed limit'
+    )
+    t.equals(page.items.length, 400, 'has the full page')
+  })
+})
+
+test('Adaptive fetch grows the reduced limit back on the next pages of a query', (t) => {
+  // only the first 100 items are big, later pages can be bigger again
+  const fetchPage = sinon.spy(({ skip, limit }) =>
+    skip < 100 && limit > 25
+      ? Promise.reject(createResponseSizeError())
+      : createFetchPage(1000, Infinity)({ skip, limit })
+  )
+  const fetchAdaptively = createAdaptiveFetch()
+  return fetchAdaptively(fetchPage, { skip: 0, limit: 200 })
+    .then(() => {
+      fetchPage.resetHistory()
+      return fetchAdaptively(fetchPage, { skip: 200, limit: 200 })
+    })
+    .then((page) => {
+      t.deepEqual(
+        fetchPage.args.map(([{ skip, limit }]) => [skip, limit]),
+        [
+          [200, 48],
+          [248, 48],
+          [296, 48],
+          [344, 48],
+          [392, 8],
+        ],
+        'starts with the grown limit'
+      )
+      t.equals(page.items.length, 200, 'has the full page')
+    })
+})
+
+test('Adaptive fetch does not request a failed limit again', (t) => {
+  const fetchPage = sinon.spy(({ skip, limit }) =>
+    limit >= 100
+      ? Promise.reject(createResponseSizeError())
+      : createFetchPage(1000, Infinity)({ skip, limit })
+  )
+  const fetchAdaptively = createAdaptiveFetch()
+  const fetchPages = (skip) =>
+    skip < 500
+      ? fetchAdaptively(fetchPage, { skip, limit: 100 }).then(() => fetchPages(skip + 100))
+      : Promise.resolve()
+  return fetchPages(0).then(() => {
+    const limits = fetchPage.args.slice(1).map(([{ limit }]) => limit)
+    t.ok(
+      limits.every((limit) => limit < 100),
+      'keeps the limit below the failed limit'
+    )
+    t.ok(limits.indexOf(99) !== -1, 'grows the limit up to below the failed limit')
+  })
+})
+
+test('Adaptive fetch stops at the end of the collection', (t) => {
+  const fetchPage = createFetchPage(120, 40)
+  return createAdaptiveFetch()(fetchPage, { skip: 100, limit: 100 }).then((page) => {
+    t.equals(page.items.length, 20, 'has the remaining items')
+    t.equals(page.total, 120, 'resolves with the total')
+  })
+})
+
+test('Adaptive fetch rejects with other errors and when a single item is too big', (t) => {
+  const fetchPage = sinon.stub().rejects(createResponseSizeError())
+  return createAdaptiveFetch()(fetchPage, { limit: 4 }).then(
+    () => t.fail('should not succeed'),
+    (error) => {
+      t.ok(isResponseSizeTooBig(error), 'rejects with the error')
+      t.deepEqual(
+        fetchPage.args.map(([query]) => query.limit),
+        [4, 2, 1],
+        'gives up after a limit of 1'
+      )
+    }
+  )
+})
+
+test('Adaptive fetch merges the includes of the smaller pages', (t) => {
+  const fetchPage = sinon.spy(({ skip, limit }) => {
+    if (limit > 1) {
+      return Promise.reject(createResponseSizeError())
+    }
+    const author = { sys: { id: 'author' } }
+    const image = { sys: { id: `image-${skip}` } }
+    return Promise.resolve({
+      sys: { type: 'Array' },
+      total: 2,
+      skip,
+      limit,
+      items: [skip],
+      includes: { Entry: [author], Asset: [image] },
+    })
+  })
+  return createAdaptiveFetch()(fetchPage, { limit: 2, include: 1 }).then((page) => {
+    t.deepEqual(page.includes, {
+      Entry: [{ sys: { id: 'author' } }],
+      Asset: [{ sys: { id: 'image-0' } }, { sys: { id: 'image-1' } }],
+    })
+  })
+})
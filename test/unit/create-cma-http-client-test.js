@@ -17,20 +17,21 @@ test('Throws if no accessToken is defined', (t) => {
 test('Passes along HTTP client parameters', (t) => {
   createCMAHttpClientRewireApi.__Rewire__('axios', { create: sinon.stub() })
 
-  const createHttpClientStub = sinon.stub()
+  const createHttpClientStub = sinon.stub().returns({})
   createCMAHttpClientRewireApi.__Rewire__('createHttpClient', createHttpClientStub)
 
   createCMAHttpClient({ accessToken: 'accesstoken' })
   t.ok(createHttpClientStub.args[0][1].headers['Content-Type'], 'sets the content type')
   createCMAHttpClientRewireApi.__ResetDependency__('createHttpClient')
   createCMAHttpClientRewireApi.__ResetDependency__('wrapHttpClient')
+  createCMAHttpClientRewireApi.__ResetDependency__('axios')
   t.end()
 })
 
 test('Generate the correct default User Agent Header', (t) => {
   createCMAHttpClientRewireApi.__Rewire__('axios', { create: sinon.stub() })
 
-  const createHttpClientStub = sinon.stub()
+  const createHttpClientStub = sinon.stub().returns({})
   createCMAHttpClientRewireApi.__Rewire__('createHttpClient', createHttpClientStub)
   createCMAHttpClient({ accessToken: 'accesstoken' })
   const headerParts = createHttpClientStub.args[0][1].headers['X-Contentful-User-Agent'].split('; ')
@@ -41,13 +42,14 @@ test('Generate the correct default User Agent Header', (t) => {
 
   createCMAHttpClientRewireApi.__ResetDependency__('createHttpClient')
   createCMAHttpClientRewireApi.__ResetDependency__('wrapHttpClient')
+  createCMAHttpClientRewireApi.__ResetDependency__('axios')
   t.end()
 })
 
 test('Generate the correct custom User Agent Header', (t) => {
   createCMAHttpClientRewireApi.__Rewire__('axios', { create: sinon.stub() })
 
-  const createHttpClientStub = sinon.stub()
+  const createHttpClientStub = sinon.stub().returns({})
   createCMAHttpClientRewireApi.__Rewire__('createHttpClient', createHttpClientStub)
   createCMAHttpClient({
     accessToken: 'accesstoken',
@@ -64,5 +66,6 @@ test('Generate the correct custom User Agent Header', (t) => {
 
   createCMAHttpClientRewireApi.__ResetDependency__('createHttpClient')
   createCMAHttpClientRewireApi.__ResetDependency__('wrapHttpClient')
+  createCMAHttpClientRewireApi.__ResetDependency__('axios')
   t.end()
 })
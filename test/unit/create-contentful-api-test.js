@@ -249,3 +249,14 @@ test('API call rawRequest', (t) => {
     )
   })
 })
+
+test('API call getRequestQueueStats', (t) => {
+  const stats = { queued: 1, active: 2, sent: 3, averageWaitTime: 4, maxWaitTime: 5 }
+  const httpMock = setupHttpMock()
+  httpMock.requestQueue = { getStats: sinon.stub().returns(stats) }
+
+  const api = createContentfulApi({ http: httpMock })
+
+  t.looseEqual(api.getRequestQueueStats(), stats, 'returns the request queue stats')
+  t.end()
+})
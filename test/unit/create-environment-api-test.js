@@ -705,3 +705,9 @@ test('API call createTag', (t) => {
     t.looseEqual(r, tag)
   })
 })
+
+// the tag tests above end without teardown, the test files after this one use the real entities
+test('API calls reset the entities mock', (t) => {
+  teardown()
+  t.end()
+})
@@ -0,0 +1,105 @@
+import test from 'blue-tape'
+
+import { cloneMock } from './mocks/entities'
+import setupHttpMock from './mocks/http'
+import createPlainClientApi from '../../lib/create-plain-client-api'
+
+function setup(promise, defaults) {
+  const httpMock = setupHttpMock(promise)
+  const api = createPlainClientApi({ http: httpMock, defaults })
+  return {
+    api,
+    httpMock,
+  }
+}
+
+test('Plain client entry.get returns plain data', (t) => {
+  t.plan(3)
+  const entryMock = cloneMock('entry')
+  const { api, httpMock } = setup(Promise.resolve({ data: entryMock }))
+
+  return api.entry.get({ spaceId: 'sid', environmentId: 'eid', entryId: 'id' }).then((entry) => {
+    t.equals(httpMock.get.args[0][0], 'sid/environments/eid/entries/id', 'builds the url')
+    t.looseEqual(entry, entryMock, 'returns the response data')
+    t.notOk(entry.toPlainObject, 'data is not wrapped')
+  })
+})
+
+test('Plain client uses defaults for omitted ids', (t) => {
+  t.plan(2)
+  const { api, httpMock } = setup(Promise.resolve({ data: {} }), {
+    spaceId: 'sid',
+    environmentId: 'eid',
+  })
+
+  return api.entry
+    .getMany({ query: { select: 'fields.title' } })
+    .then(() => api.entry.get({ environmentId: 'other', entryId: 'id' }))
+    .then(() => {
+      t.looseEqual(
+        httpMock.get.args[0],
+        ['sid/environments/eid/entries', { params: { select: 'fields.title,sys' } }],
+        'uses defaults and normalizes select'
+      )
+      t.equals(
+        httpMock.get.args[1][0],
+        'sid/environments/other/entries/id',
+        'params override defaults'
+      )
+    })
+})
+
+test('Plain client throws for missing ids', (t) => {
+  const { api } = setup()
+  t.throws(() => api.entry.get({ entryId: 'id' }), /Expected parameter spaceId/)
+  t.throws(() => api.environment.get({ spaceId: 'sid' }), /Expected parameter environmentId/)
+  const environment = { spaceId: 'sid', environmentId: 'eid' }
+  t.throws(() => api.entry.get(environment), TypeError, 'throws a TypeError')
+  t.throws(() => api.entry.get(environment), /Expected parameter entryId/)
+  t.throws(() => api.entry.create(environment, {}), /Expected parameter contentTypeId/)
+  t.throws(() => api.asset.get(environment), /Expected parameter assetId/)
+  t.throws(() => api.contentType.get(environment), /Expected parameter contentTypeId/)
+  t.throws(() => api.locale.get(environment), /Expected parameter localeId/)
+  t.end()
+})
+
+test('Plain client entry.update sends data without sys', (t) => {
+  t.plan(3)
+  const entryMock = cloneMock('entry')
+  entryMock.sys.version = 3
+  const { api, httpMock } = setup(Promise.resolve({ data: entryMock }))
+
+  return api.entry
+    .update({ spaceId: 'sid', environmentId: 'eid', entryId: 'id' }, entryMock)
+    .then(() => {
+      t.equals(httpMock.put.args[0][0], 'sid/environments/eid/entries/id', 'builds the url')
+      t.looseEqual(httpMock.put.args[0][1], { fields: entryMock.fields }, 'sys is stripped')
+      t.equals(httpMock.put.args[0][2].headers['X-Contentful-Version'], 3, 'sends version')
+    })
+})
+
+test('Plain client entry.publish sends version', (t) => {
+  t.plan(2)
+  const entryMock = cloneMock('entry')
+  entryMock.sys.version = 2
+  const { api, httpMock } = setup(Promise.resolve({ data: entryMock }))
+
+  return api.entry
+    .publish({ spaceId: 'sid', environmentId: 'eid', entryId: 'id' }, entryMock)
+    .then(() => {
+      t.equals(httpMock.put.args[0][0], 'sid/environments/eid/entries/id/published')
+      t.equals(httpMock.put.args[0][2].headers['X-Contentful-Version'], 2)
+    })
+})
+
+test('Plain client asset.get fails', (t) => {
+  t.plan(1)
+  const { api } = setup(Promise.reject(cloneMock('error')))
+
+  return api.asset.get({ spaceId: 'sid', environmentId: 'eid', assetId: 'id' }).then(
+    () => {},
+    (error) => {
+      t.equals(error.name, '404 Not Found')
+    }
+  )
+})
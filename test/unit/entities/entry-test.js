@@ -2,6 +2,7 @@ import test from 'blue-tape'
 import { cloneMock } from '../mocks/entities'
 import setupHttpMock from '../mocks/http'
 import { wrapEntry, wrapEntryCollection } from '../../../lib/entities/entry'
+import { VersionMismatchError } from '../../../lib/errors'
 import {
   entityWrappedTest,
   entityCollectionWrappedTest,
@@ -179,3 +180,131 @@ test('Entry getSnapshots', (t) => {
     actionMethod: 'getSnapshots',
   })
 })
+
+function versionMismatch() {
+  const error = cloneMock('error')
+  error.response.status = 409
+  error.response.statusText = 'Conflict'
+  error.response.data = { sys: { id: 'VersionMismatch', type: 'Error' } }
+  return Promise.reject(error)
+}
+
+function setupConflict({ localTitle, remoteTitle }) {
+  const { httpMock } = setup()
+  const base = cloneMock('entry')
+  base.sys.version = 2
+  base.fields = { title: { 'en-US': 'Base' }, body: { 'en-US': 'Base body' } }
+  const remote = cloneMock('entry')
+  remote.sys.version = 4
+  remote.fields = { title: { 'en-US': remoteTitle }, body: { 'en-US': 'Remote body' } }
+
+  httpMock.put.onFirstCall().returns(versionMismatch())
+  httpMock.put.returns(Promise.resolve({ data: remote }))
+  httpMock.get.withArgs(`entries/${base.sys.id}`).returns(Promise.resolve({ data: remote }))
+  httpMock.get
+    .withArgs(`entries/${base.sys.id}/snapshots`)
+    .returns(Promise.resolve({ data: { items: [{ sys: { type: 'Snapshot' }, snapshot: base }] } }))
+
+  const entry = wrapEntry(httpMock, base)
+  entry.fields.title['en-US'] = localTitle
+  return { httpMock, entry }
+}
+
+test('Entry update merges concurrent changes with onConflict merge', (t) => {
+  const { httpMock, entry } = setupConflict({ localTitle: 'Local', remoteTitle: 'Base' })
+  return entry.update({ onConflict: 'merge' }).then(() => {
+    t.equals(httpMock.put.callCount, 2, 'retries the update')
+    t.deepEqual(
+      httpMock.put.args[1][1].fields,
+      { title: { 'en-US': 'Local' }, body: { 'en-US': 'Remote body' } },
+      'keeps the local and the remote changes'
+    )
+    t.equals(httpMock.put.args[1][2].headers['X-Contentful-Version'], 4, 'sends the new version')
+  })
+})
+
+test('Entry update passes conflicting values to the resolver', (t) => {
+  const { httpMock, entry } = setupConflict({ localTitle: 'Local', remoteTitle: 'Remote' })
+  const conflicts = []
+  const resolver = (conflict) => {
+    conflicts.push(conflict)
+    return `${conflict.local} and ${conflict.remote}`
+  }
+  return entry.update({ onConflict: resolver }).then(() => {
+    t.deepEqual(
+      conflicts,
+      [{ fieldId: 'title', locale: 'en-US', base: 'Base', local: 'Local', remote: 'Remote' }],
+      'calls the resolver for the conflicting value only'
+    )
+    t.equals(httpMock.put.args[1][1].fields.title['en-US'], 'Local and Remote', 'saves the result')
+  })
+})
+
+test('Entry update merges based on the fetched entry instead of the published snapshot', (t) => {
+  const { httpMock } = setup()
+  const published = cloneMock('entry')
+  published.sys.version = 2
+  published.fields = { title: { 'en-US': 'Published' }, body: { 'en-US': 'Base body' } }
+  const fetched = cloneMock('entry')
+  fetched.sys.version = 5
+  fetched.fields = { title: { 'en-US': 'Draft' }, body: { 'en-US': 'Base body' } }
+  const remote = cloneMock('entry')
+  remote.sys.version = 6
+  remote.fields = { title: { 'en-US': 'Remote' }, body: { 'en-US': 'Base body' } }
+
+  httpMock.put.onFirstCall().returns(versionMismatch())
+  httpMock.put.returns(Promise.resolve({ data: remote }))
+  httpMock.get.withArgs(`entries/${fetched.sys.id}`).returns(Promise.resolve({ data: remote }))
+  httpMock.get
+    .withArgs(`entries/${fetched.sys.id}/snapshots`)
+    .returns(
+      Promise.resolve({ data: { items: [{ sys: { type: 'Snapshot' }, snapshot: published }] } })
+    )
+
+  const entry = wrapEntry(httpMock, fetched)
+  entry.fields.body['en-US'] = 'Local body'
+  return entry.update({ onConflict: 'merge' }).then(() => {
+    t.deepEqual(
+      httpMock.put.args[1][1].fields,
+      { title: { 'en-US': 'Remote' }, body: { 'en-US': 'Local body' } },
+      'keeps the remote change made after the last publish'
+    )
+    t.notOk(httpMock.get.calledWith(`entries/${fetched.sys.id}/snapshots`), 'needs no snapshots')
+  })
+})
+
+test('Entry update overwrites the server with onConflict retry', (t) => {
+  const { httpMock, entry } = setupConflict({ localTitle: 'Local', remoteTitle: 'Remote' })
+  return entry.update({ onConflict: 'retry' }).then(() => {
+    t.deepEqual(
+      httpMock.put.args[1][1].fields,
+      { title: { 'en-US': 'Local' }, body: { 'en-US': 'Base body' } },
+      'sends the local entry again'
+    )
+    t.equals(httpMock.put.args[1][2].headers['X-Contentful-Version'], 4, 'sends the new version')
+    t.notOk(httpMock.get.calledWith(`entries/${entry.sys.id}/snapshots`), 'needs no snapshots')
+  })
+})
+
+test('Entry update gives up after maxAttempts', (t) => {
+  const { httpMock, entry } = setupConflict({ localTitle: 'Local', remoteTitle: 'Remote' })
+  httpMock.put.returns(versionMismatch())
+  return entry.update({ onConflict: 'merge', maxAttempts: 3 }).then(
+    () => t.fail('should not succeed'),
+    (error) => {
+      t.ok(error instanceof VersionMismatchError, 'throws the version mismatch error')
+      t.equals(httpMock.put.callCount, 3, 'sends the configured number of updates')
+    }
+  )
+})
+
+test('Entry update without onConflict does not retry', (t) => {
+  const { httpMock, entry } = setupConflict({ localTitle: 'Local', remoteTitle: 'Remote' })
+  return entry.update().then(
+    () => t.fail('should not succeed'),
+    (error) => {
+      t.ok(error instanceof VersionMismatchError, 'throws the version mismatch error')
+      t.equals(httpMock.put.callCount, 1, 'sends one update')
+    }
+  )
+})
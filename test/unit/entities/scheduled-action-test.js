@@ -32,6 +32,24 @@ test('Scheduled action collection is wrapped', (t) => {
   })
 })
 
+test('Scheduled action collection keeps the cursors of the pages', (t) => {
+  const { httpMock, entityMock } = setup()
+  const collection = wrapScheduledActionCollection(httpMock, {
+    sys: { type: 'Array' },
+    pages: { next: '/scheduled_actions?next=cursor' },
+    limit: 1,
+    items: [entityMock],
+  })
+  t.deepEqual(collection.pages, { next: '/scheduled_actions?next=cursor' }, 'keeps the pages')
+  t.ok(collection.items[0].delete, 'wraps the items')
+  t.deepEqual(
+    collection.toPlainObject().pages,
+    collection.pages,
+    'keeps the pages in plain objects'
+  )
+  t.end()
+})
+
 test('Scheduled actions delete', (t) => {
   return entityDeleteTest(t, setup, {
     wrapperMethod: wrapScheduledAction,
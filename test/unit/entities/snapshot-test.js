@@ -0,0 +1,115 @@
+import test from 'blue-tape'
+import sinon from 'sinon'
+import { wrapSnapshot } from '../../../lib/entities/snapshot'
+import { cloneMock } from '../mocks/entities'
+import setupHttpMock from '../mocks/http'
+
+function createSnapshot(snapshotEntityType, snapshot) {
+  return {
+    sys: { type: 'Snapshot', id: 'snapshot-id', snapshotType: 'publish', snapshotEntityType },
+    snapshot,
+  }
+}
+
+function setup(current) {
+  const httpMock = setupHttpMock()
+  httpMock.get = sinon.stub().resolves({ data: current })
+  httpMock.put = sinon.stub().callsFake((url, data, config) =>
+    Promise.resolve({
+      data: {
+        ...data,
+        sys: {
+          ...current.sys,
+          version: config.headers['X-Contentful-Version'] + (/published$/.test(url) ? 0 : 1),
+        },
+      },
+    })
+  )
+  return httpMock
+}
+
+function setupEntry() {
+  const current = cloneMock('entry')
+  current.sys.version = 5
+  current.fields = { title: { 'en-US': 'Changed' }, body: { 'en-US': 'Text' } }
+  const snapshot = cloneMock('entry')
+  snapshot.sys.version = 2
+  snapshot.fields = { title: { 'en-US': 'Original' } }
+  return { httpMock: setup(current), snapshot: createSnapshot('Entry', snapshot) }
+}
+
+test('Snapshot restore updates the current version of the entry', (t) => {
+  const { httpMock, snapshot } = setupEntry()
+  return wrapSnapshot(httpMock, snapshot)
+    .restore()
+    .then((entry) => {
+      t.equals(httpMock.get.args[0][0], 'entries/id', 'gets the current entry')
+      t.equals(httpMock.put.callCount, 1, 'does not publish')
+      const [url, data, config] = httpMock.put.args[0]
+      t.equals(url, 'entries/id', 'updates the entry')
+      t.deepEqual(
+        data.fields,
+        { title: { 'en-US': 'Original' } },
+        'sends the fields of the snapshot'
+      )
+      t.equals(config.headers['X-Contentful-Version'], 5, 'sends the current version')
+      t.equals(entry.sys.version, 6, 'resolves with the updated entry')
+      t.equals(typeof entry.publish, 'function', 'wraps the entry')
+    })
+})
+
+test('Snapshot restore publishes the restored entry', (t) => {
+  const { httpMock, snapshot } = setupEntry()
+  return wrapSnapshot(httpMock, snapshot)
+    .restore({ publish: true })
+    .then(() => {
+      t.equals(httpMock.put.args[1][0], 'entries/id/published', 'publishes the entry')
+      t.equals(httpMock.put.args[1][2].headers['X-Contentful-Version'], 6, 'of the updated version')
+    })
+})
+
+test('Snapshot restore resolves with the changes in a dry run', (t) => {
+  const { httpMock, snapshot } = setupEntry()
+  return wrapSnapshot(httpMock, snapshot)
+    .restore({ dryRun: true })
+    .then((changes) => {
+      t.notOk(httpMock.put.called, 'does not update the entry')
+      t.deepEqual(changes, [
+        { field: 'title', locale: 'en-US', type: 'changed', from: 'Changed', to: 'Original' },
+        { field: 'body', locale: 'en-US', type: 'removed', value: 'Text' },
+      ])
+    })
+})
+
+test('Snapshot restore restores content types', (t) => {
+  const current = cloneMock('contentType')
+  current.sys.version = 3
+  current.name = 'Changed'
+  const httpMock = setup(current)
+  const snapshot = wrapSnapshot(httpMock, createSnapshot('ContentType', cloneMock('contentType')))
+  return snapshot
+    .restore({ dryRun: true })
+    .then((operations) => {
+      t.deepEqual(
+        operations,
+        [{ op: 'replace', path: '/name', value: 'name' }],
+        'diffs as JSON Patch'
+      )
+      return snapshot.restore()
+    })
+    .then((contentType) => {
+      const [url, data] = httpMock.put.args[0]
+      t.equals(url, 'content_types/id', 'updates the content type')
+      t.equals(data.name, 'name', 'sends the snapshot')
+      t.equals(contentType.sys.version, 4, 'resolves with the updated content type')
+    })
+})
+
+test('Snapshot restore rejects snapshots of other entities', (t) => {
+  return wrapSnapshot(setupHttpMock(), createSnapshot('Asset', cloneMock('asset')))
+    .restore()
+    .then(
+      () => t.fail('should not restore'),
+      (error) => t.equals(error.name, 'UnsupportedSnapshot')
+    )
+})
@@ -0,0 +1,154 @@
+import test from 'blue-tape'
+import { diffEntries, renderEntryDiff } from '../../lib/entry-diff'
+import { wrapEntry } from '../../lib/entities/entry'
+import { resolveEntryCollection } from '../../lib/link-resolution'
+import setupHttpMock from './mocks/http'
+
+function link(linkType, id) {
+  return { sys: { type: 'Link', linkType, id } }
+}
+
+function paragraph(text) {
+  return { nodeType: 'paragraph', data: {}, content: [{ nodeType: 'text', value: text }] }
+}
+
+function heading(text) {
+  return { nodeType: 'heading-2', data: {}, content: [{ nodeType: 'text', value: text }] }
+}
+
+function document(...content) {
+  return { nodeType: 'document', data: {}, content }
+}
+
+const published = {
+  sys: { type: 'Entry', id: 'post', version: 3 },
+  fields: {
+    title: { 'en-US': 'Hello', 'de-DE': 'Hallo' },
+    author: { 'en-US': link('Entry', 'jane') },
+    related: { 'en-US': [link('Entry', 'a'), link('Entry', 'b')] },
+    tags: { 'en-US': ['news', 'tech'] },
+    body: { 'en-US': document(paragraph('First'), paragraph('Second'), paragraph('Third')) },
+    summary: { 'en-US': 'Old summary' },
+  },
+}
+
+const draft = {
+  sys: { type: 'Entry', id: 'post', version: 5 },
+  fields: {
+    title: { 'en-US': 'Hello world', 'de-DE': 'Hallo' },
+    author: { 'en-US': link('Entry', 'john') },
+    related: { 'en-US': [link('Entry', 'b'), link('Entry', 'c')] },
+    tags: { 'en-US': ['tech', 'news'] },
+    body: {
+      'en-US': document(paragraph('First paragraph'), paragraph('Second'), heading('New section')),
+    },
+    image: { 'en-US': link('Asset', 'image') },
+  },
+}
+
+test('diffEntries lists the changes per field and locale', (t) => {
+  const changes = diffEntries(published, draft)
+  t.deepEqual(changes.slice(0, 4), [
+    { field: 'title', locale: 'en-US', type: 'changed', from: 'Hello', to: 'Hello world' },
+    {
+      field: 'author',
+      locale: 'en-US',
+      type: 'linkChanged',
+      from: link('Entry', 'jane'),
+      to: link('Entry', 'john'),
+    },
+    {
+      field: 'related',
+      locale: 'en-US',
+      type: 'linksChanged',
+      added: [link('Entry', 'c')],
+      removed: [link('Entry', 'a')],
+    },
+    {
+      field: 'tags',
+      locale: 'en-US',
+      type: 'changed',
+      from: ['news', 'tech'],
+      to: ['tech', 'news'],
+    },
+  ])
+  t.deepEqual(
+    changes.slice(5),
+    [
+      { field: 'summary', locale: 'en-US', type: 'removed', value: 'Old summary' },
+      { field: 'image', locale: 'en-US', type: 'added', value: link('Asset', 'image') },
+    ],
+    'lists added and removed values'
+  )
+  t.deepEqual(diffEntries(published, published), [], 'is empty without changes')
+  t.end()
+})
+
+test('diffEntries diffs the nodes of rich text', (t) => {
+  const [change] = diffEntries(published, draft).filter((item) => item.field === 'body')
+  t.equals(change.type, 'richTextChanged')
+  t.deepEqual(change.nodes, [
+    { type: 'changed', index: 0, from: paragraph('First'), to: paragraph('First paragraph') },
+    { type: 'removed', index: 2, node: paragraph('Third') },
+    { type: 'added', index: 2, node: heading('New section') },
+  ])
+  t.deepEqual(
+    diffEntries(
+      { fields: { body: { 'en-US': document(paragraph('A')) } } },
+      { fields: { body: { 'en-US': document(heading('Intro'), paragraph('A')) } } }
+    )[0].nodes,
+    [{ type: 'added', index: 0, node: heading('Intro') }],
+    'keeps the unchanged nodes'
+  )
+  t.deepEqual(
+    diffEntries(
+      { fields: { body: { 'en-US': document(paragraph('A'), paragraph('B')) } } },
+      { fields: { body: { 'en-US': document(paragraph('A2'), paragraph('B2')) } } }
+    )[0].nodes,
+    [
+      { type: 'changed', index: 0, from: paragraph('A'), to: paragraph('A2') },
+      { type: 'changed', index: 1, from: paragraph('B'), to: paragraph('B2') },
+    ],
+    'pairs adjacent changed nodes by position'
+  )
+  t.end()
+})
+
+test('Entry diff compares with snapshots and entries with resolved links', (t) => {
+  const snapshot = { sys: { type: 'Snapshot', id: 'snapshot' }, snapshot: published }
+  const entry = wrapEntry(setupHttpMock(), draft)
+  t.deepEqual(entry.diff(snapshot), diffEntries(published, draft), 'diffs from the snapshot')
+  const resolved = resolveEntryCollection(setupHttpMock(), {
+    items: [draft],
+    includes: { Entry: [{ sys: { type: 'Entry', id: 'john' }, fields: {} }] },
+  }).items[0]
+  t.deepEqual(resolved.diff(draft), [], 'compares resolved links as links')
+  t.end()
+})
+
+test('renderEntryDiff describes the changes as text', (t) => {
+  t.equals(
+    renderEntryDiff(diffEntries(published, draft)),
+    [
+      'title (en-US): changed "Hello" -> "Hello world"',
+      'author (en-US): link changed Entry jane -> Entry john',
+      'related (en-US): links changed',
+      '  + Entry c',
+      '  - Entry a',
+      'tags (en-US): changed ["news","tech"] -> ["tech","news"]',
+      'body (en-US): rich text changed',
+      '  ~ paragraph "First" -> "First paragraph"',
+      '  - paragraph "Third"',
+      '  + heading-2 "New section"',
+      'summary (en-US): removed "Old summary"',
+      'image (en-US): added Asset image',
+    ].join('\n')
+  )
+  t.equals(
+    renderEntryDiff(diffEntries(published, draft).slice(0, 1), { maxLength: 8 }),
+    'title (en-US): changed "Hello" -> "Hell...',
+    'shortens long values'
+  )
+  t.equals(renderEntryDiff([]), 'No changes')
+  t.end()
+})
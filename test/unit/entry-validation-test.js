@@ -0,0 +1,243 @@
+import test from 'blue-tape'
+import { validateEntry } from '../../lib/entry-validation'
+import { parseValidationErrors } from '../../lib/validation-errors'
+import { wrapContentType } from '../../lib/entities/content-type'
+import { cloneMock } from './mocks/entities'
+import setupHttpMock from './mocks/http'
+
+const locales = [
+  { code: 'en-US', default: true, optional: false },
+  { code: 'de-DE', default: false, optional: false },
+  { code: 'fr-FR', default: false, optional: true },
+]
+
+function field(id, type, properties = {}) {
+  return { id, name: id, type, required: false, localized: false, ...properties }
+}
+
+function link(linkType, id) {
+  return { sys: { type: 'Link', linkType, id } }
+}
+
+function describe(errors) {
+  return errors.map(({ validation, path }) => `${validation} ${path.join('.')}`)
+}
+
+test('validateEntry checks required values per locale', (t) => {
+  const contentType = {
+    fields: [
+      field('title', 'Symbol', { required: true, localized: true }),
+      field('slug', 'Symbol', { required: true }),
+      field('summary', 'Text'),
+    ],
+  }
+  const entry = {
+    fields: { title: { 'en-US': 'Hello', 'fr-FR': 'Bonjour' }, slug: { 'en-US': null } },
+  }
+  t.deepEqual(describe(validateEntry(contentType, entry, { locales })), [
+    'required fields.title.de-DE',
+    'required fields.slug.en-US',
+  ])
+  t.deepEqual(
+    describe(validateEntry(contentType, entry)),
+    ['required fields.slug'],
+    'requires a value for any locale without locales'
+  )
+  t.end()
+})
+
+test('validateEntry skips deleted fields', (t) => {
+  const contentType = {
+    fields: [
+      field('title', 'Symbol', { required: true }),
+      field('old', 'Integer', { required: true, deleted: true }),
+    ],
+  }
+  t.deepEqual(
+    validateEntry(contentType, { fields: { title: { 'en-US': 'Hello' } } }, { locales }),
+    []
+  )
+  t.end()
+})
+
+test('validateEntry rejects unknown fields, locales and types', (t) => {
+  const contentType = {
+    fields: [
+      field('title', 'Symbol', { localized: true }),
+      field('rating', 'Integer'),
+      field('published', 'Date'),
+      field('location', 'Location'),
+      field('author', 'Link', { linkType: 'Entry' }),
+      field('body', 'RichText'),
+      field('tags', 'Array', { items: { type: 'Symbol' } }),
+    ],
+  }
+  const entry = {
+    fields: {
+      title: { 'en-US': 'Hello', 'it-IT': 'Ciao' },
+      rating: { 'en-US': 4.5, 'de-DE': 4 },
+      published: { 'en-US': 'yesterday' },
+      location: { 'en-US': { lat: 1 } },
+      author: { 'en-US': link('Asset', 'image') },
+      body: { 'en-US': { nodeType: 'paragraph' } },
+      tags: { 'en-US': ['news', 1] },
+      extra: { 'en-US': true },
+    },
+  }
+  const errors = validateEntry(contentType, entry, { locales })
+  t.deepEqual(describe(errors), [
+    'unknown fields.title.it-IT',
+    'type fields.rating.en-US',
+    'unknown fields.rating.de-DE',
+    'type fields.published.en-US',
+    'type fields.location.en-US',
+    'type fields.author.en-US',
+    'type fields.body.en-US',
+    'type fields.tags.en-US.1',
+    'unknown fields.extra',
+  ])
+  t.deepEqual(
+    errors[1],
+    parseValidationErrors({
+      errors: [{ name: 'type', path: ['fields', 'rating', 'en-US'], type: 'Integer', value: 4.5 }],
+    })[0],
+    'has the format of the errors of the API'
+  )
+  t.equals(errors[5].message, 'The value has to be of type Entry link', 'names the link type')
+  t.end()
+})
+
+test('validateEntry evaluates the validations of the fields', (t) => {
+  const contentType = {
+    fields: [
+      field('title', 'Symbol', {
+        validations: [{ size: { max: 5 } }, { prohibitRegexp: { pattern: 'lorem', flags: 'i' } }],
+      }),
+      field('slug', 'Symbol', {
+        validations: [{ regexp: { pattern: '^[a-z-]+$' }, message: 'Only lowercase letters' }],
+      }),
+      field('rating', 'Number', { validations: [{ range: { min: 1, max: 5 } }] }),
+      field('category', 'Symbol', { validations: [{ in: ['news', 'blog'] }] }),
+      field('date', 'Date', { validations: [{ dateRange: { min: '2020-01-01' } }] }),
+      field('tags', 'Array', {
+        validations: [{ size: { min: 1 } }],
+        items: { type: 'Symbol', validations: [{ in: ['a', 'b'] }] },
+      }),
+      field('valid', 'Symbol', { validations: [{ size: { max: 5 } }, { unique: true }] }),
+    ],
+  }
+  const entry = {
+    fields: {
+      title: { 'en-US': 'Lorem ipsum' },
+      slug: { 'en-US': 'Hello World' },
+      rating: { 'en-US': 7 },
+      category: { 'en-US': 'other' },
+      date: { 'en-US': '2019-05-01' },
+      tags: { 'en-US': ['a', 'c'] },
+      valid: { 'en-US': 'ok' },
+    },
+  }
+  const errors = validateEntry(contentType, entry, { locales })
+  t.deepEqual(describe(errors), [
+    'size fields.title.en-US',
+    'prohibitRegexp fields.title.en-US',
+    'regexp fields.slug.en-US',
+    'range fields.rating.en-US',
+    'in fields.category.en-US',
+    'dateRange fields.date.en-US',
+    'in fields.tags.en-US.1',
+  ])
+  t.equals(errors[0].message, 'The size has to be at most 5', 'describes the validation')
+  t.equals(errors[2].message, 'Only lowercase letters', 'uses the message of the validation')
+  t.equals(errors[4].value, 'other', 'has the invalid value')
+  t.end()
+})
+
+test('validateEntry checks links against the linked entities', (t) => {
+  const contentType = {
+    fields: [
+      field('author', 'Link', {
+        linkType: 'Entry',
+        validations: [{ linkContentType: ['person'] }],
+      }),
+      field('image', 'Link', {
+        linkType: 'Asset',
+        validations: [{ linkMimetypeGroup: ['image'] }],
+      }),
+      field('related', 'Array', {
+        items: { type: 'Link', linkType: 'Entry', validations: [{ linkContentType: ['post'] }] },
+      }),
+    ],
+  }
+  const entry = {
+    fields: {
+      author: { 'en-US': link('Entry', 'company') },
+      image: { 'en-US': link('Asset', 'manual') },
+      related: {
+        'en-US': [
+          link('Entry', 'unknown'),
+          // put in place of the link by resolveLinks
+          { sys: { type: 'Entry', id: 'company', contentType: link('ContentType', 'company') } },
+        ],
+      },
+    },
+  }
+  const linkedEntities = [
+    { sys: { type: 'Entry', id: 'company', contentType: link('ContentType', 'company') } },
+    {
+      sys: { type: 'Asset', id: 'manual' },
+      fields: { file: { 'en-US': { contentType: 'application/pdf' } } },
+    },
+  ]
+  t.deepEqual(describe(validateEntry(contentType, entry, { locales, linkedEntities })), [
+    'linkContentType fields.author.en-US',
+    'linkMimetypeGroup fields.image.en-US',
+    'linkContentType fields.related.en-US.1',
+  ])
+  t.deepEqual(
+    describe(validateEntry(contentType, entry)),
+    ['linkContentType fields.related.en-US.1'],
+    'skips links to unknown entities'
+  )
+  t.end()
+})
+
+test('validateEntry checks the node types and marks of rich text', (t) => {
+  const contentType = {
+    fields: [
+      field('body', 'RichText', {
+        validations: [{ enabledNodeTypes: ['heading-2'] }, { enabledMarks: ['bold'] }],
+      }),
+    ],
+  }
+  const text = (marks) => ({ nodeType: 'text', value: 'Text', marks, data: {} })
+  const entry = {
+    fields: {
+      body: {
+        'en-US': {
+          nodeType: 'document',
+          data: {},
+          content: [
+            { nodeType: 'heading-2', data: {}, content: [text([{ type: 'bold' }])] },
+            { nodeType: 'heading-1', data: {}, content: [text([{ type: 'italic' }])] },
+          ],
+        },
+      },
+    },
+  }
+  const errors = validateEntry(contentType, entry, { locales })
+  t.deepEqual(describe(errors), [
+    'enabledNodeTypes fields.body.en-US.content.1',
+    'enabledMarks fields.body.en-US.content.1.content.0',
+  ])
+  t.equals(errors[0].message, 'The node type heading-1 is not allowed')
+  t.end()
+})
+
+test('ContentType validateEntry validates against the content type', (t) => {
+  const contentType = wrapContentType(setupHttpMock(), cloneMock('contentType'))
+  const errors = contentType.validateEntry({ fields: { fieldid: { 'en-US': 1 } } }, { locales })
+  t.deepEqual(describe(errors), ['type fields.fieldid.en-US'])
+  t.deepEqual(contentType.validateEntry({ fields: { fieldid: { 'en-US': 'Text' } } }), [])
+  t.end()
+})
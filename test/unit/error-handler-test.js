@@ -1,5 +1,15 @@
 import test from 'blue-tape'
 import errorHandler from '../../lib/error-handler'
+import {
+  AccessDeniedError,
+  ContentfulApiError,
+  NotFoundError,
+  RateLimitExceededError,
+  ServerError,
+  UnprocessableEntityError,
+  ValidationFailedError,
+  VersionMismatchError,
+} from '../../lib/errors'
 import { cloneMock } from './mocks/entities'
 
 // Best case scenario where an error is a known and expected situation and the
@@ -19,12 +29,12 @@ test('Throws well formed error with details from server', (t) => {
   try {
     errorHandler(error)
   } catch (err) {
-    const parsedMessage = JSON.parse(err.message)
     t.equals(err.name, 'SpecificError', 'error name')
-    t.equals(parsedMessage.request.url, 'requesturl', 'request url')
-    t.equals(parsedMessage.message, 'datamessage', 'error payload message')
-    t.equals(parsedMessage.requestId, 'requestid', 'request id')
-    t.equals(parsedMessage.details, 'errordetails', 'error payload details')
+    t.equals(err.sysId, 'SpecificError', 'error id')
+    t.equals(err.request.url, 'requesturl', 'request url')
+    t.equals(err.message, '404 Not Found: datamessage (request id: requestid)', 'readable message')
+    t.equals(err.requestId, 'requestid', 'request id')
+    t.equals(err.details, 'errordetails', 'error payload details')
   }
   t.end()
 })
@@ -46,10 +56,9 @@ test('Throws unknown error received from server', (t) => {
   try {
     errorHandler(error)
   } catch (err) {
-    const parsedMessage = JSON.parse(err.message)
     t.equals(err.name, '500 Internal', 'error name defaults to status code and text')
-    t.equals(parsedMessage.request.url, 'requesturl', 'request url')
-    t.equals(parsedMessage.requestId, 'requestid', 'request id')
+    t.equals(err.request.url, 'requesturl', 'request url')
+    t.equals(err.requestId, 'requestid', 'request id')
   }
   t.end()
 })
@@ -63,9 +72,9 @@ test('Throws error without additional detail', (t) => {
   try {
     errorHandler(error)
   } catch (err) {
-    const parsedMessage = JSON.parse(err.message)
     t.equals(err.name, '500 Everything is on fire', 'error name defaults to status code and text')
-    t.equals(parsedMessage.request.url, 'requesturl', 'request url')
+    t.equals(err.message, '500 Everything is on fire', 'message defaults to status code and text')
+    t.equals(err.request.url, 'requesturl', 'request url')
   }
   t.end()
 })
@@ -79,12 +88,7 @@ test('Obscures management token in any error message', (t) => {
   try {
     errorHandler(responseError)
   } catch (err) {
-    const parsedMessage = JSON.parse(err.message)
-    t.equals(
-      parsedMessage.request.headers.Authorization,
-      'Bearer ...token',
-      'Obscures management token'
-    )
+    t.equals(err.request.headers.Authorization, 'Bearer ...token', 'Obscures management token')
   }
 
   const requestError = {
@@ -110,3 +114,36 @@ test('Obscures management token in any error message', (t) => {
   }
   t.end()
 })
+
+test('Throws errors of the class matching the response', (t) => {
+  const cases = [
+    [403, 'AccessDenied', AccessDeniedError],
+    [404, 'NotFound', NotFoundError],
+    [409, 'VersionMismatch', VersionMismatchError],
+    [422, 'InvalidEntry', UnprocessableEntityError],
+    [422, 'ValidationFailed', ValidationFailedError],
+    [429, 'RateLimitExceeded', RateLimitExceededError],
+    [500, 'ServerError', ServerError],
+    [503, 'ServiceUnavailable', ServerError],
+    [400, 'BadRequest', ContentfulApiError],
+  ]
+  cases.forEach(([status, id, ErrorClass]) => {
+    const error = cloneMock('error')
+    error.response.status = status
+    error.response.data = { sys: { id, type: 'Error' }, requestId: 'requestid' }
+    try {
+      errorHandler(error)
+    } catch (err) {
+      t.ok(err instanceof ErrorClass, `${id} is a ${ErrorClass.name}`)
+      t.ok(err instanceof ContentfulApiError, `${id} is a ContentfulApiError`)
+      t.ok(err instanceof Error, `${id} is an Error`)
+      t.equals(err.name, id, `${id} keeps the error id as name`)
+      t.equals(err.status, status, `${id} has the status`)
+    }
+  })
+  t.ok(
+    new ValidationFailedError('ValidationFailed', {}) instanceof UnprocessableEntityError,
+    'validation errors are unprocessable entity errors'
+  )
+  t.end()
+})
@@ -0,0 +1,189 @@
+import test from 'blue-tape'
+import { applyPatch, createPatch } from '../../lib/json-patch'
+import { createClient } from '../../lib/contentful-management'
+import { startFakeServer } from '../../lib/testing'
+import { wrapEntry } from '../../lib/entities/entry'
+import { wrapAsset } from '../../lib/entities/asset'
+import { cloneMock } from './mocks/entities'
+import setupHttpMock from './mocks/http'
+
+const original = {
+  sys: { id: 'entry-id', version: 3 },
+  fields: {
+    title: { 'en-US': 'Hello', 'de-DE': 'Hallo' },
+    'a/b~c': { 'en-US': 1 },
+    tags: { 'en-US': ['a', 'b'] },
+    list: { 'en-US': [1, 2, 3] },
+  },
+}
+
+test('createPatch computes the operations for changed values', (t) => {
+  const modified = {
+    sys: { id: 'entry-id', version: 4 },
+    fields: {
+      title: { 'en-US': 'Hello world' },
+      'a/b~c': { 'en-US': 1 },
+      tags: { 'en-US': ['a', 'c'] },
+      list: { 'en-US': [1, 2] },
+      summary: { 'en-US': 'New' },
+    },
+  }
+  t.deepEqual(createPatch(original, modified), [
+    { op: 'replace', path: '/fields/title/en-US', value: 'Hello world' },
+    { op: 'remove', path: '/fields/title/de-DE' },
+    { op: 'replace', path: '/fields/tags/en-US/1', value: 'c' },
+    { op: 'replace', path: '/fields/list/en-US', value: [1, 2] },
+    { op: 'add', path: '/fields/summary', value: { 'en-US': 'New' } },
+  ])
+  t.deepEqual(createPatch(original, original), [], 'is empty without changes')
+  t.end()
+})
+
+test('createPatch escapes paths', (t) => {
+  const modified = { ...original, fields: { ...original.fields, 'a/b~c': { 'en-US': 2 } } }
+  t.deepEqual(createPatch(original, modified), [
+    { op: 'replace', path: '/fields/a~1b~0c/en-US', value: 2 },
+  ])
+  t.end()
+})
+
+test('applyPatch applies the operations to a copy', (t) => {
+  const patched = applyPatch(original, [
+    { op: 'add', path: '/fields/tags/en-US/-', value: 'c' },
+    { op: 'add', path: '/fields/tags/en-US/0', value: 'z' },
+    { op: 'remove', path: '/fields/title/de-DE' },
+    { op: 'replace', path: '/fields/a~1b~0c/en-US', value: 2 },
+    { op: 'copy', from: '/fields/title', path: '/fields/subtitle' },
+    { op: 'move', from: '/fields/list', path: '/fields/numbers' },
+    { op: 'test', path: '/fields/numbers/en-US/2', value: 3 },
+  ])
+  t.deepEqual(patched.fields, {
+    title: { 'en-US': 'Hello' },
+    subtitle: { 'en-US': 'Hello' },
+    'a/b~c': { 'en-US': 2 },
+    tags: { 'en-US': ['z', 'a', 'b', 'c'] },
+    numbers: { 'en-US': [1, 2, 3] },
+  })
+  t.equals(original.fields.title['de-DE'], 'Hallo', 'keeps the document')
+  t.end()
+})
+
+test('applyPatch rejects invalid operations', (t) => {
+  const invalid = [
+    [{ op: 'test', path: '/fields/title/en-US', value: 'Bye' }, 'failing tests'],
+    [{ op: 'remove', path: '/fields/missing' }, 'missing values'],
+    [{ op: 'add', path: '/fields/missing/en-US', value: 1 }, 'missing parents'],
+    [{ op: 'replace', path: '/fields/list/en-US/3', value: 1 }, 'indexes out of bounds'],
+  ]
+  invalid.forEach(([operation, description]) => {
+    t.throws(
+      () => applyPatch(original, [operation]),
+      /InvalidJsonPatch|does not exist|failed|out of bounds/,
+      description
+    )
+  })
+  t.end()
+})
+
+function withEnvironment(fn) {
+  return startFakeServer({ spaces: [{ id: 'space-id', name: 'Space' }] }).then((server) => {
+    const client = createClient({ accessToken: 'token', host: server.host, insecure: true })
+    return client
+      .getSpace('space-id')
+      .then((space) => space.getEnvironment('master'))
+      .then((environment) =>
+        environment
+          .createContentTypeWithId('post', {
+            name: 'Post',
+            fields: [
+              { id: 'title', name: 'Title', type: 'Symbol' },
+              { id: 'body', name: 'Body', type: 'Text' },
+            ],
+          })
+          .then((contentType) => contentType.publish())
+          .then(() => fn(environment))
+      )
+      .then(
+        () => server.close(),
+        (error) => server.close().then(() => Promise.reject(error))
+      )
+  })
+}
+
+test('Entry update with patch sends the changed values', (t) => {
+  return withEnvironment((environment) =>
+    environment
+      .createEntry('post', { fields: { title: { 'en-US': 'Hello' }, body: { 'en-US': 'Text' } } })
+      .then((entry) =>
+        environment
+          .patchEntry(
+            entry.sys.id,
+            [{ op: 'replace', path: '/fields/body/en-US', value: 'Changed text' }],
+            entry.sys.version
+          )
+          .then((patched) => {
+            t.equals(patched.fields.body['en-US'], 'Changed text', 'patches the entry by id')
+            entry.fields.title['en-US'] = 'Hello world'
+            return entry.update({ patch: true }).then(
+              () => t.fail('should not update an outdated version'),
+              (error) => {
+                t.equals(error.name, 'VersionMismatch', 'sends the version')
+                return entry.update({ patch: true, onConflict: 'retry' })
+              }
+            )
+          })
+      )
+      .then((entry) => {
+        t.equals(entry.fields.title['en-US'], 'Hello world', 'sends the changed value')
+        t.equals(entry.fields.body['en-US'], 'Changed text', 'keeps the changes on the server')
+        return entry.patch([{ op: 'remove', path: '/fields/body' }])
+      })
+      .then((entry) => {
+        t.notOk(entry.fields.body, 'applies the operations of patch')
+        t.equals(entry.sys.version, 4, 'increments the version')
+        return entry.patch([{ op: 'remove', path: '/fields/body' }])
+      })
+      .then(
+        () => t.fail('should not apply invalid operations'),
+        (error) => t.equals(error.status, 422, 'rejects invalid operations')
+      )
+  )
+})
+
+test('Asset update with patch sends the changed values', (t) => {
+  return withEnvironment((environment) =>
+    environment
+      .createAsset({ fields: { title: { 'en-US': 'Car' } } })
+      .then((asset) => {
+        asset.fields.description = { 'en-US': 'A toy car' }
+        return asset.update({ patch: true })
+      })
+      .then((asset) => {
+        t.equals(asset.fields.description['en-US'], 'A toy car', 'adds the value')
+        return environment.patchAsset(
+          asset.sys.id,
+          [{ op: 'replace', path: '/fields/title/en-US', value: 'Toy car' }],
+          asset.sys.version
+        )
+      })
+      .then((asset) => {
+        t.equals(asset.fields.title['en-US'], 'Toy car', 'patches the asset by id')
+      })
+  )
+})
+
+test('Update with patch sends no request without changes', (t) => {
+  const httpMock = setupHttpMock()
+  const entry = wrapEntry(httpMock, cloneMock('entry'))
+  const asset = wrapAsset(httpMock, cloneMock('asset'))
+  return Promise.all([
+    entry.update({ patch: true }),
+    entry.update({ patch: true, onConflict: 'retry' }),
+    asset.update({ patch: true }),
+  ]).then(([updatedEntry, retriedEntry, updatedAsset]) => {
+    t.notOk(httpMock.patch.called, 'sends no patch')
+    t.equals(updatedEntry, entry, 'resolves with the entry')
+    t.equals(retriedEntry, entry, 'resolves with the entry on conflict resolution')
+    t.equals(updatedAsset, asset, 'resolves with the asset')
+  })
+})
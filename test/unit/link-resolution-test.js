@@ -0,0 +1,101 @@
+import test from 'blue-tape'
+import createEnvironmentApi from '../../lib/create-environment-api'
+import { resolveEntryCollection } from '../../lib/link-resolution'
+import setupHttpMock from './mocks/http'
+
+function link(linkType, id) {
+  return { sys: { type: 'Link', linkType, id } }
+}
+
+function entry(id, fields) {
+  return { sys: { type: 'Entry', id, version: 1 }, fields }
+}
+
+const data = {
+  sys: { type: 'Array' },
+  total: 2,
+  skip: 0,
+  limit: 100,
+  items: [
+    entry('post', {
+      title: { 'en-US': 'Hello' },
+      author: { 'en-US': link('Entry', 'author') },
+      related: { 'en-US': [link('Entry', 'other-post'), link('Entry', 'missing')] },
+      body: {
+        'en-US': {
+          nodeType: 'document',
+          content: [{ nodeType: 'embedded-asset-block', data: { target: link('Asset', 'image') } }],
+        },
+      },
+    }),
+    entry('other-post', { related: { 'en-US': [link('Entry', 'post')] } }),
+  ],
+  includes: {
+    Entry: [
+      entry('author', { name: { 'en-US': 'Jane' }, posts: { 'en-US': [link('Entry', 'post')] } }),
+    ],
+    Asset: [
+      { sys: { type: 'Asset', id: 'image', version: 1 }, fields: { title: { 'en-US': 'Image' } } },
+    ],
+  },
+}
+
+test('resolveEntryCollection replaces links with the linked entities', (t) => {
+  const collection = resolveEntryCollection(setupHttpMock(), data)
+  const [post, otherPost] = collection.items
+  const author = post.fields.author['en-US']
+  t.equals(author.fields.name['en-US'], 'Jane', 'resolves included entries')
+  t.equals(typeof author.update, 'function', 'wraps the included entries')
+  t.equals(post.fields.related['en-US'][0], otherPost, 'resolves links to items in arrays')
+  t.equals(author.fields.posts['en-US'][0], post, 'shares the instances of cyclic links')
+  t.equals(
+    post.fields.body['en-US'].content[0].data.target.fields.title['en-US'],
+    'Image',
+    'resolves assets in rich text'
+  )
+  t.equals(collection.includes.Entry[0], author, 'keeps the includes')
+  t.deepEqual(
+    collection.unresolvedLinks,
+    [
+      {
+        source: link('Entry', 'post'),
+        path: ['fields', 'related', 'en-US', 1],
+        link: link('Entry', 'missing'),
+      },
+    ],
+    'reports the links which are not part of the response'
+  )
+  t.deepEqual(post.fields.related['en-US'][1], link('Entry', 'missing'), 'leaves them in place')
+  t.end()
+})
+
+test('resolveEntryCollection turns the linked entities back into links', (t) => {
+  const httpMock = setupHttpMock(Promise.resolve({ data: data.items[0] }))
+  const collection = resolveEntryCollection(httpMock, data)
+  const [post] = collection.items
+  t.deepEqual(post.toPlainObject(), data.items[0], 'serializes entries with links')
+  t.deepEqual(
+    collection.toPlainObject(),
+    { ...data, unresolvedLinks: collection.unresolvedLinks },
+    'serializes the collection with links'
+  )
+  post.fields.title['en-US'] = 'Changed'
+  return post.update().then(() => {
+    const sent = httpMock.put.args[0][1]
+    t.equals(sent.fields.title['en-US'], 'Changed', 'sends the changes')
+    t.deepEqual(sent.fields.author, { 'en-US': link('Entry', 'author') }, 'sends links')
+  })
+})
+
+test('API call getEntries resolves links with resolveLinks', (t) => {
+  const httpMock = setupHttpMock(Promise.resolve({ data }))
+  const api = createEnvironmentApi({ http: httpMock })
+  return Promise.all([
+    api.getEntries({ include: 2 }, { resolveLinks: true }),
+    api.getEntries({ include: 2 }),
+  ]).then(([resolved, unresolved]) => {
+    t.equals(resolved.items[0].fields.author['en-US'].sys.type, 'Entry', 'resolves the links')
+    t.deepEqual(unresolved.items[0].fields.author['en-US'], link('Entry', 'author'), 'is opt-in')
+    t.equals(httpMock.get.args[0][1].params.include, 2, 'sends the include parameter')
+  })
+})
@@ -0,0 +1,179 @@
+import test from 'blue-tape'
+import { getFallbackChain } from '../../lib/localization'
+import { createClient } from '../../lib/contentful-management'
+import { startFakeServer } from '../../lib/testing'
+
+const locales = [
+  { code: 'en-US', default: true, fallbackCode: null },
+  { code: 'de-DE', default: false, fallbackCode: 'en-US' },
+  { code: 'de-CH', default: false, fallbackCode: 'de-DE' },
+  { code: 'fr-FR', default: false, fallbackCode: null },
+]
+
+test('getFallbackChain follows the fallback codes', (t) => {
+  t.deepEqual(getFallbackChain(locales, 'de-CH'), ['de-CH', 'de-DE', 'en-US'], 'walks the chain')
+  t.deepEqual(getFallbackChain(locales, 'fr-FR'), ['fr-FR'], 'stops without fallback')
+  t.deepEqual(
+    getFallbackChain(
+      [
+        { code: 'a', fallbackCode: 'b' },
+        { code: 'b', fallbackCode: 'a' },
+      ],
+      'a'
+    ),
+    ['a', 'b'],
+    'stops at cycles'
+  )
+  t.throws(() => getFallbackChain(locales, 'xx'), /locale xx does not exist/, 'rejects unknown')
+  t.end()
+})
+
+function withEntry(fn) {
+  return startFakeServer({ spaces: [{ id: 'space-id', name: 'Space' }] }).then((server) => {
+    const client = createClient({ accessToken: 'token', host: server.host, insecure: true })
+    return client
+      .getSpace('space-id')
+      .then((space) => space.getEnvironment('master'))
+      .then((environment) =>
+        Promise.all(
+          locales
+            .filter((locale) => !locale.default)
+            .map((locale) =>
+              environment.createLocale({
+                name: locale.code,
+                code: locale.code,
+                fallbackCode: locale.fallbackCode,
+              })
+            )
+        )
+          .then(() =>
+            environment.createContentTypeWithId('post', {
+              name: 'Post',
+              fields: [
+                { id: 'title', name: 'Title', type: 'Symbol', localized: true },
+                { id: 'rating', name: 'Rating', type: 'Integer', localized: false },
+              ],
+            })
+          )
+          .then((contentType) => contentType.publish())
+          .then(() =>
+            environment.createEntry('post', {
+              fields: {
+                title: { 'en-US': 'Hello', 'de-DE': 'Hallo' },
+                rating: { 'en-US': 5 },
+              },
+            })
+          )
+          .then((entry) => fn(entry, environment))
+      )
+      .then(
+        () => server.close(),
+        (error) => server.close().then(() => Promise.reject(error))
+      )
+  })
+}
+
+test('Entry getFieldValue follows fallbacks and reads fields which are not localized', (t) => {
+  return withEntry((entry) =>
+    Promise.all([
+      entry.getFieldValue('title', 'de-CH'),
+      entry.getFieldValue('title', 'de-CH', { fallback: true }),
+      entry.getFieldValue('title', 'fr-FR', { fallback: true }),
+      entry.getFieldValue('rating', 'de-DE'),
+    ]).then(([withoutFallback, withFallback, withoutChain, notLocalized]) => {
+      t.equals(withoutFallback, undefined, 'reads the locale without fallback')
+      t.equals(withFallback, 'Hallo', 'reads the first locale of the chain with a value')
+      t.equals(withoutChain, undefined, 'stops at locales without fallback')
+      t.equals(notLocalized, 5, 'reads the default locale for fields which are not localized')
+      return entry.getFieldValue('title', 'xx').then(
+        () => t.fail('should not read unknown locales'),
+        (error) => t.equals(error.name, 'UnknownLocale', 'rejects unknown locales')
+      )
+    })
+  )
+})
+
+test('Entry getFieldValue does not abort the requests other calls wait for', (t) => {
+  return withEntry((entry) => {
+    const controller = new AbortController()
+    const aborted = entry.getFieldValue('title', 'de-DE', { signal: controller.signal })
+    const other = entry.getFieldValue('title', 'de-DE')
+    controller.abort()
+    return Promise.all([
+      aborted.then(
+        () => t.fail('should not succeed'),
+        (error) => t.equals(error.name, 'AbortError', 'rejects the aborted call')
+      ),
+      other.then((value) => t.equals(value, 'Hallo', 'resolves the other call')),
+    ])
+  })
+})
+
+test('Entry setFieldValue refuses or redirects fields which are not localized', (t) => {
+  return withEntry((entry) =>
+    entry
+      .setFieldValue('title', 'fr-FR', 'Bonjour')
+      .then((result) => {
+        t.equals(result, entry, 'resolves with the entry')
+        t.equals(entry.fields.title['fr-FR'], 'Bonjour', 'sets the value')
+        return entry.setFieldValue('rating', 'de-DE', 4)
+      })
+      .then(
+        () => t.fail('should not set other locales of fields which are not localized'),
+        (error) => {
+          t.equals(error.name, 'FieldNotLocalized', 'refuses the write')
+          t.equals(entry.fields.rating['de-DE'], undefined, 'does not set the value')
+          return entry.setFieldValue('rating', 'de-DE', 4, { redirect: true })
+        }
+      )
+      .then(() => {
+        t.deepEqual(entry.fields.rating, { 'en-US': 4 }, 'redirects to the default locale')
+        return entry.setFieldValue('missing', 'en-US', 1)
+      })
+      .then(
+        () => t.fail('should not set unknown fields'),
+        (error) => t.equals(error.name, 'UnknownField', 'rejects unknown fields')
+      )
+  )
+})
+
+test('Entry getLocalizedView returns the values of a locale', (t) => {
+  return withEntry((entry, environment) =>
+    entry
+      .getLocalizedView('de-CH')
+      .then((view) => {
+        t.deepEqual(view, { title: 'Hallo', rating: 5 }, 'follows the fallbacks')
+        return entry.getLocalizedView('de-CH', { fallback: false })
+      })
+      .then((view) => {
+        t.deepEqual(view, { rating: 5 }, 'leaves out missing values without fallback')
+        return environment
+          .getLocales()
+          .then((collection) => collection.items.find((locale) => locale.code === 'de-CH'))
+      })
+      .then((locale) => {
+        locale.fallbackCode = null
+        return locale.update()
+      })
+      .then(() => entry.getLocalizedView('de-CH'))
+      .then((view) => {
+        t.deepEqual(view, { rating: 5 }, 'refreshes the cached locales after updates')
+      })
+  )
+})
+
+test('Entry field accessors use the changed fields of the content type', (t) => {
+  return withEntry((entry, environment) =>
+    entry
+      .getFieldValue('title', 'en-US')
+      .then(() => environment.getContentType('post'))
+      .then((contentType) => {
+        contentType.fields.push({ id: 'summary', name: 'Summary', type: 'Text', localized: true })
+        return contentType.update()
+      })
+      .then(() => entry.setFieldValue('summary', 'de-DE', 'Zusammenfassung'))
+      .then(() => {
+        t.equals(entry.fields.summary['de-DE'], 'Zusammenfassung', 'knows the new field')
+      })
+  )
+})
@@ -0,0 +1,123 @@
+import test from 'blue-tape'
+import sinon from 'sinon'
+import { composeMiddleware } from '../../lib/middleware'
+import { createCMAHttpClient } from '../../lib/create-cma-http-client'
+
+function createResponse(config, data = {}) {
+  return { data, status: 200, statusText: 'OK', headers: {}, config }
+}
+
+test('Middleware runs in order around the adapter', (t) => {
+  const calls = []
+  const adapter = sinon.spy((config) => {
+    calls.push('adapter')
+    return Promise.resolve(createResponse(config))
+  })
+  const composed = composeMiddleware(
+    [
+      (config, next) => {
+        calls.push('first before')
+        return next().then((response) => {
+          calls.push('first after')
+          return response
+        })
+      },
+      (config, next) => {
+        calls.push('second before')
+        return next({ ...config, headers: { ...config.headers, 'X-Custom': 'value' } }).then(
+          (response) => {
+            calls.push('second after')
+            return response
+          }
+        )
+      },
+    ],
+    adapter
+  )
+
+  return composed({ url: 'entries', headers: {} }).then(() => {
+    t.looseEqual(
+      calls,
+      ['first before', 'second before', 'adapter', 'second after', 'first after'],
+      'calls middleware in order'
+    )
+    t.equals(adapter.args[0][0].headers['X-Custom'], 'value', 'passes the changed config on')
+  })
+})
+
+test('Middleware can short-circuit requests', (t) => {
+  const adapter = sinon.stub()
+  const cached = { data: { cached: true }, status: 200, headers: {} }
+  const composed = composeMiddleware([() => Promise.resolve(cached)], adapter)
+
+  return composed({ url: 'entries' }).then((response) => {
+    t.equals(response, cached, 'resolves with the middleware response')
+    t.notOk(adapter.called, 'does not call the adapter')
+  })
+})
+
+test('Middleware can transform errors', (t) => {
+  const adapter = () => Promise.reject(new Error('network'))
+  const composed = composeMiddleware(
+    [
+      (config, next) =>
+        next().catch((error) => {
+          throw new Error(`transformed ${error.message}`)
+        }),
+    ],
+    adapter
+  )
+
+  return composed({ url: 'entries' }).then(
+    () => t.fail('should not succeed'),
+    (error) => t.equals(error.message, 'transformed network', 'rejects with the new error')
+  )
+})
+
+test('Middleware errors thrown synchronously reject the request', (t) => {
+  const composed = composeMiddleware(
+    [
+      () => {
+        throw new Error('sync')
+      },
+    ],
+    sinon.stub()
+  )
+
+  return composed({ url: 'entries' }).then(
+    () => t.fail('should not succeed'),
+    (error) => t.equals(error.message, 'sync', 'rejects with the thrown error')
+  )
+})
+
+test('Scoped clients use the middleware pipeline', (t) => {
+  const seenUrls = []
+  const http = createCMAHttpClient({
+    accessToken: 'token',
+    retryOnError: false,
+    adapter: (config) => Promise.resolve(createResponse(config)),
+    middleware: [
+      (config, next) => {
+        seenUrls.push(config.baseURL + config.url)
+        return next()
+      },
+    ],
+  })
+  const spaceScopedHttp = http.cloneWithNewParams({ space: 'spaceid' })
+  const organizationScopedHttp = http.cloneWithNewParams({
+    baseURL: http.defaults.baseURL.replace('/spaces/', '/organizations/') + 'orgid/',
+  })
+
+  return Promise.all([spaceScopedHttp.get('entries'), organizationScopedHttp.get('teams')]).then(
+    () => {
+      t.looseEqual(
+        seenUrls,
+        [
+          'https://api.contentful.com:443/spaces/spaceid/entries',
+          'https://api.contentful.com:443/organizations/orgid/teams',
+        ],
+        'runs the middleware for every scoped client'
+      )
+    }
+  )
+})
@@ -0,0 +1,195 @@
+import test from 'blue-tape'
+import sinon from 'sinon'
+import { getCursor, paginate, paginateCursor } from '../../lib/paginate'
+import { createClient } from '../../lib/contentful-management'
+import { startFakeServer } from '../../lib/testing'
+
+function createFetchPage(total, { delay = 0, inFlight = { current: 0, max: 0 } } = {}) {
+  return sinon.spy(({ skip, limit }) => {
+    inFlight.current++
+    inFlight.max = Math.max(inFlight.max, inFlight.current)
+    const items = []
+    for (let i = skip; i < Math.min(skip + limit, total); i++) {
+      items.push(i)
+    }
+    return new Promise((resolve) => setTimeout(resolve, delay)).then(() => {
+      inFlight.current--
+      return { items, total }
+    })
+  })
+}
+
+test('paginate collects the items of all pages', (t) => {
+  const fetchPage = createFetchPage(250)
+  return paginate(fetchPage, { content_type: 'post' }, { pageSize: 100 })
+    .collectAll()
+    .then((items) => {
+      t.equals(items.length, 250, 'collects all items')
+      t.deepEqual(items.slice(98, 102), [98, 99, 100, 101], 'keeps the order')
+      t.deepEqual(
+        fetchPage.args.map(([query]) => query),
+        [
+          { content_type: 'post', skip: 0, limit: 100 },
+          { content_type: 'post', skip: 100, limit: 100 },
+          { content_type: 'post', skip: 200, limit: 100 },
+        ],
+        'requests the pages until the total'
+      )
+    })
+})
+
+test('paginate starts at the skip and uses the limit of the query as page size', (t) => {
+  const fetchPage = createFetchPage(25)
+  return paginate(fetchPage, { skip: 5, limit: 10 })
+    .collectAll()
+    .then((items) => {
+      t.equals(items[0], 5, 'starts at the skip')
+      t.equals(items.length, 20, 'collects the remaining items')
+      t.equals(fetchPage.callCount, 2, 'requests pages of the limit')
+    })
+})
+
+test('paginate requests pages concurrently', (t) => {
+  const inFlight = { current: 0, max: 0 }
+  const fetchPage = createFetchPage(1000, { delay: 5, inFlight })
+  return paginate(fetchPage, {}, { pageSize: 100, concurrency: 3 })
+    .collectAll()
+    .then((items) => {
+      t.equals(items.length, 1000, 'collects all items')
+      t.equals(inFlight.max, 3, 'requests up to the concurrency at the same time')
+      t.equals(fetchPage.callCount, 10, 'requests every page once')
+    })
+})
+
+test('paginate is an async iterable which can be stopped early', (t) => {
+  const fetchPage = createFetchPage(1000)
+  const iterator = paginate(fetchPage, {}, { pageSize: 10 })[Symbol.asyncIterator]()
+  return iterator
+    .next()
+    .then((result) => {
+      t.deepEqual(result, { value: 0, done: false }, 'yields the first item')
+      return iterator.return()
+    })
+    .then(() => iterator.next())
+    .then((result) => {
+      t.ok(result.done, 'stops after return')
+      t.ok(fetchPage.callCount <= 2, 'requests no further pages')
+    })
+})
+
+test('paginate rejects with errors of pages', (t) => {
+  const fetchPage = sinon.stub()
+  fetchPage.onFirstCall().resolves({ items: [1], total: 3 })
+  fetchPage.rejects(new Error('page failed'))
+  return paginate(fetchPage, {}, { pageSize: 1, concurrency: 2 })
+    .collectAll()
+    .then(
+      () => t.fail('should not succeed'),
+      (error) => t.equals(error.message, 'page failed', 'rejects with the error')
+    )
+})
+
+function createFetchCursorPage(pages) {
+  return sinon.spy(({ next }) => {
+    const index = next ? Number(next.replace('cursor-', '')) : 0
+    const nextIndex = index + 1
+    return Promise.resolve({
+      items: pages[index],
+      pages:
+        nextIndex < pages.length ? { next: `/scheduled_actions?next=cursor-${nextIndex}` } : {},
+    })
+  })
+}
+
+test('paginateCursor follows the next cursors until the last page', (t) => {
+  const fetchPage = createFetchCursorPage([[1, 2], [3, 4], [5]])
+  const collection = paginateCursor(fetchPage, { 'environment.sys.id': 'master' }, { pageSize: 2 })
+  return collection.collectAll().then((items) => {
+    t.deepEqual(items, [1, 2, 3, 4, 5], 'collects the items of all pages in order')
+    t.deepEqual(
+      fetchPage.args.map(([query]) => query),
+      [
+        { 'environment.sys.id': 'master', limit: 2 },
+        { 'environment.sys.id': 'master', limit: 2, next: 'cursor-1' },
+        { 'environment.sys.id': 'master', limit: 2, next: 'cursor-2' },
+      ],
+      'requests the next pages with the cursor of the previous page'
+    )
+    t.equals(collection.getNextCursor(), undefined, 'has no cursor after the last page')
+  })
+})
+
+test('paginateCursor resumes from a stored cursor', (t) => {
+  const fetchPage = createFetchCursorPage([[1, 2], [3, 4], [5]])
+  const collection = paginateCursor(fetchPage, { prev: 'cursor-0' }, { pageSize: 2 })
+  const iterator = collection[Symbol.asyncIterator]()
+  return iterator
+    .next()
+    .then(() => iterator.next())
+    .then(() => iterator.return())
+    .then(() => {
+      const cursor = collection.getNextCursor()
+      t.equals(cursor, 'cursor-1', 'returns the cursor of the next page')
+      return paginateCursor(fetchPage, { next: cursor }).collectAll()
+    })
+    .then((items) => {
+      t.deepEqual(items, [3, 4, 5], 'continues with the page of the cursor')
+      t.notOk('prev' in fetchPage.args[0][0], 'does not send the prev cursor')
+    })
+})
+
+test('paginateCursor stops at an empty page', (t) => {
+  const fetchPage = sinon.stub().resolves({ items: [], pages: { next: 'cursor-1' } })
+  return paginateCursor(fetchPage, {})
+    .collectAll()
+    .then((items) => {
+      t.deepEqual(items, [], 'collects no items')
+      t.equals(fetchPage.callCount, 1, 'requests no further pages')
+    })
+})
+
+test('getCursor reads the cursor of pages links', (t) => {
+  t.equals(getCursor('/spaces/id/scheduled_actions?limit=2&next=abc%3D'), 'abc=', 'from a path')
+  t.equals(getCursor('abc'), 'abc', 'from a plain cursor')
+  t.equals(getCursor('?prev=a&next=b', 'prev'), 'a', 'of the previous page')
+  t.equals(getCursor(undefined), undefined, 'without a link')
+  t.end()
+})
+
+test('Environment getEntriesAll iterates over all entries', (t) => {
+  return startFakeServer({ spaces: [{ id: 'space-id', name: 'Space' }] }).then((server) => {
+    const client = createClient({ accessToken: 'token', host: server.host, insecure: true })
+    return client
+      .getSpace('space-id')
+      .then((space) => space.getEnvironment('master'))
+      .then((environment) =>
+        environment
+          .createContentTypeWithId('post', {
+            name: 'Post',
+            fields: [{ id: 'title', name: 'Title', type: 'Symbol' }],
+          })
+          .then((contentType) => contentType.publish())
+          .then(() =>
+            Promise.all(
+              [1, 2, 3, 4, 5].map((i) =>
+                environment.createEntry('post', { fields: { title: { 'en-US': `Post ${i}` } } })
+              )
+            )
+          )
+          .then(() => {
+            // works without the environment as this
+            const { getEntriesAll } = environment
+            return getEntriesAll({ select: 'fields.title' }, { pageSize: 2 }).collectAll()
+          })
+      )
+      .then((entries) => {
+        t.equals(entries.length, 5, 'gets the entries of all pages')
+        t.ok(entries[0].sys.id, 'keeps sys in the selection')
+        t.ok(entries[0].update, 'wraps the entries')
+      })
+      .then(
+        () => server.close(),
+        (error) => server.close().then(() => Promise.reject(error))
+      )
+  })
+})
@@ -0,0 +1,77 @@
+import test from 'blue-tape'
+import { createQuery } from '../../lib/query-builder'
+
+test('createQuery compiles field filters', (t) => {
+  const query = createQuery()
+    .contentType('blogPost')
+    .where('title', 'match', 'hello')
+    .where('slug', 'eq', 'hello-world')
+    .where('rating', 'gte', 3)
+    .where('category', 'nin', ['news', 'events'])
+    .where('summary', 'exists', false)
+    .where('location', 'within', [52.5, 13.3, 10])
+    .where('publishDate', 'lt', new Date('2020-01-01T00:00:00Z'))
+    .build()
+  t.deepEqual(query, {
+    content_type: 'blogPost',
+    'fields.title[match]': 'hello',
+    'fields.slug': 'hello-world',
+    'fields.rating[gte]': 3,
+    'fields.category[nin]': 'news,events',
+    'fields.summary[exists]': false,
+    'fields.location[within]': '52.5,13.3,10',
+    'fields.publishDate[lt]': '2020-01-01T00:00:00.000Z',
+  })
+  t.end()
+})
+
+test('createQuery compiles link, sys and tag filters', (t) => {
+  const query = createQuery()
+    .whereLink('author', 'in', ['author-1', 'author-2'])
+    .whereLink('image', 'exists', true)
+    .whereSys('id', 'ne', 'entry-id')
+    .whereSys('version', 'lte', 5)
+    .whereSysLink('createdBy', 'eq', 'user-id')
+    .whereTags('all', ['featured', 'reviewed'])
+    .linksToEntry('entry-id')
+    .build()
+  t.deepEqual(query, {
+    'fields.author.sys.id[in]': 'author-1,author-2',
+    'fields.image[exists]': true,
+    'sys.id[ne]': 'entry-id',
+    'sys.version[lte]': 5,
+    'sys.createdBy.sys.id': 'user-id',
+    'metadata.tags.sys.id[all]': 'featured,reviewed',
+    links_to_entry: 'entry-id',
+  })
+  t.end()
+})
+
+test('createQuery compiles order, select and paging', (t) => {
+  const query = createQuery()
+    .orderBy('rating', 'desc')
+    .orderBySys('createdAt')
+    .select(['title', 'rating'], true)
+    .skip(10)
+    .limit(5)
+    .build()
+  t.deepEqual(query, {
+    order: '-fields.rating,sys.createdAt',
+    select: 'sys,metadata,fields.title,fields.rating',
+    skip: 10,
+    limit: 5,
+  })
+  t.end()
+})
+
+test('createQuery builders can be reused', (t) => {
+  const base = createQuery().contentType('blogPost').orderBy('title')
+  const featured = base.whereTags('in', ['featured'])
+  t.deepEqual(base.build(), { content_type: 'blogPost', order: 'fields.title' }, 'keeps the base')
+  t.deepEqual(
+    featured.build(),
+    { content_type: 'blogPost', 'metadata.tags.sys.id[in]': 'featured', order: 'fields.title' },
+    'extends a copy'
+  )
+  t.end()
+})
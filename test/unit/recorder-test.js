@@ -0,0 +1,140 @@
+import test from 'blue-tape'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import sinon from 'sinon'
+import { createRecordingAdapter } from '../../lib/recorder'
+import { createCMAHttpClient } from '../../lib/create-cma-http-client'
+
+function createFixturesDir() {
+  return path.join(os.tmpdir(), `cma-recorder-${Date.now()}-${Math.ceil(Math.random() * 1e8)}`)
+}
+
+function createClient(recorder, adapter) {
+  return createCMAHttpClient({
+    accessToken: 'secret-token',
+    retryOnError: false,
+    dedupe: false,
+    recorder,
+    adapter,
+  })
+}
+
+function respond(config) {
+  if (config.url.indexOf('missing') !== -1) {
+    const error = new Error('Request failed with status code 404')
+    error.config = config
+    error.response = {
+      status: 404,
+      statusText: 'Not Found',
+      headers: {},
+      data: JSON.stringify({ sys: { type: 'Error', id: 'NotFound' } }),
+      config,
+    }
+    return Promise.reject(error)
+  }
+  return Promise.resolve({
+    status: 200,
+    statusText: 'OK',
+    headers: {
+      'content-type': 'application/json',
+      date: 'Mon, 19 Oct 2026 10:00:00 GMT',
+      'x-contentful-request-id': 'request-id',
+      'x-contentful-ratelimit-hour-remaining': '36000',
+    },
+    data: JSON.stringify({
+      sys: { id: 'apikey', type: 'ApiKey', createdAt: new Date().toISOString() },
+      accessToken: 'delivery-token',
+      name: 'secret-token',
+    }),
+    config,
+  })
+}
+
+function recordFixtures(fixturesDir) {
+  const http = createClient({ mode: 'record', fixturesDir, cassette: 'api-keys' }, respond)
+  return http
+    .get('spaceid/api_keys', { params: { limit: 10, skip: 0 } })
+    .then(() => http.post('spaceid/api_keys', { name: 'key', createdAt: new Date().toISOString() }))
+    .then(() => http.get('spaceid/missing').catch(() => {}))
+}
+
+test('Recorder writes normalized interactions to the cassette', (t) => {
+  const fixturesDir = createFixturesDir()
+  return recordFixtures(fixturesDir).then(() => {
+    const file = path.join(fixturesDir, 'api-keys.json')
+    const content = fs.readFileSync(file, 'utf8')
+    const interactions = JSON.parse(content)
+
+    t.equals(interactions.length, 3, 'records every response, including errors')
+    t.notOk(content.match(/secret-token|delivery-token/), 'strips the tokens')
+    t.looseEqual(
+      interactions[0].request,
+      { method: 'GET', path: '/spaces/spaceid/api_keys', query: { limit: '10', skip: '0' } },
+      'records the request without host and headers'
+    )
+    t.looseEqual(
+      interactions[0].response.headers,
+      { 'content-type': 'application/json' },
+      'removes volatile headers'
+    )
+    t.equals(
+      interactions[0].response.data.sys.createdAt,
+      '2000-01-01T00:00:00.000Z',
+      'replaces timestamps in sys'
+    )
+    t.looseEqual(
+      interactions[1].request.body,
+      { name: 'key', createdAt: '<TIMESTAMP>' },
+      'records the request body without timestamps'
+    )
+  })
+})
+
+test('Recorder replays interactions without sending requests', (t) => {
+  const fixturesDir = createFixturesDir()
+  return recordFixtures(fixturesDir).then(() => {
+    const transport = sinon.stub()
+    const http = createClient({ mode: 'replay', fixturesDir, cassette: 'api-keys' }, transport)
+
+    return http
+      .get('spaceid/api_keys', { params: { skip: 0, limit: 10 } })
+      .then((response) => {
+        t.equals(response.data.sys.id, 'apikey', 'resolves with the recorded data')
+        return http.post('spaceid/api_keys', { name: 'key', createdAt: '2030-01-01T00:00:00Z' })
+      })
+      .then(() => http.get('spaceid/missing'))
+      .then(
+        () => t.fail('should not succeed'),
+        (error) => {
+          t.equals(error.response.status, 404, 'rejects with recorded errors')
+          t.notOk(transport.called, 'does not send any request')
+          return http.get('spaceid/api_keys', { params: { limit: 1 } })
+        }
+      )
+      .then(
+        () => t.fail('should not succeed'),
+        (error) => {
+          t.equals(error.name, 'RecordedInteractionNotFound', 'rejects unknown requests')
+          t.ok(error.message.match(/GET \/spaces\/spaceid\/api_keys\?limit=1/), 'names the request')
+        }
+      )
+  })
+})
+
+test('Recorder passthrough mode does not record', (t) => {
+  const fixturesDir = createFixturesDir()
+  const http = createClient({ mode: 'passthrough', fixturesDir }, respond)
+  return http.get('spaceid/api_keys').then((response) => {
+    t.equals(response.status, 200, 'sends the request')
+    t.notOk(fs.existsSync(fixturesDir), 'does not write a cassette')
+  })
+})
+
+test('Recorder throws for unknown modes', (t) => {
+  t.throws(
+    () => createRecordingAdapter({ mode: 'rewind', fixturesDir: '.' }, sinon.stub()),
+    /Unknown recorder mode rewind/
+  )
+  t.end()
+})
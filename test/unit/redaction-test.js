@@ -0,0 +1,144 @@
+import test from 'blue-tape'
+import { createRedactor, parsePath } from '../../lib/redaction'
+import { createCMAHttpClient } from '../../lib/create-cma-http-client'
+import errorHandler from '../../lib/error-handler'
+
+const webhook = {
+  name: 'Webhook',
+  url: 'https://example.com',
+  httpBasicUsername: 'user',
+  httpBasicPassword: 'password',
+  headers: [
+    { key: 'X-Public', value: 'public' },
+    { key: 'X-Secret', value: 'secret', secret: true },
+  ],
+}
+
+function createClient(params, adapter) {
+  return createCMAHttpClient({
+    accessToken: 'secret-access-token',
+    retryOnError: false,
+    dedupe: false,
+    adapter,
+    ...params,
+  })
+}
+
+function respond(config, status = 200, data = {}) {
+  const response = { status, statusText: 'Status', headers: {}, data, config }
+  if (status >= 400) {
+    const error = new Error(`Request failed with status code ${status}`)
+    error.config = config
+    error.response = response
+    return Promise.reject(error)
+  }
+  return Promise.resolve(response)
+}
+
+test('parsePath understands JSONPath-like paths', (t) => {
+  t.deepEqual(parsePath('$.a.b'), [
+    { type: 'key', key: 'a' },
+    { type: 'key', key: 'b' },
+  ])
+  t.deepEqual(parsePath("$['a-b'][0].*"), [
+    { type: 'key', key: 'a-b' },
+    { type: 'key', key: '0' },
+    { type: 'wildcard' },
+  ])
+  t.deepEqual(parsePath('$..a[?(@.secret)]'), [
+    { type: 'descendants', key: 'a' },
+    { type: 'filter', property: 'secret' },
+  ])
+  t.throws(() => parsePath('$.a b'), /Invalid redaction path/)
+  t.end()
+})
+
+test('Redactor removes default secrets', (t) => {
+  const redactor = createRedactor()
+  const redacted = redactor.redactData(webhook)
+  t.equals(redacted.httpBasicPassword, '[REDACTED]', 'redacts the basic auth password')
+  t.equals(redacted.headers[0].value, 'public', 'keeps public header values')
+  t.equals(redacted.headers[1].value, '[REDACTED]', 'redacts secret header values')
+  t.equals(webhook.httpBasicPassword, 'password', 'does not change the original')
+  t.deepEqual(
+    JSON.parse(redactor.redactData(JSON.stringify({ items: [{ accessToken: 'key' }] }))),
+    { items: [{ accessToken: '[REDACTED]' }] },
+    'redacts JSON strings and collections'
+  )
+  t.equals(redactor.redactData({ token: 'pat' }).token, '[REDACTED]', 'redacts tokens')
+  t.end()
+})
+
+test('Redactor applies custom paths and headers', (t) => {
+  const redactor = createRedactor({
+    paths: ["$.fields.password['en-US']"],
+    headers: ['X-Api-Secret'],
+    defaultPaths: false,
+    replacement: '***',
+  })
+  const redacted = redactor.redactData({
+    fields: { password: { 'en-US': 'hunter2', de: 'hunter3' } },
+    token: 'kept',
+  })
+  t.equals(redacted.fields.password['en-US'], '***', 'redacts the custom path')
+  t.equals(redacted.fields.password.de, 'hunter3', 'keeps other values')
+  t.equals(redacted.token, 'kept', 'skips the default paths')
+  t.deepEqual(
+    redactor.redactHeaders({ 'x-api-secret': 'value', Authorization: 'Bearer 1234567890' }),
+    { 'x-api-secret': '***', Authorization: 'Bearer ...67890' },
+    'redacts headers'
+  )
+  t.end()
+})
+
+test('Error payloads are redacted with the rules of the client', (t) => {
+  const http = createClient({ redaction: { paths: ['$.url'] } }, (config) =>
+    respond(config, 422, { sys: { id: 'ValidationFailed', type: 'Error' }, message: 'Invalid' })
+  )
+  return http
+    .post('webhook_definitions', webhook)
+    .then(() => t.fail('should not succeed'), errorHandler)
+    .catch((error) => {
+      const payload = JSON.parse(error.request.payloadData)
+      t.equals(payload.httpBasicPassword, '[REDACTED]', 'redacts the default paths')
+      t.equals(payload.url, '[REDACTED]', 'redacts the custom paths')
+      t.equals(payload.httpBasicUsername, 'user', 'keeps other values')
+      t.equals(error.request.headers.Authorization, 'Bearer ...token', 'shortens the token')
+    })
+})
+
+test('Error payloads are redacted when the adapter copies the config', (t) => {
+  const controller = new AbortController()
+  // like the axios adapter, which copies the config when a signal is passed
+  const http = createClient({ redaction: { paths: ['$.name'] } }, (config) =>
+    respond({ ...config }, 422, { sys: { id: 'ValidationFailed', type: 'Error' } })
+  )
+  return http
+    .post('spaces', { name: 'secret-name' }, { signal: controller.signal })
+    .then(() => t.fail('should not succeed'), errorHandler)
+    .catch((error) => {
+      const payload = JSON.parse(error.request.payloadData)
+      t.equals(payload.name, '[REDACTED]', 'redacts the custom paths')
+    })
+})
+
+test('Loggers receive redacted requests, responses and messages', (t) => {
+  const requests = []
+  const responses = []
+  const messages = []
+  const http = createClient(
+    {
+      requestLogger: (config) => requests.push(config),
+      responseLogger: (response) => responses.push(response),
+      logHandler: (level, data) => messages.push(data),
+    },
+    (config) => respond(config, 200, { name: 'Key', accessToken: 'delivery-token' })
+  )
+  return http.post('api_keys', { name: 'Key' }).then((response) => {
+    t.equals(requests[0].headers.Authorization, 'Bearer ...token', 'shortens the token')
+    t.equals(responses[0].data.accessToken, '[REDACTED]', 'redacts the response')
+    t.equals(response.data.accessToken, 'delivery-token', 'returns the original response')
+    http.defaults.logHandler('warning', 'Retrying with secret-access-token')
+    t.equals(messages[0], 'Retrying with [REDACTED]', 'redacts the access token in messages')
+  })
+})
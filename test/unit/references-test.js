@@ -0,0 +1,131 @@
+import test from 'blue-tape'
+import { wrapEntry } from '../../lib/entities/entry'
+import { traverseReferences } from '../../lib/references'
+import setupHttpMock from './mocks/http'
+
+function link(linkType, id) {
+  return { sys: { type: 'Link', linkType, id } }
+}
+
+function entry(id, contentType, fields) {
+  return {
+    sys: { type: 'Entry', id, version: 1, contentType: link('ContentType', contentType) },
+    fields,
+  }
+}
+
+const page = entry('page', 'page', {
+  hero: { 'en-US': link('Asset', 'hero') },
+  sections: { 'en-US': [link('Entry', 'section'), link('Entry', 'deep')] },
+  body: {
+    'en-US': {
+      nodeType: 'document',
+      content: [
+        {
+          nodeType: 'paragraph',
+          content: [
+            {
+              nodeType: 'entry-hyperlink',
+              data: { target: link('Entry', 'other-page') },
+              content: [{ nodeType: 'text', value: 'Other page' }],
+            },
+          ],
+        },
+      ],
+    },
+  },
+})
+
+const references = {
+  sys: { type: 'Array' },
+  items: [page],
+  includes: {
+    Entry: [
+      entry('section', 'section', { page: { 'en-US': link('Entry', 'page') } }),
+      entry('other-page', 'page', { sections: { 'en-US': [link('Entry', 'section')] } }),
+    ],
+    Asset: [{ sys: { type: 'Asset', id: 'hero', version: 1 }, fields: {} }],
+  },
+}
+
+function getTree() {
+  const httpMock = setupHttpMock(Promise.resolve({ data: references }))
+  return wrapEntry(httpMock, page)
+    .getReferences({ include: 2 })
+    .then((tree) => ({ tree, httpMock }))
+}
+
+function describe(node) {
+  return `${node.link.sys.id}@${node.depth}`
+}
+
+test('Entry getReferences builds the reference tree', (t) => {
+  return getTree().then(({ tree, httpMock }) => {
+    t.equals(httpMock.get.args[0][0], 'entries/page/references', 'requests the references')
+    t.equals(httpMock.get.args[0][1].params.include, 2, 'sends the include parameter')
+    const { root } = tree
+    t.equals(root.entity.sys.id, 'page', 'has the entry as its root')
+    t.deepEqual(root.children.map(describe), ['hero@1', 'section@1', 'deep@1', 'other-page@1'])
+    const [hero, section, deep, otherPage] = root.children
+    t.equals(typeof hero.entity.update, 'function', 'wraps the entities')
+    t.deepEqual(section.path, ['fields', 'sections', 'en-US', 0], 'has the path of the link')
+    t.notOk(deep.entity, 'has no entity for links which are not included')
+    t.equals(otherPage.nodeType, 'entry-hyperlink', 'has the rich text node type')
+    t.ok(section.children[0].circular, 'marks circular references')
+    t.deepEqual(section.children[0].children, [], 'does not follow circular references')
+    t.equals(otherPage.children[0].entity, section.entity, 'shares the entities')
+    t.equals(tree.includes.Entry.length, 2, 'has the included entries')
+  })
+})
+
+test('traverseReferences visits the nodes depth first', (t) => {
+  return getTree().then(({ tree }) => {
+    const visited = []
+    traverseReferences(tree, (node, parent) => {
+      visited.push(`${describe(node)}<${parent ? parent.link.sys.id : ''}`)
+    })
+    t.deepEqual(visited, [
+      'page@0<',
+      'hero@1<page',
+      'section@1<page',
+      'page@2<section',
+      'deep@1<page',
+      'other-page@1<page',
+      'section@2<other-page',
+      'page@3<section',
+    ])
+  })
+})
+
+test('traverseReferences limits the depth and filters by content type', (t) => {
+  return getTree().then(({ tree }) => {
+    const visit = (options, visitor = () => undefined) => {
+      const visited = []
+      traverseReferences(
+        tree,
+        (node, parent) => {
+          visited.push(describe(node))
+          return visitor(node, parent)
+        },
+        options
+      )
+      return visited
+    }
+    t.deepEqual(visit({ maxDepth: 1 }), ['page@0', 'hero@1', 'section@1', 'deep@1', 'other-page@1'])
+    t.deepEqual(
+      visit({ contentTypes: ['section'] }),
+      ['section@1', 'section@2'],
+      'follows the references of other nodes'
+    )
+    t.deepEqual(
+      visit({}, (node) => node.link.sys.id !== 'other-page'),
+      ['page@0', 'hero@1', 'section@1', 'page@2', 'deep@1', 'other-page@1'],
+      'skips the references of nodes for which the visitor returns false'
+    )
+    const subtree = []
+    traverseReferences(tree.root.children[3], (node) => {
+      subtree.push(describe(node))
+    })
+    t.deepEqual(subtree, ['other-page@1', 'section@2', 'page@3'], 'visits subtrees')
+  })
+})
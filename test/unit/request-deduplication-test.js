@@ -0,0 +1,101 @@
+import test from 'blue-tape'
+import sinon from 'sinon'
+import { createDeduplicatingAdapter } from '../../lib/request-deduplication'
+import { createCMAHttpClient } from '../../lib/create-cma-http-client'
+import { wrapEntry } from '../../lib/entities/entry'
+import { cloneMock } from './mocks/entities'
+
+const baseURL = 'https://api.contentful.com:443/spaces/sid/environments/master/'
+
+function createAdapter(data = { sys: { id: 'id' } }) {
+  return sinon.spy((config) =>
+    Promise.resolve({ data, status: 200, statusText: 'OK', headers: {}, config })
+  )
+}
+
+test('Concurrent identical GET requests share one request', (t) => {
+  const adapter = createAdapter()
+  const deduplicatingAdapter = createDeduplicatingAdapter(adapter)
+  const config = { baseURL, url: 'entries/id', headers: { Authorization: 'Bearer token' } }
+
+  return Promise.all([deduplicatingAdapter(config), deduplicatingAdapter({ ...config })]).then(
+    ([first, second]) => {
+      t.ok(adapter.calledOnce, 'sends one request')
+      t.looseEqual(first.data, second.data, 'resolves both callers with the data')
+      t.notEqual(first.data, second.data, 'every caller gets its own copy')
+    }
+  )
+})
+
+test('GET requests which differ are not deduplicated', (t) => {
+  const adapter = createAdapter()
+  const deduplicatingAdapter = createDeduplicatingAdapter(adapter)
+  const headers = { Authorization: 'Bearer token' }
+
+  return Promise.all([
+    deduplicatingAdapter({ baseURL, url: 'entries', params: { skip: 0 }, headers }),
+    deduplicatingAdapter({ baseURL, url: 'entries', params: { skip: 100 }, headers }),
+    deduplicatingAdapter({
+      baseURL,
+      url: 'entries',
+      params: { skip: 0 },
+      headers: { Authorization: 'Bearer other' },
+    }),
+  ]).then(() => {
+    t.equals(adapter.callCount, 3, 'sends a request per url, query and token')
+  })
+})
+
+test('Only GET requests in flight are deduplicated', (t) => {
+  const adapter = createAdapter()
+  const deduplicatingAdapter = createDeduplicatingAdapter(adapter)
+  const config = { baseURL, url: 'entries/id', headers: {} }
+
+  return Promise.all([
+    deduplicatingAdapter({ ...config, method: 'put' }),
+    deduplicatingAdapter({ ...config, method: 'put' }),
+  ])
+    .then(() => deduplicatingAdapter(config))
+    .then(() => deduplicatingAdapter(config))
+    .then(() => {
+      t.equals(adapter.callCount, 4, 'sends mutations and sequential requests')
+    })
+})
+
+test('Deduplicated requests share failures', (t) => {
+  const error = new Error('failed')
+  const adapter = sinon.stub().rejects(error)
+  const deduplicatingAdapter = createDeduplicatingAdapter(adapter)
+  const config = { baseURL, url: 'entries/id', headers: {} }
+  const onError = (err) => err
+
+  return Promise.all([
+    deduplicatingAdapter(config).catch(onError),
+    deduplicatingAdapter(config).catch(onError),
+  ]).then(([first, second]) => {
+    t.ok(adapter.calledOnce, 'sends one request')
+    t.equals(first, error, 'rejects the first caller')
+    t.equals(second, error, 'rejects the second caller')
+  })
+})
+
+test('Callers of deduplicated requests get separate entries', (t) => {
+  const adapter = createAdapter(cloneMock('entry'))
+  const http = createCMAHttpClient({ accessToken: 'token', adapter })
+  const getEntry = () => http.get('entries/id').then((response) => wrapEntry(http, response.data))
+
+  return Promise.all([getEntry(), getEntry()]).then(([first, second]) => {
+    first.fields.field1 = 'changed'
+    t.ok(adapter.calledOnce, 'sends one request')
+    t.equals(second.fields.field1, 'str', 'changes do not leak into other entries')
+  })
+})
+
+test('Deduplication can be disabled', (t) => {
+  const adapter = createAdapter()
+  const http = createCMAHttpClient({ accessToken: 'token', adapter, dedupe: false })
+
+  return Promise.all([http.get('entries/id'), http.get('entries/id')]).then(() => {
+    t.equals(adapter.callCount, 2, 'sends every request')
+  })
+})
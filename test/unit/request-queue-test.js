@@ -0,0 +1,136 @@
+import test from 'blue-tape'
+import { createRequestQueue, createQueuedAdapter } from '../../lib/request-queue'
+import { createCMAHttpClient } from '../../lib/create-cma-http-client'
+
+function delay(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function createResponse(config, headers = {}) {
+  return { data: {}, status: 200, statusText: 'OK', headers, config }
+}
+
+test('Request queue limits concurrent requests', (t) => {
+  const queue = createRequestQueue({ concurrency: 2 })
+  let running = 0
+  let maxRunning = 0
+  const task = () => {
+    running++
+    maxRunning = Math.max(maxRunning, running)
+    return delay(20).then(() => running--)
+  }
+
+  const requests = [1, 2, 3, 4].map(() => queue.schedule(task))
+  t.equals(queue.getStats().active, 2, 'starts requests up to the concurrency')
+  t.equals(queue.getStats().queued, 2, 'queues the remaining requests')
+
+  return Promise.all(requests).then(() => {
+    const stats = queue.getStats()
+    t.equals(maxRunning, 2, 'never exceeds the concurrency')
+    t.equals(stats.sent, 4, 'counts sent requests')
+    t.equals(stats.active, 0, 'no requests are active anymore')
+    t.ok(stats.maxWaitTime >= 10, 'tracks the wait time')
+    t.ok(stats.averageWaitTime > 0, 'tracks the average wait time')
+  })
+})
+
+test('Request queue limits requests per second', (t) => {
+  const queue = createRequestQueue({ requestsPerSecond: 2 })
+  const startTimes = []
+  const task = () => {
+    startTimes.push(Date.now())
+    return Promise.resolve()
+  }
+
+  return Promise.all([1, 2, 3].map(() => queue.schedule(task))).then(() => {
+    t.ok(startTimes[1] - startTimes[0] < 100, 'starts requests within the budget right away')
+    t.ok(startTimes[2] - startTimes[0] >= 990, 'waits for the next second')
+  })
+})
+
+test('Request queue passes on task errors', (t) => {
+  const queue = createRequestQueue({ concurrency: 1 })
+  const error = new Error('failed')
+  return queue
+    .schedule(() => Promise.reject(error))
+    .then(
+      () => t.fail('should not succeed'),
+      (err) => t.equals(err, error, 'rejects with the task error')
+    )
+    .then(() => queue.schedule(() => Promise.resolve('next')))
+    .then((result) => t.equals(result, 'next', 'continues with the next request'))
+})
+
+test('Request queue frees the slot of tasks which throw', (t) => {
+  const queue = createRequestQueue({ concurrency: 1 })
+  const error = new Error('failed')
+  return queue
+    .schedule(() => {
+      throw error
+    })
+    .then(
+      () => t.fail('should not succeed'),
+      (err) => t.equals(err, error, 'rejects with the thrown error')
+    )
+    .then(() => queue.schedule(() => Promise.resolve('next')))
+    .then((result) => {
+      t.equals(result, 'next', 'continues with the next request')
+      t.equals(queue.getStats().active, 0, 'no requests are active anymore')
+    })
+})
+
+test('Request queue removes the abort listener once the task starts', (t) => {
+  const queue = createRequestQueue()
+  const listeners = []
+  const signal = {
+    aborted: false,
+    addEventListener: (type, listener) => listeners.push(listener),
+    removeEventListener: (type, listener) => listeners.splice(listeners.indexOf(listener), 1),
+  }
+  return queue
+    .schedule(() => Promise.resolve(), signal)
+    .then(() => t.equals(listeners.length, 0, 'removes the listener'))
+})
+
+test('Queued adapter pauses when no requests are left in the current second', (t) => {
+  const queue = createRequestQueue()
+  const startTimes = []
+  const adapter = createQueuedAdapter(queue, (config) => {
+    startTimes.push(Date.now())
+    return Promise.resolve(
+      createResponse(config, {
+        'x-contentful-ratelimit-second-remaining': '0',
+        'x-contentful-ratelimit-reset': '1',
+      })
+    )
+  })
+
+  return adapter({ url: 'first' })
+    .then(() => {
+      t.ok(queue.getStats().pausedUntil, 'reports the pause')
+      return adapter({ url: 'second' })
+    })
+    .then(() => {
+      t.ok(startTimes[1] - startTimes[0] >= 990, 'waits until the rate limit resets')
+    })
+})
+
+test('Scoped clients share the request queue', (t) => {
+  const http = createCMAHttpClient({
+    accessToken: 'token',
+    retryOnError: false,
+    adapter: (config) => Promise.resolve(createResponse(config)),
+  })
+  const spaceScopedHttp = http.cloneWithNewParams({ space: 'spaceid' })
+  const environmentScopedHttp = spaceScopedHttp.cloneWithNewParams({
+    baseURL: spaceScopedHttp.defaults.baseURL + 'environments/master',
+  })
+
+  return Promise.all([
+    http.get(''),
+    spaceScopedHttp.get('entries'),
+    environmentScopedHttp.get('entries'),
+  ]).then(() => {
+    t.equals(http.requestQueue.getStats().sent, 3, 'counts requests of all scoped clients')
+  })
+})
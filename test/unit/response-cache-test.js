@@ -0,0 +1,189 @@
+import test from 'blue-tape'
+import sinon from 'sinon'
+import { createCachingAdapter, createInMemoryCacheStore } from '../../lib/response-cache'
+import { createCMAHttpClient } from '../../lib/create-cma-http-client'
+
+const baseURL = 'https://api.contentful.com:443/spaces/sid/environments/master/'
+
+function createResponse(config, headers = {}, data = '{"sys":{"id":"id"}}') {
+  return { data, status: 200, statusText: 'OK', headers, config }
+}
+
+function createNotModifiedError(config) {
+  const error = new Error('Request failed with status code 304')
+  error.config = config
+  error.response = { data: '', status: 304, statusText: 'Not Modified', headers: {}, config }
+  return Promise.reject(error)
+}
+
+test('Caching adapter revalidates cached responses with the ETag', (t) => {
+  const adapter = sinon.stub()
+  adapter.onCall(0).callsFake((config) => Promise.resolve(createResponse(config, { etag: '"1"' })))
+  adapter.onCall(1).callsFake(createNotModifiedError)
+  const cachingAdapter = createCachingAdapter({}, adapter)
+  const config = { baseURL, url: 'content_types', params: { limit: 10 }, headers: {} }
+
+  return cachingAdapter(config)
+    .then(() => cachingAdapter(config))
+    .then((response) => {
+      t.notOk(adapter.args[0][0].headers['If-None-Match'], 'first request is not conditional')
+      t.equals(adapter.args[1][0].headers['If-None-Match'], '"1"', 'sends the cached ETag')
+      t.equals(response.status, 200, 'serves the cached response')
+      t.equals(response.data, '{"sys":{"id":"id"}}', 'serves the cached body')
+      t.equals(response.config, config, 'uses the current config')
+    })
+})
+
+test('Caching adapter sends If-Modified-Since for Last-Modified responses', (t) => {
+  const lastModified = 'Wed, 21 Oct 2015 07:28:00 GMT'
+  const adapter = sinon.stub()
+  adapter.callsFake((config) =>
+    Promise.resolve(createResponse(config, { 'last-modified': lastModified }))
+  )
+  const cachingAdapter = createCachingAdapter({}, adapter)
+  const config = { baseURL, url: 'locales', headers: {} }
+
+  return cachingAdapter(config)
+    .then(() => cachingAdapter(config))
+    .then(() => {
+      t.equals(adapter.args[1][0].headers['If-Modified-Since'], lastModified)
+    })
+})
+
+test('Caching adapter keys responses by url and query', (t) => {
+  const adapter = sinon.stub()
+  adapter.callsFake((config) => Promise.resolve(createResponse(config, { etag: '"1"' })))
+  const cachingAdapter = createCachingAdapter({}, adapter)
+
+  return cachingAdapter({ baseURL, url: 'entries', params: { skip: 0 }, headers: {} })
+    .then(() => cachingAdapter({ baseURL, url: 'entries', params: { skip: 100 }, headers: {} }))
+    .then(() => {
+      t.notOk(adapter.args[1][0].headers['If-None-Match'], 'different query is not cached')
+    })
+})
+
+test('Caching adapter invalidates cached responses on mutations', (t) => {
+  const store = createInMemoryCacheStore()
+  const adapter = sinon.stub()
+  adapter.callsFake((config) => Promise.resolve(createResponse(config, { etag: '"1"' })))
+  const cachingAdapter = createCachingAdapter({ store }, adapter)
+
+  return Promise.all([
+    cachingAdapter({ baseURL, url: 'entries', headers: {} }),
+    cachingAdapter({ baseURL, url: 'entries/id', headers: {} }),
+    cachingAdapter({ baseURL, url: 'entries/id/snapshots', headers: {} }),
+    cachingAdapter({ baseURL, url: 'entries/other', headers: {} }),
+    cachingAdapter({ baseURL, url: 'content_types', headers: {} }),
+  ])
+    .then(() => cachingAdapter({ baseURL, url: 'entries/id/published', method: 'put' }))
+    .then(() => {
+      t.looseEqual(
+        store.keys().map((key) => key.replace(baseURL, '')),
+        ['entries/other', 'content_types'],
+        'removes the mutated path, its parents and sub resources'
+      )
+    })
+})
+
+test('In-memory cache store evicts the least recently used entry', (t) => {
+  const store = createInMemoryCacheStore(2)
+  store.set('a', { response: {} })
+  store.set('b', { response: {} })
+  store.get('a')
+  store.set('c', { response: {} })
+  t.looseEqual(store.keys(), ['a', 'c'])
+  t.end()
+})
+
+test('Caching adapter uses custom stores', (t) => {
+  const entries = {}
+  const store = {
+    get: sinon.spy((key) => Promise.resolve(entries[key])),
+    set: sinon.spy((key, entry) => {
+      entries[key] = entry
+      return Promise.resolve()
+    }),
+    delete: sinon.spy(),
+    keys: () => Object.keys(entries),
+  }
+  const adapter = sinon.stub()
+  adapter.onCall(0).callsFake((config) => Promise.resolve(createResponse(config, { etag: '"1"' })))
+  adapter.onCall(1).callsFake(createNotModifiedError)
+  const cachingAdapter = createCachingAdapter({ store }, adapter)
+  const config = { baseURL, url: 'content_types/ct/editor_interface', headers: {} }
+
+  return cachingAdapter(config)
+    .then(() => cachingAdapter(config))
+    .then((response) => {
+      t.ok(store.set.calledOnce, 'stores the response')
+      t.ok(store.get.calledTwice, 'reads from the store')
+      t.equals(response.status, 200, 'serves the stored response')
+    })
+})
+
+test('Client cache is opt-in', (t) => {
+  const adapter = sinon.stub()
+  adapter.callsFake((config) => Promise.resolve(createResponse(config, { etag: '"1"' })))
+  const http = createCMAHttpClient({ accessToken: 'token', retryOnError: false, adapter })
+
+  return http
+    .get('sid')
+    .then(() => http.get('sid'))
+    .then(() => {
+      t.notOk(adapter.args[1][0].headers['If-None-Match'], 'does not cache by default')
+    })
+})
+
+test('Client serves cached responses for all scoped clients', (t) => {
+  const adapter = sinon.stub()
+  adapter.onCall(0).callsFake((config) => Promise.resolve(createResponse(config, { etag: '"1"' })))
+  adapter.onCall(1).callsFake(createNotModifiedError)
+  const http = createCMAHttpClient({
+    accessToken: 'token',
+    retryOnError: false,
+    adapter,
+    cache: true,
+  })
+  const spaceScopedHttp = http.cloneWithNewParams({ space: 'sid' })
+
+  return spaceScopedHttp
+    .get('locales')
+    .then(() => spaceScopedHttp.cloneWithNewParams({ space: 'sid' }).get('locales'))
+    .then((response) => {
+      t.equals(response.status, 200, 'resolves with the cached response')
+      t.looseEqual(response.data, { sys: { id: 'id' } }, 'parses the cached body')
+    })
+})
+
+test('Client stores cached responses in the store instance of the caller', (t) => {
+  class MapStore {
+    constructor() {
+      this.map = new Map()
+    }
+    get(key) {
+      return this.map.get(key)
+    }
+    set(key, value) {
+      this.map.set(key, value)
+    }
+    delete(key) {
+      this.map.delete(key)
+    }
+    keys() {
+      return Array.from(this.map.keys())
+    }
+  }
+  const store = new MapStore()
+  const adapter = sinon.stub()
+  adapter.callsFake((config) => Promise.resolve(createResponse(config, { etag: '"1"' })))
+  const http = createCMAHttpClient({
+    accessToken: 'token',
+    retryOnError: false,
+    adapter,
+    cache: { store },
+  })
+
+  return http.get('sid').then(() => {
+    t.equals(store.map.size, 1, 'stores the response in the store')
+  })
+})
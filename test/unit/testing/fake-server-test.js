@@ -0,0 +1,293 @@
+import test from 'blue-tape'
+import { createClient, createQuery } from '../../../lib/contentful-management'
+import { startFakeServer } from '../../../lib/testing'
+
+function withServer(fn) {
+  return startFakeServer({ spaces: [{ id: 'space-id', name: 'Space' }] }).then((server) => {
+    const client = createClient({
+      accessToken: 'token',
+      host: server.host,
+      insecure: true,
+      retryOnError: false,
+    })
+    return client
+      .getSpace('space-id')
+      .then((space) => space.getEnvironment('master'))
+      .then((environment) => fn(environment, client, server))
+      .then(
+        () => server.close(),
+        (error) => server.close().then(() => Promise.reject(error))
+      )
+  })
+}
+
+function createBlogPost(environment) {
+  return environment
+    .createContentTypeWithId('blogPost', {
+      name: 'Blog post',
+      fields: [{ id: 'title', name: 'Title', type: 'Symbol', required: true }],
+    })
+    .then((contentType) => contentType.publish())
+}
+
+test('Fake server creates and updates entities with increasing versions', (t) => {
+  return withServer((environment) =>
+    createBlogPost(environment)
+      .then(() => environment.createEntry('blogPost', { fields: { title: { 'en-US': 'Hello' } } }))
+      .then((entry) => {
+        t.equals(entry.sys.version, 1, 'creates the entry with version 1')
+        t.equals(entry.sys.contentType.sys.id, 'blogPost', 'links the content type')
+        entry.fields.title['en-US'] = 'Hello world'
+        return entry.update()
+      })
+      .then((entry) => {
+        t.equals(entry.sys.version, 2, 'increments the version')
+        return environment.getEntry(entry.sys.id)
+      })
+      .then((entry) => {
+        t.equals(entry.fields.title['en-US'], 'Hello world', 'stores the update')
+      })
+  )
+})
+
+test('Fake server rejects updates with an outdated version', (t) => {
+  return withServer((environment) =>
+    createBlogPost(environment)
+      .then(() => environment.createEntry('blogPost', { fields: { title: { 'en-US': 'Hello' } } }))
+      .then((entry) => entry.update().then(() => entry.update()))
+      .then(
+        () => t.fail('should not update the entry'),
+        (error) => {
+          t.equals(error.name, 'VersionMismatch', 'throws a version mismatch error')
+          t.equals(error.status, 409, 'responds with a conflict')
+        }
+      )
+  )
+})
+
+test('Fake server publishes and archives entries', (t) => {
+  return withServer((environment) =>
+    createBlogPost(environment)
+      .then(() => environment.createEntry('blogPost', { fields: { title: { 'en-US': 'Hello' } } }))
+      .then((entry) => entry.publish())
+      .then((entry) => {
+        t.ok(entry.isPublished(), 'publishes the entry')
+        t.equals(entry.sys.publishedVersion, 1, 'records the published version')
+        t.equals(entry.sys.version, 2, 'increments the version')
+        return entry.archive().then(
+          () => t.fail('should not archive a published entry'),
+          (error) => {
+            t.equals(error.name, 'BadRequest', 'refuses to archive a published entry')
+            return entry.unpublish()
+          }
+        )
+      })
+      .then((entry) => entry.archive())
+      .then((entry) => {
+        t.ok(entry.isArchived(), 'archives the entry')
+        t.notOk(entry.isPublished(), 'unpublishes the entry')
+        return entry.unarchive()
+      })
+      .then((entry) => {
+        t.notOk(entry.isArchived(), 'unarchives the entry')
+        return entry.delete()
+      })
+  )
+})
+
+test('Fake server validates required fields on publish', (t) => {
+  return withServer((environment) =>
+    createBlogPost(environment)
+      .then(() => environment.createEntry('blogPost', { fields: {} }))
+      .then((entry) => entry.publish())
+      .then(
+        () => t.fail('should not publish the entry'),
+        (error) => {
+          t.equals(error.name, 'ValidationFailed', 'throws a validation error')
+          t.deepEqual(error.details.errors[0].path, ['fields', 'title', 'en-US'], 'names the field')
+        }
+      )
+  )
+})
+
+test('Fake server paginates and filters collections', (t) => {
+  return withServer((environment) =>
+    createBlogPost(environment)
+      .then(() =>
+        Promise.all(
+          ['a', 'b', 'c', 'd', 'e'].map((title) =>
+            environment.createEntry('blogPost', { fields: { title: { 'en-US': title } } })
+          )
+        )
+      )
+      .then(() => environment.getEntries({ order: '-fields.title', skip: 1, limit: 2 }))
+      .then((collection) => {
+        t.equals(collection.total, 5, 'returns the total')
+        t.equals(collection.skip, 1, 'returns the skip')
+        t.equals(collection.limit, 2, 'returns the limit')
+        t.deepEqual(
+          collection.items.map((entry) => entry.fields.title['en-US']),
+          ['d', 'c'],
+          'returns the ordered page'
+        )
+        return environment.getEntries({ 'fields.title[in]': 'a,e' })
+      })
+      .then((collection) => {
+        t.equals(collection.total, 2, 'filters the entries')
+      })
+  )
+})
+
+test('Fake server filters with range operators', (t) => {
+  return withServer((environment) =>
+    environment
+      .createContentTypeWithId('review', {
+        name: 'Review',
+        fields: [
+          { id: 'rating', name: 'Rating', type: 'Integer' },
+          { id: 'date', name: 'Date', type: 'Date' },
+        ],
+      })
+      .then((contentType) => contentType.publish())
+      .then(() =>
+        Promise.all(
+          [
+            [1, '2020-01-01'],
+            [3, '2020-06-01'],
+            [10, '2021-01-01'],
+          ].map(([rating, date]) =>
+            environment.createEntry('review', {
+              fields: { rating: { 'en-US': rating }, date: { 'en-US': date } },
+            })
+          )
+        )
+      )
+      .then(() =>
+        Promise.all([
+          environment.getEntries(createQuery().where('rating', 'gte', 3).build()),
+          environment.getEntries({ 'fields.rating[lt]': 3 }),
+          environment.getEntries({ 'fields.date[gt]': '2020-03-01', 'fields.rating[lte]': 3 }),
+        ])
+      )
+      .then(([gte, lt, dates]) => {
+        const ratings = (collection) =>
+          collection.items.map((entry) => entry.fields.rating['en-US']).sort((a, b) => a - b)
+        t.deepEqual(ratings(gte), [3, 10], 'compares numbers as numbers')
+        t.deepEqual(ratings(lt), [1], 'filters with lt')
+        t.deepEqual(ratings(dates), [3], 'compares dates')
+      })
+  )
+})
+
+function createLinkedPosts(environment) {
+  const link = (id) => ({ sys: { type: 'Link', linkType: 'Entry', id } })
+  return environment
+    .createContentTypeWithId('post', {
+      name: 'Post',
+      fields: [
+        { id: 'title', name: 'Title', type: 'Symbol' },
+        {
+          id: 'related',
+          name: 'Related',
+          type: 'Array',
+          items: { type: 'Link', linkType: 'Entry' },
+        },
+      ],
+    })
+    .then((contentType) => contentType.publish())
+    .then(() =>
+      [
+        ['c', []],
+        ['b', [link('c')]],
+        ['a', [link('b')]],
+      ].reduce(
+        (promise, [id, related]) =>
+          promise.then(() =>
+            environment.createEntryWithId('post', id, {
+              fields: { title: { 'en-US': id }, related: { 'en-US': related } },
+            })
+          ),
+        Promise.resolve()
+      )
+    )
+}
+
+test('Fake server includes linked entries up to the include depth', (t) => {
+  return withServer((environment) =>
+    createLinkedPosts(environment)
+      .then(() =>
+        Promise.all([
+          environment.getEntries({ 'sys.id': 'a', include: 1 }),
+          environment.getEntries({ 'sys.id': 'a', include: 2 }),
+          environment.getEntries({ 'sys.id': 'a' }),
+        ])
+      )
+      .then(([one, two, none]) => {
+        const ids = (collection) => collection.includes.Entry.map((entry) => entry.sys.id)
+        t.deepEqual(ids(one), ['b'], 'includes the linked entries')
+        t.deepEqual(ids(two), ['b', 'c'], 'includes the links of linked entries')
+        t.deepEqual(one.includes.Asset, [], 'returns the included assets')
+        t.notOk(none.includes, 'does not include without the parameter')
+      })
+  )
+})
+
+test('Fake server filters entries linking to an entry', (t) => {
+  return withServer((environment) =>
+    createLinkedPosts(environment)
+      .then(() => environment.getEntries({ links_to_entry: 'c' }))
+      .then((collection) => {
+        t.deepEqual(
+          collection.items.map((entry) => entry.sys.id),
+          ['b'],
+          'returns the entries linking to the entry'
+        )
+      })
+  )
+})
+
+test('Fake server rejects unknown query parameters', (t) => {
+  return withServer((environment) =>
+    Promise.all([
+      environment.getEntries({ title: 'a' }).then(
+        () => t.fail('should not succeed'),
+        (error) => t.equals(error.name, 'BadRequest', 'rejects unknown parameters')
+      ),
+      environment.getEntries({ include: 11 }).then(
+        () => t.fail('should not succeed'),
+        (error) => t.equals(error.name, 'BadRequest', 'rejects too deep includes')
+      ),
+    ])
+  )
+})
+
+test('Fake server responds with not found errors', (t) => {
+  return withServer((environment, client) =>
+    environment
+      .getEntry('missing')
+      .then(
+        () => t.fail('should not find the entry'),
+        (error) => t.equals(error.name, 'NotFound', 'throws a not found error')
+      )
+      .then(() => client.getSpace('missing'))
+      .then(
+        () => t.fail('should not find the space'),
+        (error) => t.equals(error.name, 'NotFound', 'throws a not found error for spaces')
+      )
+  )
+})
+
+test('Fake server copies the source environment into new environments', (t) => {
+  return withServer((environment, client) =>
+    createBlogPost(environment)
+      .then(() => client.getSpace('space-id'))
+      .then((space) => space.createEnvironmentWithId('staging', { name: 'Staging' }))
+      .then((staging) => {
+        t.equals(staging.sys.id, 'staging', 'creates the environment')
+        return staging.getContentTypes()
+      })
+      .then((contentTypes) => {
+        t.equals(contentTypes.items[0].sys.id, 'blogPost', 'copies the content types')
+      })
+  )
+})
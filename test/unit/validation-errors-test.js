@@ -0,0 +1,71 @@
+import test from 'blue-tape'
+import errorHandler from '../../lib/error-handler'
+import { ValidationFailedError } from '../../lib/errors'
+import { formatValidationErrors, parseValidationErrors } from '../../lib/validation-errors'
+import { cloneMock } from './mocks/entities'
+
+const details = {
+  errors: [
+    {
+      name: 'required',
+      path: ['fields', 'title', 'en-US'],
+      details: 'The property "en-US" is required here',
+    },
+    { name: 'unique', path: ['fields', 'slug', 'de-DE'], value: 'hello-world' },
+    { name: 'size', path: ['fields', 'tags', 'en-US'], min: 1, max: 3, value: [] },
+    { name: 'in', path: ['fields', 'category', 'en-US', 0], expected: ['news', 'blog'] },
+    { name: 'required', path: ['name'] },
+  ],
+}
+
+test('parseValidationErrors maps errors to fields and locales', (t) => {
+  const errors = parseValidationErrors(details)
+  t.deepEqual(errors[0], {
+    fieldId: 'title',
+    locale: 'en-US',
+    validation: 'required',
+    message: 'The property "en-US" is required here',
+    value: undefined,
+    path: ['fields', 'title', 'en-US'],
+  })
+  t.equals(errors[1].value, 'hello-world', 'keeps the value')
+  t.equals(errors[1].message, 'The value has to be unique', 'adds a default message')
+  t.equals(errors[2].message, 'The size has to be between 1 and 3', 'describes the range')
+  t.equals(errors[3].locale, 'en-US', 'finds the locale of array items')
+  t.equals(errors[3].message, 'The value has to be one of "news", "blog"', 'lists expected values')
+  t.equals(errors[4].fieldId, undefined, 'has no field for other properties')
+  t.deepEqual(parseValidationErrors({}), [], 'returns no errors without details')
+  t.end()
+})
+
+test('formatValidationErrors renders one line per error', (t) => {
+  t.equals(
+    formatValidationErrors(parseValidationErrors(details)),
+    [
+      'title (en-US): required - The property "en-US" is required here',
+      'slug (de-DE): unique - The value has to be unique, got "hello-world"',
+      'tags (en-US): size - The size has to be between 1 and 3, got []',
+      'category (en-US): in - The value has to be one of "news", "blog"',
+      'name: required - The value is required',
+    ].join('\n')
+  )
+  t.end()
+})
+
+test('Error handler adds parsed validation errors', (t) => {
+  const error = cloneMock('error')
+  error.response.status = 422
+  error.response.data = {
+    sys: { id: 'ValidationFailed', type: 'Error' },
+    message: 'Validation error',
+    details,
+  }
+  try {
+    errorHandler(error)
+  } catch (err) {
+    t.ok(err instanceof ValidationFailedError, 'throws a validation error')
+    t.equals(err.validationErrors.length, 5, 'parses all errors')
+    t.equals(err.validationErrors[1].fieldId, 'slug', 'maps the field')
+  }
+  t.end()
+})
@@ -52,6 +52,8 @@ const baseBundleConfig = {
   plugins,
   node: {
     os: 'empty',
+    fs: 'empty',
+    path: 'empty',
   },
   // Show minimal information, but all errors and warnings
   // Except for log generation which have to contain all information
@@ -121,4 +123,9 @@ nodeBundle.output.libraryTarget = 'commonjs2'
 nodeBundle.output.filename = `${baseFileName}.node${PROD ? '.min' : ''}.js`
 delete nodeBundle.node
 
-module.exports = [browserBundle, legacyBundle, nodeBundle]
+// Fake server for tests, required as contentful-management/testing
+const testingBundle = clone(nodeBundle)
+testingBundle.entry = ['./testing/index.ts']
+testingBundle.output.filename = `${baseFileName}.testing.node${PROD ? '.min' : ''}.js`
+
+module.exports = [browserBundle, legacyBundle, nodeBundle, testingBundle]